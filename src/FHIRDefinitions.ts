@@ -1,5 +1,8 @@
 import { cloneDeep, isEqual, uniqWith, uniq } from 'lodash';
 import { DoubleMap } from './utils';
+import { PackageConflict } from './dependencies';
+import { LazyDefinition } from './LazyDefinition';
+import { LazySummaryField } from './utils/packageIndex';
 
 /** Class representing the FHIR definitions in one or more FHIR packages */
 export class FHIRDefinitions {
@@ -15,6 +18,13 @@ export class FHIRDefinitions {
   childFHIRDefs: FHIRDefinitions[];
   package: string;
   unsuccessfulPackageLoad: boolean;
+  packageConflicts: PackageConflict[];
+  // Maps each loaded package (format: packageId#version) to the registry it was downloaded from
+  packageRegistries: { [fullPackageName: string]: string };
+  // Lazy definitions that can't be classified until a field their summaries lack is read from their files
+  private unclassifiedDefinitions: LazyDefinition[];
+  // Lazy definitions in each map whose names are not known, which are only read when a lookup misses
+  private unnamedDefinitions: Map<Map<string, any>, LazyDefinition[]>;
 
   /** Create a FHIRDefinitions */
   constructor() {
@@ -30,6 +40,10 @@ export class FHIRDefinitions {
     this.packageJsons = new DoubleMap();
     this.childFHIRDefs = [];
     this.unsuccessfulPackageLoad = false;
+    this.packageConflicts = [];
+    this.packageRegistries = {};
+    this.unclassifiedDefinitions = [];
+    this.unnamedDefinitions = new Map();
   }
 
   /** Get the total number of definitions */
@@ -54,6 +68,7 @@ export class FHIRDefinitions {
    * @returns array of resources
    */
   allResources(fhirPackage?: string): any[] {
+    this.classifyPendingDefinitions();
     if (
       (this.resources.size > 0 && this.childFHIRDefs.length > 0) ||
       this.childFHIRDefs.length > 1
@@ -64,6 +79,7 @@ export class FHIRDefinitions {
   }
 
   protected collectResources(fhirPackage?: string): any[] {
+    this.classifyPendingDefinitions();
     const childValues = this.childFHIRDefs
       .map(def => def.collectResources(fhirPackage))
       .reduce((a, b) => a.concat(b), []);
@@ -83,6 +99,7 @@ export class FHIRDefinitions {
    * @returns array of logicals
    */
   allLogicals(fhirPackage?: string): any[] {
+    this.classifyPendingDefinitions();
     if (
       (this.logicals.size > 0 && this.childFHIRDefs.length > 0) ||
       this.childFHIRDefs.length > 1
@@ -93,6 +110,7 @@ export class FHIRDefinitions {
   }
 
   protected collectLogicals(fhirPackage?: string): any[] {
+    this.classifyPendingDefinitions();
     const childValues = this.childFHIRDefs
       .map(def => def.collectLogicals(fhirPackage))
       .reduce((a, b) => a.concat(b), []);
@@ -112,6 +130,7 @@ export class FHIRDefinitions {
    * @returns array of profiles
    */
   allProfiles(fhirPackage?: string): any[] {
+    this.classifyPendingDefinitions();
     if (
       (this.profiles.size > 0 && this.childFHIRDefs.length > 0) ||
       this.childFHIRDefs.length > 1
@@ -122,6 +141,7 @@ export class FHIRDefinitions {
   }
 
   protected collectProfiles(fhirPackage?: string): any[] {
+    this.classifyPendingDefinitions();
     const childValues = this.childFHIRDefs
       .map(def => def.collectProfiles(fhirPackage))
       .reduce((a, b) => a.concat(b), []);
@@ -141,6 +161,7 @@ export class FHIRDefinitions {
    * @returns array of extensions
    */
   allExtensions(fhirPackage?: string): any[] {
+    this.classifyPendingDefinitions();
     if (
       (this.extensions.size > 0 && this.childFHIRDefs.length > 0) ||
       this.childFHIRDefs.length > 1
@@ -151,6 +172,7 @@ export class FHIRDefinitions {
   }
 
   protected collectExtensions(fhirPackage?: string): any[] {
+    this.classifyPendingDefinitions();
     const childValues = this.childFHIRDefs
       .map(def => def.collectExtensions(fhirPackage))
       .reduce((a, b) => a.concat(b), []);
@@ -170,6 +192,7 @@ export class FHIRDefinitions {
    * @returns array of types
    */
   allTypes(fhirPackage?: string): any[] {
+    this.classifyPendingDefinitions();
     if ((this.types.size > 0 && this.childFHIRDefs.length > 0) || this.childFHIRDefs.length > 1) {
       return uniqWith(this.collectTypes(fhirPackage), isEqual);
     }
@@ -177,6 +200,7 @@ export class FHIRDefinitions {
   }
 
   protected collectTypes(fhirPackage?: string): any[] {
+    this.classifyPendingDefinitions();
     const childValues = this.childFHIRDefs
       .map(def => def.collectTypes(fhirPackage))
       .reduce((a, b) => a.concat(b), []);
@@ -196,6 +220,7 @@ export class FHIRDefinitions {
    * @returns array of value sets
    */
   allValueSets(fhirPackage?: string): any[] {
+    this.classifyPendingDefinitions();
     if (
       (this.valueSets.size > 0 && this.childFHIRDefs.length > 0) ||
       this.childFHIRDefs.length > 1
@@ -206,6 +231,7 @@ export class FHIRDefinitions {
   }
 
   protected collectValueSets(fhirPackage?: string): any[] {
+    this.classifyPendingDefinitions();
     const childValues = this.childFHIRDefs
       .map(def => def.collectValueSets(fhirPackage))
       .reduce((a, b) => a.concat(b), []);
@@ -225,6 +251,7 @@ export class FHIRDefinitions {
    * @returns array of code systems
    */
   allCodeSystems(fhirPackage?: string): any[] {
+    this.classifyPendingDefinitions();
     if (
       (this.codeSystems.size > 0 && this.childFHIRDefs.length > 0) ||
       this.childFHIRDefs.length > 1
@@ -235,6 +262,7 @@ export class FHIRDefinitions {
   }
 
   protected collectCodeSystems(fhirPackage?: string): any[] {
+    this.classifyPendingDefinitions();
     const childValues = this.childFHIRDefs
       .map(def => def.collectCodeSystems(fhirPackage))
       .reduce((a, b) => a.concat(b), []);
@@ -254,6 +282,7 @@ export class FHIRDefinitions {
    * @returns array of implementation guides
    */
   allImplementationGuides(fhirPackage?: string): any[] {
+    this.classifyPendingDefinitions();
     if (
       (this.implementationGuides.size > 0 && this.childFHIRDefs.length > 0) ||
       this.childFHIRDefs.length > 1
@@ -264,6 +293,7 @@ export class FHIRDefinitions {
   }
 
   protected collectImplementationGuides(fhirPackage?: string): any[] {
+    this.classifyPendingDefinitions();
     const childValues = this.childFHIRDefs
       .map(def => def.collectImplementationGuides(fhirPackage))
       .reduce((a, b) => a.concat(b), []);
@@ -324,42 +354,108 @@ export class FHIRDefinitions {
   }
 
   /**
-   * Add a definition
+   * Add a definition. A LazyDefinition is classified using its summary and is only read from its file
+   * when it is first needed. When its summary lacks a field that is needed to classify it (the derivation or
+   * baseDefinition of a StructureDefinition), it is classified the first time the definitions are searched.
    * @param definition - The definition to add
    */
   add(definition: any): void {
-    if (definition.resourceType === 'StructureDefinition') {
+    if (definition instanceof LazyDefinition && !canClassify(definition)) {
+      this.unclassifiedDefinitions.push(definition);
+    } else {
+      this.classify(definition);
+    }
+  }
+
+  private classify(definition: any): void {
+    const summary = summarizeDefinition(definition);
+    if (summary.resourceType === 'StructureDefinition') {
       if (
-        definition.type === 'Extension' &&
-        definition.baseDefinition !== 'http://hl7.org/fhir/StructureDefinition/Element'
+        summary.type === 'Extension' &&
+        getSummaryField(definition, 'baseDefinition') !==
+          'http://hl7.org/fhir/StructureDefinition/Element'
       ) {
-        addDefinitionToMap(definition, this.extensions);
+        this.addDefinitionToMap(definition, this.extensions);
       } else if (
-        definition.kind === 'primitive-type' ||
-        definition.kind === 'complex-type' ||
-        definition.kind === 'datatype'
+        summary.kind === 'primitive-type' ||
+        summary.kind === 'complex-type' ||
+        summary.kind === 'datatype'
       ) {
-        addDefinitionToMap(definition, this.types);
-      } else if (definition.kind === 'resource') {
-        if (definition.derivation === 'constraint') {
-          addDefinitionToMap(definition, this.profiles);
+        this.addDefinitionToMap(definition, this.types);
+      } else if (summary.kind === 'resource') {
+        if (getSummaryField(definition, 'derivation') === 'constraint') {
+          this.addDefinitionToMap(definition, this.profiles);
         } else {
-          addDefinitionToMap(definition, this.resources);
+          this.addDefinitionToMap(definition, this.resources);
         }
-      } else if (definition.kind === 'logical') {
-        if (definition.derivation === 'specialization') {
-          addDefinitionToMap(definition, this.logicals);
+      } else if (summary.kind === 'logical') {
+        if (getSummaryField(definition, 'derivation') === 'specialization') {
+          this.addDefinitionToMap(definition, this.logicals);
         } else {
-          addDefinitionToMap(definition, this.profiles);
+          this.addDefinitionToMap(definition, this.profiles);
         }
       }
-    } else if (definition.resourceType === 'ValueSet') {
-      addDefinitionToMap(definition, this.valueSets);
-    } else if (definition.resourceType === 'CodeSystem') {
-      addDefinitionToMap(definition, this.codeSystems);
-    } else if (definition.resourceType === 'ImplementationGuide') {
-      addDefinitionToMap(definition, this.implementationGuides);
+    } else if (summary.resourceType === 'ValueSet') {
+      this.addDefinitionToMap(definition, this.valueSets);
+    } else if (summary.resourceType === 'CodeSystem') {
+      this.addDefinitionToMap(definition, this.codeSystems);
+    } else if (summary.resourceType === 'ImplementationGuide') {
+      this.addDefinitionToMap(definition, this.implementationGuides);
+    }
+  }
+
+  private classifyPendingDefinitions(): void {
+    if (this.unclassifiedDefinitions.length > 0) {
+      const definitions = this.unclassifiedDefinitions;
+      this.unclassifiedDefinitions = [];
+      definitions.forEach(def => this.classify(def));
+    }
+  }
+
+  private addDefinitionToMap(def: any, defMap: Map<string, any>): void {
+    const summary = summarizeDefinition(def);
+    if (summary.id) {
+      defMap.set(summary.id, def);
+    }
+    if (summary.url) {
+      defMap.set(summary.url, def);
+    }
+    if (
+      def instanceof LazyDefinition &&
+      !def.hasSummaryField('name') &&
+      (summary.id || summary.url)
+    ) {
+      // The name is only read if a lookup does not find the definition by its id or url
+      if (!this.unnamedDefinitions.has(defMap)) {
+        this.unnamedDefinitions.set(defMap, []);
+      }
+      this.unnamedDefinitions.get(defMap).push(def);
+    } else if (getSummaryField(def, 'name')) {
+      defMap.set(getSummaryField(def, 'name'), def);
+    }
+  }
+
+  /**
+   * Reads the names of the definitions in a map whose names are not known yet, so that they can be found by
+   * name. A name does not replace a definition that was found by its id or url.
+   * @param {Map<string, any>} defMap - The map of definitions
+   * @returns {boolean} true if any names were read
+   */
+  private resolveNames(defMap: Map<string, any>): boolean {
+    const definitions = this.unnamedDefinitions.get(defMap);
+    if (definitions == null) {
+      return false;
     }
+    this.unnamedDefinitions.delete(defMap);
+    const resolvedNames = new Set<string>();
+    definitions.forEach(def => {
+      const name = def.getSummaryField('name');
+      if (name && (!defMap.has(name) || resolvedNames.has(name))) {
+        defMap.set(name, def);
+        resolvedNames.add(name);
+      }
+    });
+    return true;
   }
 
   /**
@@ -394,11 +490,15 @@ export class FHIRDefinitions {
       const currentFHIRDefs = defsToSearch.shift();
       const [base, ...versionParts] = item?.split('|') ?? ['', ''];
       const version = versionParts.join('|') || null;
-      const def = currentFHIRDefs[map].get(base);
+      currentFHIRDefs.classifyPendingDefinitions();
+      let def = currentFHIRDefs[map].get(base);
+      if (def == null && currentFHIRDefs.resolveNames(currentFHIRDefs[map])) {
+        def = currentFHIRDefs[map].get(base);
+      }
       if (def) {
-        if (version == null || version === def?.version) {
+        if (version == null || version === summarizeDefinition(def).version) {
           // Only return the found definition if the version matches (if provided)
-          return def;
+          return resolveDefinition(def);
         }
       }
       if (currentFHIRDefs.childFHIRDefs.length > 0) {
@@ -464,20 +564,32 @@ export class FHIRDefinitions {
   }
 }
 
-function addDefinitionToMap(def: any, defMap: Map<string, any>): void {
-  if (def.id) {
-    defMap.set(def.id, def);
-  }
-  if (def.url) {
-    defMap.set(def.url, def);
-  }
-  if (def.name) {
-    defMap.set(def.name, def);
-  }
+function cloneJsonMapValues(map: Map<string, any>): any {
+  return Array.from(map.values()).map(v => cloneDeep(resolveDefinition(v)));
 }
 
-function cloneJsonMapValues(map: Map<string, any>): any {
-  return Array.from(map.values()).map(v => cloneDeep(v));
+// Gets the fields used to classify and look up a definition without reading a LazyDefinition's file
+function summarizeDefinition(def: any): any {
+  return def instanceof LazyDefinition ? def.summary : def;
+}
+
+// Gets a field that a LazyDefinition's summary may not record, reading it from the file if needed
+function getSummaryField(def: any, field: LazySummaryField): string {
+  return def instanceof LazyDefinition ? def.getSummaryField(field) : def[field];
+}
+
+// Determines if a LazyDefinition can be classified without reading its file
+function canClassify(def: LazyDefinition): boolean {
+  const { resourceType, type, kind } = def.summary;
+  return (
+    resourceType !== 'StructureDefinition' ||
+    ((type !== 'Extension' || def.hasSummaryField('baseDefinition')) &&
+      (!['resource', 'logical'].includes(kind) || def.hasSummaryField('derivation')))
+  );
+}
+
+function resolveDefinition(def: any): any {
+  return def instanceof LazyDefinition ? def.getDefinition() : def;
 }
 
 export enum Type {
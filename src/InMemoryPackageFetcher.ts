@@ -0,0 +1,292 @@
+import crypto from 'crypto';
+import fs from 'fs-extra';
+import path from 'path';
+import { maxSatisfying, rsort, valid } from 'semver';
+import { Readable } from 'stream';
+import tar from 'tar';
+import { PackageFetcher, PackageTarball, QAEntry } from './fetcher';
+import { RequestOptions } from './utils/axiosUtils';
+import { throwIfCancelled } from './utils/cancellation';
+
+/** A package tarball that an InMemoryPackageFetcher serves */
+type FixturePackage = {
+  id: string;
+  version: string;
+  tarball: Buffer;
+  packageJson: any;
+};
+
+// The FHIR releases that the registry catalog uses for each FHIR version
+const FHIR_RELEASES: { [version: string]: string } = {
+  '3.0': 'R3',
+  '4.0': 'R4',
+  '4.3': 'R4B',
+  '5.0': 'R5'
+};
+
+/**
+ * A PackageFetcher that serves packages from a directory of package tarballs instead of the network, so that
+ * packages can be loaded in tests without mocking any modules. Each tarball is named with the package it
+ * contains (e.g., hl7.fhir.us.core#6.1.0.tgz); a tarball without a # in its name is identified by the name and
+ * version in its package.json. A tarball named with a current version (e.g., sushi-test#current.tgz or
+ * sushi-test#current$my-branch.tgz) is served as the latest build of that branch on the build server. A
+ * tarball is also served from any URL that ends with its file name (e.g., https://example.org/pkg.tgz for pkg.tgz),
+ * so packages requested by a tarball URL can be loaded. The tarballs are read into memory when the fetcher is
+ * created, and every registry serves every package.
+ */
+export class InMemoryPackageFetcher implements PackageFetcher {
+  // The URLs that have been requested, in order
+  requests: string[] = [];
+  private packages = new Map<string, FixturePackage>();
+  // The packages by the file name of their tarball
+  private tarballs = new Map<string, FixturePackage>();
+
+  /**
+   * Creates an InMemoryPackageFetcher that serves the package tarballs in a directory
+   * @param {string} fixtureDirectory - The directory that contains the package tarballs (*.tgz)
+   */
+  constructor(fixtureDirectory: string) {
+    fs.readdirSync(fixtureDirectory)
+      .filter(file => file.endsWith('.tgz'))
+      .forEach(file => {
+        const tarballPath = path.join(fixtureDirectory, file);
+        const packageJson = readPackageJson(tarballPath);
+        const [id, version] = file.includes('#')
+          ? file.slice(0, -'.tgz'.length).split('#')
+          : [packageJson?.name, packageJson?.version];
+        if (id && version) {
+          const pkg = { id, version, tarball: fs.readFileSync(tarballPath), packageJson };
+          this.packages.set(`${id}#${version}`.toLowerCase(), pkg);
+          this.tarballs.set(file.toLowerCase(), pkg);
+        }
+      });
+  }
+
+  /**
+   * Serves the manifest of a package, which lists every version of the package in the fixture directory
+   * (other than current versions), or the catalog of the packages (e.g., catalog?name=us.core)
+   * @returns {Promise<any>} the manifest or catalog
+   */
+  async fetchManifest(registry: string, resource: string, options: RequestOptions): Promise<any> {
+    const url = `${registry.replace(/\/$/, '')}/${resource}`;
+    this.request(url, options);
+    if (resource.startsWith('catalog?')) {
+      return this.getCatalog(new URLSearchParams(resource.slice('catalog?'.length)));
+    }
+    const versions = this.getVersions(resource);
+    if (versions.length === 0) {
+      throw notFoundError();
+    }
+    const manifest: any = {
+      name: versions[0].id,
+      'dist-tags': { latest: getLatestVersion(versions) },
+      versions: {}
+    };
+    versions.forEach(pkg => {
+      manifest.versions[pkg.version] = {
+        name: pkg.id,
+        version: pkg.version,
+        description: pkg.packageJson?.description,
+        fhirVersion: pkg.packageJson?.fhirVersions?.[0],
+        canonical: pkg.packageJson?.canonical,
+        dependencies: pkg.packageJson?.dependencies,
+        dist: {
+          shasum: crypto.createHash('sha1').update(pkg.tarball).digest('hex'),
+          integrity: `sha512-${crypto.createHash('sha512').update(pkg.tarball).digest('base64')}`,
+          tarball: `${registry.replace(/\/$/, '')}/${pkg.id}/${pkg.version}`
+        }
+      };
+    });
+    return manifest;
+  }
+
+  /**
+   * Serves the tarball of a package in the fixture directory, or the tarball whose file name the URL ends with
+   * @returns {Promise<PackageTarball>} the tarball
+   */
+  async fetchTarball(
+    url: string,
+    fhirPackage: string,
+    options: RequestOptions
+  ): Promise<PackageTarball> {
+    this.request(url, options);
+    const pkg = this.packages.get(fhirPackage.toLowerCase()) ?? this.tarballs.get(getFileName(url));
+    if (pkg == null) {
+      throw notFoundError();
+    }
+    return { stream: Readable.from([pkg.tarball]), size: pkg.tarball.length };
+  }
+
+  /**
+   * Serves a build on the build server for each current package in the fixture directory
+   * @returns {Promise<QAEntry[]>} the builds
+   */
+  async fetchQAs(buildServer: string, options: RequestOptions): Promise<QAEntry[]> {
+    this.request(`${buildServer}/qas.json`, options);
+    return Array.from(this.packages.values())
+      .filter(pkg => /^current(\$.+)?$/.test(pkg.version))
+      .map(pkg => ({
+        'package-id': pkg.id,
+        date: formatBuildDate(pkg.packageJson?.date),
+        repo: `${getBuildPath(pkg)}/qa.json`
+      }));
+  }
+
+  /**
+   * Serves the package.manifest.json of a build of a current package in the fixture directory
+   * @returns {Promise<any>} the package manifest
+   */
+  async fetchBuildManifest(igUrl: string, options: RequestOptions): Promise<any> {
+    this.request(`${igUrl}/package.manifest.json`, options);
+    const pkg = Array.from(this.packages.values()).find(
+      pkg => /^current(\$.+)?$/.test(pkg.version) && igUrl.endsWith(`/${getBuildPath(pkg)}`)
+    );
+    if (pkg == null) {
+      throw notFoundError();
+    }
+    return {
+      name: pkg.id,
+      version: pkg.packageJson?.version,
+      date: pkg.packageJson?.date
+    };
+  }
+
+  /**
+   * Records a request, unless the request is cancelled
+   * @param {string} url - The URL of the request
+   * @param {RequestOptions} options - The options of the request
+   * @throws {LoadCancelledError} when the signal in the options is aborted
+   */
+  private request(url: string, options: RequestOptions) {
+    throwIfCancelled(options?.signal);
+    this.requests.push(url);
+  }
+
+  /**
+   * Gets every version of a package in the fixture directory, other than current versions
+   * @param {string} packageId - The id of the package
+   * @returns {FixturePackage[]} the versions of the package
+   */
+  private getVersions(packageId: string): FixturePackage[] {
+    return Array.from(this.packages.values()).filter(
+      pkg =>
+        pkg.id.toLowerCase() === packageId.toLowerCase() && !/^current(\$.+)?$/.test(pkg.version)
+    );
+  }
+
+  /**
+   * Gets the catalog entries of the packages in the fixture directory that match a catalog search
+   * @param {URLSearchParams} query - The search (with name, canonical, and fhirversion parameters)
+   * @returns {any[]} the catalog entries, which describe the latest version of each package
+   */
+  private getCatalog(query: URLSearchParams): any[] {
+    const ids = new Set(Array.from(this.packages.values()).map(pkg => pkg.id));
+    const name = query.get('name')?.toLowerCase();
+    const canonical = query.get('canonical');
+    const fhirVersion = query.get('fhirversion')?.toUpperCase();
+    return Array.from(ids)
+      .sort()
+      .map(id => {
+        const versions = this.getVersions(id);
+        const latest = versions.find(pkg => pkg.version === getLatestVersion(versions));
+        const packageFhirVersion = latest?.packageJson?.fhirVersions?.[0];
+        return {
+          Name: id,
+          Version: latest?.version,
+          Description: latest?.packageJson?.description,
+          FhirVersion: FHIR_RELEASES[packageFhirVersion?.split('.').slice(0, 2).join('.')],
+          Canonical: latest?.packageJson?.canonical
+        };
+      })
+      .filter(
+        entry =>
+          (name == null || entry.Name.toLowerCase().includes(name)) &&
+          (canonical == null || entry.Canonical === canonical) &&
+          (fhirVersion == null || entry.FhirVersion === fhirVersion)
+      );
+  }
+}
+
+/**
+ * Reads the package.json in a package tarball
+ * @param {string} tarballPath - The path to the tarball
+ * @returns {any} the package.json, or undefined if the tarball does not have one
+ */
+function readPackageJson(tarballPath: string): any {
+  const chunks: Buffer[] = [];
+  tar.t({
+    file: tarballPath,
+    sync: true,
+    filter: entryPath => entryPath === 'package/package.json',
+    onentry: (entry: any) => entry.on('data', (chunk: Buffer) => chunks.push(chunk))
+  });
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  } catch {
+    return;
+  }
+}
+
+/**
+ * Gets the file name at the end of the path of a URL (e.g., pkg.tgz for https://example.org/pkg.tgz?v=1)
+ * @param {string} url - The URL
+ * @returns {string} the decoded file name in lower case, or undefined if the URL can't be parsed
+ */
+function getFileName(url: string): string {
+  try {
+    return decodeURIComponent(path.posix.basename(new URL(url).pathname)).toLowerCase();
+  } catch {
+    return;
+  }
+}
+
+/**
+ * Gets the version that a registry would tag as latest: the highest release, or the highest version if every
+ * version is a pre-release
+ * @param {FixturePackage[]} versions - The versions of a package
+ * @returns {string} the latest version
+ */
+function getLatestVersion(versions: FixturePackage[]): string {
+  const semverVersions = versions.map(pkg => pkg.version).filter(version => valid(version));
+  return (
+    maxSatisfying(semverVersions, '*') ??
+    rsort(semverVersions)[0] ??
+    versions[versions.length - 1]?.version
+  );
+}
+
+/**
+ * Gets the path of the build of a current package on the build server (e.g., fixtures/sushi-test/branches/master)
+ * @param {FixturePackage} pkg - The current package
+ * @returns {string} the path of the build
+ */
+function getBuildPath(pkg: FixturePackage): string {
+  const branch = pkg.version.includes('$')
+    ? pkg.version.slice(pkg.version.indexOf('$') + 1)
+    : 'master';
+  return `fixtures/${pkg.id}/branches/${branch}`;
+}
+
+/**
+ * Converts the date of a package (format: YYYYMMDDHHmmss) to the format the build server uses in qas.json
+ * @param {string} date - The date of the package
+ * @returns {string} the date of the build
+ */
+function formatBuildDate(date: string): string {
+  const match = /^(\d{4})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})$/.exec(date ?? '');
+  if (match == null) {
+    return date;
+  }
+  const [, year, month, day, hour, minute, second] = match;
+  return new Date(`${year}-${month}-${day}T${hour}:${minute}:${second}Z`).toUTCString();
+}
+
+/**
+ * Creates an error like the one axios throws for a 404 response
+ * @returns {Error} the error
+ */
+function notFoundError(): Error {
+  return Object.assign(new Error('Request failed with status code 404'), {
+    response: { status: 404 }
+  });
+}
@@ -0,0 +1,78 @@
+import fs from 'fs-extra';
+import { DefinitionReadError } from './errors';
+import { LAZY_SUMMARY_FIELDS, LazySummaryField, PackageIndexEntry } from './utils/packageIndex';
+
+/**
+ * A definition in a package that is only read from its file the first time it is needed. Until then,
+ * only the summary of the definition from the package index is kept in memory.
+ */
+export class LazyDefinition {
+  private definition: any;
+
+  /**
+   * Create a LazyDefinition
+   * @param {PackageIndexEntry} summary - The summary of the definition from the package index
+   * @param {string} filePath - The path to the file containing the definition
+   * @param {string} [packageName] - The name of the package containing the definition (format: packageId#version)
+   */
+  constructor(
+    public readonly summary: PackageIndexEntry,
+    public readonly filePath: string,
+    public readonly packageName?: string
+  ) {}
+
+  /**
+   * Get the definition, reading it from its file if it has not been read yet
+   * @returns the definition
+   * @throws {DefinitionReadError} when the file can no longer be read, e.g. because the package was removed
+   */
+  getDefinition(): any {
+    if (this.definition == null) {
+      this.definition = this.readDefinition();
+    }
+    return this.definition;
+  }
+
+  /**
+   * Whether the summary records a field. The name, derivation, and baseDefinition are not recorded when the
+   * summary comes from the package's standard .index.json.
+   * @param {LazySummaryField} field - The field
+   * @returns {boolean} true if the field is known without reading the file
+   */
+  hasSummaryField(field: LazySummaryField): boolean {
+    return field in this.summary;
+  }
+
+  /**
+   * Get a field of the summary that the package index may not record, reading it from the file if it is not
+   * known yet. The fields that are read are kept in the summary, but the rest of the definition is not.
+   * @param {LazySummaryField} field - The field
+   * @returns {string} the value of the field
+   * @throws {DefinitionReadError} when the file can no longer be read, e.g. because the package was removed
+   */
+  getSummaryField(field: LazySummaryField): string {
+    if (!this.hasSummaryField(field)) {
+      const definition = this.definition ?? this.readDefinition();
+      LAZY_SUMMARY_FIELDS.filter(f => !this.hasSummaryField(f)).forEach(
+        f => (this.summary[f] = definition[f])
+      );
+    }
+    return this.summary[field];
+  }
+
+  /**
+   * Whether the definition has been read from its file
+   * @returns {boolean} true if the definition has been read
+   */
+  isLoaded(): boolean {
+    return this.definition != null;
+  }
+
+  private readDefinition(): any {
+    try {
+      return JSON.parse(fs.readFileSync(this.filePath, 'utf-8').trim());
+    } catch (e) {
+      throw new DefinitionReadError(this.packageName ?? 'unknown', this.filePath, e.message);
+    }
+  }
+}
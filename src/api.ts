@@ -1,6 +1,7 @@
 import { FHIRDefinitions } from './FHIRDefinitions';
 import { ErrorsAndWarnings, LogFunction, wrapLogger } from './utils';
-import { loadDependencies } from './load';
+import { loadDependencies, LoadOptions } from './load';
+import { isLocalPackageSpec, PackageConflict } from './dependencies';
 export { lookUpLatestVersion as getLatestVersion } from './load';
 
 export async function fpl(
@@ -11,29 +12,36 @@ export async function fpl(
   errors: ErrorsAndWarnings['errors'];
   warnings: ErrorsAndWarnings['warnings'];
   failedPackages: string[];
+  conflicts: PackageConflict[];
+  registries: { [fullPackageName: string]: string };
 }> {
   // Track errors and warnings
   const errorsAndWarnings = new ErrorsAndWarnings();
-  const logWithTrack = wrapLogger(options.log, errorsAndWarnings);
+  const { log, cachePath, ...loadOptions } = options;
+  const logWithTrack = wrapLogger(log, errorsAndWarnings);
 
   // Create list of packages
   if (!Array.isArray(fhirPackages)) {
     fhirPackages = fhirPackages.split(',').map(p => p.trim());
   }
-  fhirPackages = fhirPackages.map(dep => dep.replace('@', '#'));
-  const defs = await loadDependencies(fhirPackages, options.cachePath, logWithTrack);
+  fhirPackages = fhirPackages.map(dep => (isLocalPackageSpec(dep) ? dep : dep.replace('@', '#')));
+  const defs = await loadDependencies(fhirPackages, cachePath, logWithTrack, loadOptions);
 
   const failedPackages = defs.allUnsuccessfulPackageLoads();
+  const conflicts = defs.packageConflicts;
+  const registries = defs.packageRegistries;
 
   return {
     defs,
     errors: errorsAndWarnings.errors,
     warnings: errorsAndWarnings.warnings,
-    failedPackages
+    failedPackages,
+    conflicts,
+    registries
   };
 }
 
-type packageLoadOptions = {
+type packageLoadOptions = LoadOptions & {
   log?: LogFunction;
   cachePath?: string;
 };
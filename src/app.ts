@@ -1,10 +1,31 @@
 #!/usr/bin/env node
 
-import { program, OptionValues } from 'commander';
+import { InvalidArgumentError, program, OptionValues } from 'commander';
 import path from 'path';
 import fs from 'fs-extra';
-import { loadDependencies } from './load';
+import {
+  CachedPackage,
+  DEFAULT_UNUSED_BRANCH_DAYS,
+  listCachedPackages,
+  pruneCache,
+  removeCachedPackages
+} from './cache';
+import {
+  DEFAULT_SEARCH_LIMIT,
+  getPackageInfo,
+  loadDependencies,
+  PackageInfo,
+  PackageSearchResult,
+  searchPackages
+} from './load';
+import { isLocalPackageSpec } from './dependencies';
+import { DEFAULT_LOCKFILE } from './lockfile';
+import { findOutdatedPackages, UPDATE_POLICIES, updatePackages } from './outdated';
+import { formatDependencyGraph, formatDependencyTree, getDependencyTree } from './tree';
 import { logger } from './utils';
+import { DEFAULT_RETRIES } from './utils/axiosUtils';
+import { formatBytes, formatDate, formatTable } from './utils/format';
+import { ProgressBars } from './utils/progressBars';
 
 function getVersion(): string {
   const packageJSONPath = path.join(__dirname, '..', 'package.json');
@@ -15,24 +36,360 @@ function getVersion(): string {
   return 'unknown';
 }
 
+function parseNonNegativeInteger(value: string): number {
+  if (!/^\d+$/.test(value)) {
+    throw new InvalidArgumentError('Not a non-negative integer.');
+  }
+  return parseInt(value);
+}
+
 function getHelpText(): string {
   return `
 Examples:
   fpl install hl7.fhir.us.core@current
-  fpl install hl7.fhir.us.core@4.0.0 hl7.fhir.us.mcode@2.0.0 --cachePath ./myProject`;
+  fpl install hl7.fhir.us.core@4.0.0 hl7.fhir.us.mcode@2.0.0 --cachePath ./myProject
+  fpl install hl7.fhir.us.core@latest --lockfile
+  fpl install hl7.fhir.us.core@latest --frozen-lockfile
+  fpl install file:../my-ig/output/package.tgz --cache-local
+  fpl install my.partner.ig@https://example.org/pkg.tgz
+  fpl install hl7.fhir.us.core@6.1.0 --max-parallel-downloads 2 --timeout 30000 --retries 5
+  fpl install hl7.fhir.us.core@6.1.0 --ca-file ./corporate-ca.pem
+  fpl list 'hl7.fhir.us.*' --json
+  fpl tree hl7.fhir.us.core@6.1.0 --format dot > us-core.dot
+  fpl info hl7.fhir.us.core
+  fpl search us.core --fhir-version R4
+  fpl outdated hl7.fhir.us.core@3.1.0 hl7.fhir.us.mcode@2.0.0
+  fpl update --policy patch
+  fpl remove hl7.fhir.us.core@3.1.0 'hl7.fhir.us.core@current$my-branch'
+  fpl prune --keep-latest-patch --unused-branches 14 --dry-run
+  fpl prune --not-in fpl-lock.json ../other-project/package.json`;
 }
 
 async function install(fhirPackages: string[], options: OptionValues) {
   if (options.debug) logger.level = 'debug';
 
-  const packages = fhirPackages.map(dep => dep.replace('@', '#'));
+  const packages = fhirPackages.map(dep => (isLocalPackageSpec(dep) ? dep : dep.replace('@', '#')));
   const cachePath = options.cachePath;
 
+  // Progress bars are only shown in a terminal, where they can be redrawn as packages load
+  const progressBars =
+    options.progress && process.stderr.isTTY ? new ProgressBars(process.stderr) : null;
+
   const logMessage = (level: string, message: string) => {
+    progressBars?.clear();
     logger.log(level, message);
+    progressBars?.render();
   };
 
-  await loadDependencies(packages, cachePath, logMessage);
+  // A frozen lockfile implies the default lockfile if no lockfile is specified
+  let lockfile = options.lockfile === true ? DEFAULT_LOCKFILE : options.lockfile;
+  if (options.frozenLockfile && lockfile == null) {
+    lockfile = DEFAULT_LOCKFILE;
+  }
+
+  const defs = await loadDependencies(packages, cachePath, logMessage, {
+    lockfile,
+    frozenLockfile: options.frozenLockfile,
+    cacheLocalPackages: options.cacheLocal,
+    verifyCache: options.verifyCache,
+    maxParallelDownloads: options.maxParallelDownloads,
+    timeout: options.timeout,
+    retries: options.retries,
+    caFile: options.caFile,
+    refresh: options.refresh,
+    offline: options.offline,
+    onProgress: progressBars ? event => progressBars.update(event) : undefined
+  });
+  if (options.frozenLockfile && defs.allUnsuccessfulPackageLoads().length > 0) {
+    process.exitCode = 1;
+  }
+}
+
+function list(pattern: string, options: OptionValues) {
+  const cachedPackages = listCachedPackages(options.cachePath, { filter: pattern });
+  if (options.json) {
+    console.log(JSON.stringify(cachedPackages, null, 2));
+    return;
+  }
+  if (cachedPackages.length === 0) {
+    console.log(pattern ? `No cached packages match ${pattern}.` : 'The cache is empty.');
+    return;
+  }
+  const rows = cachedPackages.map(cachedPackage => [
+    cachedPackage.id,
+    cachedPackage.version,
+    cachedPackage.fhirVersions?.join(', ') ?? '',
+    cachedPackage.type ?? '',
+    formatBytes(cachedPackage.size),
+    // When the package was installed, or when it was built if FPL did not install it
+    formatDate(cachedPackage.installed ?? cachedPackage.date),
+    cachedPackage.problems.length > 0 ? 'malformed' : ''
+  ]);
+  console.log(
+    formatTable(['Package', 'Version', 'FHIR Version', 'Type', 'Size', 'Date', 'Status'], rows)
+  );
+  const malformedPackages = cachedPackages.filter(cachedPackage => cachedPackage.problems.length);
+  if (malformedPackages.length > 0) {
+    console.log('\nMalformed cache entries:');
+    malformedPackages.forEach(cachedPackage => {
+      console.log(`  ${cachedPackage.package}: ${cachedPackage.problems.join('; ')}`);
+    });
+  }
+}
+
+const TREE_FORMATS = ['text', 'json', 'dot'];
+
+function parseTreeFormat(value: string): string {
+  if (!TREE_FORMATS.includes(value)) {
+    throw new InvalidArgumentError(`Must be one of ${TREE_FORMATS.join(', ')}.`);
+  }
+  return value;
+}
+
+function tree(fhirPackages: string[], options: OptionValues) {
+  if (options.debug) logger.level = 'debug';
+
+  const packages = fhirPackages.map(dep => dep.replace('@', '#'));
+  const dependencyTree = getDependencyTree(packages, options.cachePath);
+  if (options.format === 'json') {
+    console.log(JSON.stringify(dependencyTree, null, 2));
+    return;
+  }
+  if (options.format === 'dot') {
+    console.log(formatDependencyGraph(dependencyTree));
+    return;
+  }
+  console.log(formatDependencyTree(dependencyTree));
+  dependencyTree.conflicts.forEach(c => {
+    const requests = c.requests.map(
+      r => `${r.version} (${r.requestedBy ? `required by ${r.requestedBy}` : 'requested directly'})`
+    );
+    logger.warn(`Multiple versions of ${c.packageId} were requested: ${requests.join(', ')}.`);
+  });
+}
+
+async function info(fhirPackage: string, options: OptionValues) {
+  if (options.debug) logger.level = 'debug';
+
+  const logMessage = (level: string, message: string) => logger.log(level, message);
+  // The information covers every version, so a version in the request is ignored
+  const packageName = fhirPackage.split(/[@#]/)[0];
+  let packageInfo: PackageInfo;
+  try {
+    packageInfo = await getPackageInfo(packageName, options.cachePath, logMessage, {
+      timeout: options.timeout,
+      retries: options.retries,
+      caFile: options.caFile
+    });
+  } catch (e) {
+    logger.error(e.message);
+    process.exitCode = 1;
+    return;
+  }
+  if (options.json) {
+    console.log(JSON.stringify(packageInfo, null, 2));
+    return;
+  }
+  const lines = [packageInfo.name];
+  if (packageInfo.description) {
+    lines.push(packageInfo.description);
+  }
+  lines.push('');
+  if (packageInfo.canonical) {
+    lines.push(`Canonical: ${packageInfo.canonical}`);
+  }
+  const distTags = Object.entries(packageInfo.distTags);
+  if (distTags.length > 0) {
+    lines.push(`Dist-tags: ${distTags.map(([tag, version]) => `${tag}: ${version}`).join(', ')}`);
+  }
+  // The dependencies of the latest version are shown, since they are what a new dependency would bring in
+  const latest =
+    packageInfo.versions.find(v => v.version === packageInfo.distTags.latest) ??
+    packageInfo.versions[0];
+  if (latest?.dependencies) {
+    const dependencies = Object.entries(latest.dependencies).map(
+      ([id, version]) => `${id}#${version}`
+    );
+    lines.push(`Dependencies of ${latest.version}: ${dependencies.join(', ') || 'none'}`);
+  }
+  lines.push('');
+  const rows = packageInfo.versions.map(v => [
+    v.version,
+    formatDate(v.date),
+    v.fhirVersions?.join(', ') ?? '',
+    v.cached ? 'yes' : ''
+  ]);
+  lines.push(formatTable(['Version', 'Date', 'FHIR Version', 'Cached'], rows));
+  console.log(lines.join('\n'));
+}
+
+async function search(term: string, options: OptionValues) {
+  if (options.debug) logger.level = 'debug';
+
+  if (!term && !options.canonical && !options.fhirVersion) {
+    logger.error('Specify a search term, --canonical, or --fhir-version to search for packages.');
+    process.exitCode = 1;
+    return;
+  }
+  const logMessage = (level: string, message: string) => logger.log(level, message);
+  let results: PackageSearchResult[];
+  try {
+    results = await searchPackages(term, logMessage, {
+      canonical: options.canonical,
+      fhirVersion: options.fhirVersion,
+      limit: options.limit,
+      timeout: options.timeout,
+      retries: options.retries,
+      caFile: options.caFile
+    });
+  } catch (e) {
+    logger.error(e.message);
+    process.exitCode = 1;
+    return;
+  }
+  if (options.json) {
+    console.log(JSON.stringify(results, null, 2));
+    return;
+  }
+  if (results.length === 0) {
+    console.log('No packages were found.');
+    return;
+  }
+  const rows = results.map(result => [
+    result.id,
+    result.version ?? '',
+    result.fhirVersion ?? '',
+    result.description ?? ''
+  ]);
+  console.log(formatTable(['Package', 'Latest Version', 'FHIR Version', 'Description'], rows));
+}
+
+function parseUpdatePolicy(value: string): string {
+  if (!(UPDATE_POLICIES as string[]).includes(value)) {
+    throw new InvalidArgumentError(`Must be one of ${UPDATE_POLICIES.join(', ')}.`);
+  }
+  return value;
+}
+
+async function outdated(fhirPackages: string[], options: OptionValues) {
+  if (options.debug) logger.level = 'debug';
+
+  const packages = fhirPackages.map(dep => dep.replace('@', '#'));
+  const logMessage = (level: string, message: string) => logger.log(level, message);
+  const outdatedPackages = await findOutdatedPackages(packages, options.cachePath, logMessage, {
+    timeout: options.timeout,
+    retries: options.retries,
+    caFile: options.caFile
+  });
+  if (options.json) {
+    console.log(JSON.stringify(outdatedPackages, null, 2));
+    return;
+  }
+  if (outdatedPackages.length === 0) {
+    console.log('All packages are up to date.');
+    return;
+  }
+  const rows = outdatedPackages.map(p => [
+    p.id,
+    p.current,
+    p.patch ?? '',
+    p.minor ?? '',
+    p.latest ?? ''
+  ]);
+  console.log(formatTable(['Package', 'Current', 'Patch', 'Minor', 'Latest'], rows));
+}
+
+async function update(fhirPackages: string[], options: OptionValues) {
+  if (options.debug) logger.level = 'debug';
+
+  const packages = fhirPackages.map(dep => dep.replace('@', '#'));
+  const logMessage = (level: string, message: string) => logger.log(level, message);
+  const updates = await updatePackages(packages, options.cachePath, logMessage, {
+    policy: options.policy,
+    dryRun: options.dryRun,
+    timeout: options.timeout,
+    retries: options.retries,
+    caFile: options.caFile,
+    maxParallelDownloads: options.maxParallelDownloads
+  });
+  if (updates.length === 0) {
+    return;
+  }
+  const rows = updates.map(u => [
+    u.id,
+    u.from,
+    u.to,
+    options.dryRun ? 'not installed (dry run)' : u.installed ? 'installed' : 'failed'
+  ]);
+  console.log(formatTable(['Package', 'From', 'To', 'Status'], rows));
+  if (updates.some(u => !u.installed) && !options.dryRun) {
+    process.exitCode = 1;
+  }
+}
+
+function logRemovedPackages(removedPackages: CachedPackage[], dryRun: boolean) {
+  if (removedPackages.length === 0) {
+    return;
+  }
+  const size = formatBytes(removedPackages.reduce((total, p) => total + p.size, 0));
+  const count = `${removedPackages.length} package${removedPackages.length === 1 ? '' : 's'}`;
+  logger.info(dryRun ? `Would remove ${count} (${size}).` : `Removed ${count} (${size}).`);
+}
+
+async function remove(fhirPackages: string[], options: OptionValues) {
+  if (options.debug) logger.level = 'debug';
+
+  const packages = fhirPackages.map(dep => dep.replace('@', '#'));
+  const invalidPackages = packages.filter(p => !/^[^#]+#[^#]+$/.test(p));
+  if (invalidPackages.length > 0) {
+    logger.error(
+      `Specify the version of each package to remove using the format packageId@packageVersion: ${invalidPackages.join(
+        ', '
+      )}`
+    );
+    process.exitCode = 1;
+    return;
+  }
+  const logMessage = (level: string, message: string) => logger.log(level, message);
+  const removedPackages = await removeCachedPackages(
+    packages,
+    options.cachePath,
+    { dryRun: options.dryRun },
+    logMessage
+  );
+  logRemovedPackages(removedPackages, options.dryRun);
+}
+
+async function prune(options: OptionValues) {
+  if (options.debug) logger.level = 'debug';
+
+  if (
+    options.olderThan == null &&
+    !options.keepLatestPatch &&
+    options.unusedBranches == null &&
+    options.notIn == null
+  ) {
+    logger.error(
+      'Specify at least one of --older-than, --keep-latest-patch, --unused-branches, or --not-in to choose the packages to prune.'
+    );
+    process.exitCode = 1;
+    return;
+  }
+  const logMessage = (level: string, message: string) => logger.log(level, message);
+  const removedPackages = await pruneCache(
+    options.cachePath,
+    {
+      olderThan: options.olderThan,
+      keepLatestPatch: options.keepLatestPatch,
+      // A flag without a number of days uses the default
+      unusedBranches:
+        options.unusedBranches === true ? DEFAULT_UNUSED_BRANCH_DAYS : options.unusedBranches,
+      notIn: options.notIn,
+      dryRun: options.dryRun
+    },
+    logMessage
+  );
+  logRemovedPackages(removedPackages, options.dryRun);
 }
 
 async function app() {
@@ -54,10 +411,262 @@ async function app() {
       '-c, --cachePath <dir>',
       'where to save packages to and load definitions from (default is the local FHIR cache)'
     )
+    .option(
+      '-l, --lockfile [file]',
+      `write the exact version loaded for each package to a lockfile (default file is ${DEFAULT_LOCKFILE})`
+    )
+    .option(
+      '--frozen-lockfile',
+      'load exactly the packages in the lockfile and fail if any package does not match it'
+    )
+    .option('--cache-local', 'copy packages loaded from a local file: path into the cache')
+    .option(
+      '--verify-cache',
+      'check that cached packages have not changed since they were downloaded'
+    )
+    .option(
+      '--max-parallel-downloads <number>',
+      'the maximum number of packages to download at the same time (default is no limit)',
+      parseNonNegativeInteger
+    )
+    .option(
+      '--timeout <ms>',
+      'the number of milliseconds to wait for a response from a server (default is no timeout)',
+      parseNonNegativeInteger
+    )
+    .option(
+      '--retries <number>',
+      `the number of times to retry a request that fails with a temporary error (default is ${DEFAULT_RETRIES})`,
+      parseNonNegativeInteger
+    )
+    .option(
+      '--ca-file <file>',
+      'a PEM file of certificate authorities to trust in addition to the default ones'
+    )
+    .option(
+      '--refresh',
+      'check for newer builds of current packages, even if they were checked in the last day'
+    )
+    .option(
+      '--offline',
+      'only load packages that are already in the cache and never download anything'
+    )
+    .option('--no-progress', 'do not show a progress bar for each package')
     .option('-d, --debug', 'output extra debugging information')
     .action(install);
 
+  program
+    .command('list')
+    .description('list the packages in the FHIR cache')
+    .usage('[pattern] [options]')
+    .argument(
+      '[pattern]',
+      'only list packages with ids that match this pattern (e.g., hl7.fhir.us.*)'
+    )
+    .option(
+      '-c, --cachePath <dir>',
+      'the directory of cached packages to list (default is the local FHIR cache)'
+    )
+    .option('--json', 'output the packages as JSON instead of a table')
+    .action(list);
+
+  program
+    .command('tree')
+    .description('show the tree of dependencies of FHIR packages in the FHIR cache')
+    .usage('<fhirPackages...> [options]')
+    .argument(
+      '<fhirPackages...>',
+      'list of FHIR packages at the roots of the tree using the format packageId@packageVersion...'
+    )
+    .option(
+      '-c, --cachePath <dir>',
+      'the directory of cached packages to read (default is the local FHIR cache)'
+    )
+    .option(
+      '--format <format>',
+      `the output format: ${TREE_FORMATS.join(', ')} (default is text)`,
+      parseTreeFormat
+    )
+    .option('-d, --debug', 'output extra debugging information')
+    .action(tree);
+
+  program
+    .command('info')
+    .description('show the information about a FHIR package in the FHIR package registry')
+    .usage('<fhirPackage> [options]')
+    .argument('<fhirPackage>', 'the id of the FHIR package (e.g., hl7.fhir.us.core)')
+    .option(
+      '-c, --cachePath <dir>',
+      'the directory to check for cached versions of the package (default is the local FHIR cache)'
+    )
+    .option('--json', 'output the information as JSON')
+    .option(
+      '--timeout <ms>',
+      'the number of milliseconds to wait for a response from a server (default is no timeout)',
+      parseNonNegativeInteger
+    )
+    .option(
+      '--retries <number>',
+      `the number of times to retry a request that fails with a temporary error (default is ${DEFAULT_RETRIES})`,
+      parseNonNegativeInteger
+    )
+    .option(
+      '--ca-file <file>',
+      'a PEM file of certificate authorities to trust in addition to the default ones'
+    )
+    .option('-d, --debug', 'output extra debugging information')
+    .action(info);
+
+  program
+    .command('search')
+    .description('search the catalog of the FHIR package registry for FHIR packages')
+    .usage('[term] [options]')
+    .argument('[term]', 'the text to find in the package ids (e.g., us.core)')
+    .option('--canonical <url>', 'only find packages with this canonical URL')
+    .option('--fhir-version <version>', 'only find packages for this FHIR version (e.g., R4)')
+    .option(
+      '--limit <number>',
+      `the maximum number of packages to show, or 0 for no limit (default is ${DEFAULT_SEARCH_LIMIT})`,
+      parseNonNegativeInteger
+    )
+    .option('--json', 'output the packages as JSON instead of a table')
+    .option(
+      '--timeout <ms>',
+      'the number of milliseconds to wait for a response from a server (default is no timeout)',
+      parseNonNegativeInteger
+    )
+    .option(
+      '--retries <number>',
+      `the number of times to retry a request that fails with a temporary error (default is ${DEFAULT_RETRIES})`,
+      parseNonNegativeInteger
+    )
+    .option(
+      '--ca-file <file>',
+      'a PEM file of certificate authorities to trust in addition to the default ones'
+    )
+    .option('-d, --debug', 'output extra debugging information')
+    .action(search);
+
+  program
+    .command('outdated')
+    .description('check FHIR packages for newer releases in the FHIR package registry')
+    .usage('[fhirPackages...] [options]')
+    .argument(
+      '[fhirPackages...]',
+      'list of FHIR packages to check using the format packageId@packageVersion... (default is the newest version of each package in the FHIR cache)'
+    )
+    .option(
+      '-c, --cachePath <dir>',
+      'the directory of cached packages to check (default is the local FHIR cache)'
+    )
+    .option('--json', 'output the packages as JSON instead of a table')
+    .option(
+      '--timeout <ms>',
+      'the number of milliseconds to wait for a response from a server (default is no timeout)',
+      parseNonNegativeInteger
+    )
+    .option(
+      '--retries <number>',
+      `the number of times to retry a request that fails with a temporary error (default is ${DEFAULT_RETRIES})`,
+      parseNonNegativeInteger
+    )
+    .option(
+      '--ca-file <file>',
+      'a PEM file of certificate authorities to trust in addition to the default ones'
+    )
+    .option('-d, --debug', 'output extra debugging information')
+    .action(outdated);
+
+  program
+    .command('update')
+    .description('install the newest releases of FHIR packages allowed by an update policy')
+    .usage('[fhirPackages...] [options]')
+    .argument(
+      '[fhirPackages...]',
+      'list of FHIR packages to update using the format packageId@packageVersion... (default is the newest version of each package in the FHIR cache)'
+    )
+    .option(
+      '-c, --cachePath <dir>',
+      'where to save the new versions of packages to (default is the local FHIR cache)'
+    )
+    .option(
+      '--policy <policy>',
+      `the newest kind of release to update to: ${UPDATE_POLICIES.join(', ')} (default is minor)`,
+      parseUpdatePolicy
+    )
+    .option('--dry-run', 'list the updates that would be made without installing anything')
+    .option(
+      '--max-parallel-downloads <number>',
+      'the maximum number of packages to download at the same time (default is no limit)',
+      parseNonNegativeInteger
+    )
+    .option(
+      '--timeout <ms>',
+      'the number of milliseconds to wait for a response from a server (default is no timeout)',
+      parseNonNegativeInteger
+    )
+    .option(
+      '--retries <number>',
+      `the number of times to retry a request that fails with a temporary error (default is ${DEFAULT_RETRIES})`,
+      parseNonNegativeInteger
+    )
+    .option(
+      '--ca-file <file>',
+      'a PEM file of certificate authorities to trust in addition to the default ones'
+    )
+    .option('-d, --debug', 'output extra debugging information')
+    .action(update);
+
+  program
+    .command('remove')
+    .description('remove specified FHIR packages from the FHIR cache')
+    .usage('<fhirPackages...> [options]')
+    .argument(
+      '<fhirPackages...>',
+      'list of FHIR packages to remove using the format packageId@packageVersion...'
+    )
+    .option(
+      '-c, --cachePath <dir>',
+      'the directory to remove packages from (default is the local FHIR cache)'
+    )
+    .option('--dry-run', 'list the packages that would be removed without removing them')
+    .option('-d, --debug', 'output extra debugging information')
+    .action(remove);
+
+  program
+    .command('prune')
+    .description('remove FHIR packages from the FHIR cache that match any of the given policies')
+    .usage('[options]')
+    .option(
+      '-c, --cachePath <dir>',
+      'the directory to remove packages from (default is the local FHIR cache)'
+    )
+    .option(
+      '--older-than <days>',
+      'remove packages that were installed more than this many days ago',
+      parseNonNegativeInteger
+    )
+    .option(
+      '--keep-latest-patch',
+      'remove all but the newest patch version of each minor version of a package'
+    )
+    .option(
+      '--unused-branches [days]',
+      `remove current$branch builds that have not been loaded in this many days (default is ${DEFAULT_UNUSED_BRANCH_DAYS})`,
+      parseNonNegativeInteger
+    )
+    .option(
+      '--not-in <files...>',
+      'remove packages that are not listed in any of these lockfiles or project package.json files'
+    )
+    .option('--dry-run', 'list the packages that would be removed without removing them')
+    .option('-d, --debug', 'output extra debugging information')
+    .action(prune);
+
   await program.parseAsync(process.argv);
 }
 
-app();
+app().catch(e => {
+  logger.error(e.message);
+  process.exitCode = 1;
+});
@@ -0,0 +1,374 @@
+import fs from 'fs-extra';
+import { flatMap } from 'lodash';
+import os from 'os';
+import path from 'path';
+import { maxSatisfying, rcompare, valid } from 'semver';
+import { isLocalPackageSpec, isVersionRange } from './dependencies';
+import { clearLoadedPackage } from './load';
+import { readLockfile } from './lockfile';
+import { CacheLockOptions, withCacheLock } from './utils/cacheLock';
+import { formatBytes } from './utils/format';
+import { LogFunction } from './utils/logger';
+import { readPackageMetadata } from './utils/packageMetadata';
+import { patternToRegExp } from './utils/patterns';
+
+/** A package in the FHIR cache, as described by its package.json */
+export type CachedPackage = {
+  // The name of the package's directory in the cache (format: packageId#version)
+  package: string;
+  id: string;
+  version: string;
+  // The FHIR versions the package is for (e.g., ["4.0.1"])
+  fhirVersions?: string[];
+  // The type of package (e.g., fhir.ig or Core)
+  type?: string;
+  // The number of bytes the package takes up on disk
+  size: number;
+  // The date and time (ISO 8601) the package was installed in the cache, if it was installed by FPL
+  installed?: string;
+  // The registry the package was downloaded from, if it was downloaded from a registry by FPL
+  registry?: string;
+  // The build date (YYYYMMDDHHmmss) from the package.json
+  date?: string;
+  // Why the cache entry is malformed, or an empty array if it is a valid package
+  problems: string[];
+};
+
+export type ListCachedPackagesOptions = {
+  // Only list packages whose id matches this pattern, where * matches any characters (e.g., hl7.fhir.us.*)
+  filter?: string;
+};
+
+/**
+ * Lists the packages in the FHIR cache, reading the details of each package from its package.json. Cache
+ * entries that are not valid packages (e.g., a directory without a "package" folder) are included, along
+ * with the problems that were found with them.
+ * @param {string} [cachePath=path.join(os.homedir(), '.fhir', 'packages')] - The path to the directory containing cached packages
+ * @param {ListCachedPackagesOptions} [options={}] - Options that control which packages are listed
+ * @returns {CachedPackage[]} the cached packages, sorted by id and then by version
+ */
+export function listCachedPackages(
+  cachePath: string = path.join(os.homedir(), '.fhir', 'packages'),
+  options: ListCachedPackagesOptions = {}
+): CachedPackage[] {
+  if (!fs.existsSync(cachePath)) {
+    return [];
+  }
+  const filter = options.filter ? patternToRegExp(options.filter) : null;
+  return (
+    fs
+      .readdirSync(cachePath, { withFileTypes: true })
+      // Lock files and temporary directories are not packages
+      .filter(entry => entry.isDirectory() && !entry.name.startsWith('.'))
+      .map(entry => readCachedPackage(cachePath, entry.name))
+      .filter(cachedPackage => filter == null || filter.test(cachedPackage.id))
+      .sort(
+        (a, b) =>
+          a.id.localeCompare(b.id) || a.version.localeCompare(b.version, 'en', { numeric: true })
+      )
+  );
+}
+
+export type RemoveCachedPackagesOptions = CacheLockOptions & {
+  // Report the packages that would be removed without removing them
+  dryRun?: boolean;
+};
+
+export type PruneCacheOptions = RemoveCachedPackagesOptions & {
+  // Remove packages that were installed more than this many days ago
+  olderThan?: number;
+  // Remove every version of a package except the newest patch version of each minor version
+  keepLatestPatch?: boolean;
+  // Remove current$branch builds that have not been loaded in this many days
+  unusedBranches?: number;
+  // Remove packages that are not listed in any of these lockfiles or project package.json files
+  notIn?: string[];
+};
+
+// The number of days a current$branch build can go unused before the CLI prunes it
+export const DEFAULT_UNUSED_BRANCH_DAYS = 30;
+const DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Removes packages from the FHIR cache. Each package is locked while it is removed, so a package that another
+ * process is installing is not removed part way through. The removed packages are also forgotten by this
+ * process, so they are not loaded from memory after they have been removed.
+ * @param {string[]} fullPackageNames - The packages to remove (format: packageId#version)
+ * @param {string} [cachePath=path.join(os.homedir(), '.fhir', 'packages')] - The path to the directory containing cached packages
+ * @param {RemoveCachedPackagesOptions} [options={}] - Whether to only report what would be removed, and how long to wait for locks
+ * @param {LogFunction} [log=() => {}] - A function for logging
+ * @returns {Promise<CachedPackage[]>} the packages that were removed (or would be removed, in a dry run)
+ */
+export async function removeCachedPackages(
+  fullPackageNames: string[],
+  cachePath: string = path.join(os.homedir(), '.fhir', 'packages'),
+  options: RemoveCachedPackagesOptions = {},
+  log: LogFunction = () => {}
+): Promise<CachedPackage[]> {
+  const cachedPackages = listCachedPackages(cachePath);
+  const packagesToRemove: CachedPackage[] = [];
+  fullPackageNames.forEach(fullPackageName => {
+    const cachedPackage = cachedPackages.find(
+      p => p.package.toLowerCase() === fullPackageName.toLowerCase()
+    );
+    if (cachedPackage == null) {
+      log('warn', `${fullPackageName} is not in ${cachePath}.`);
+    } else if (!packagesToRemove.includes(cachedPackage)) {
+      packagesToRemove.push(cachedPackage);
+    }
+  });
+  for (const cachedPackage of packagesToRemove) {
+    const size = formatBytes(cachedPackage.size);
+    if (options.dryRun) {
+      log('info', `Would remove ${cachedPackage.package} (${size}) from ${cachePath}.`);
+      continue;
+    }
+    await withCacheLock(
+      cachePath,
+      cachedPackage.package,
+      async () => fs.removeSync(path.join(cachePath, cachedPackage.package)),
+      options,
+      log
+    );
+    clearLoadedPackage(cachedPackage.package);
+    log('info', `Removed ${cachedPackage.package} (${size}) from ${cachePath}.`);
+  }
+  return packagesToRemove;
+}
+
+/**
+ * Removes the packages in the FHIR cache that match any of the given policies (e.g., packages that are older
+ * than a number of days). Packages are removed as they are by removeCachedPackages. If no policies are given,
+ * no packages are removed.
+ * @param {string} [cachePath=path.join(os.homedir(), '.fhir', 'packages')] - The path to the directory containing cached packages
+ * @param {PruneCacheOptions} [options={}] - The policies that select the packages to remove, and the options for removing them
+ * @param {LogFunction} [log=() => {}] - A function for logging
+ * @returns {Promise<CachedPackage[]>} the packages that were removed (or would be removed, in a dry run)
+ * @throws when a lockfile or project package.json in the notIn option can't be read
+ */
+export async function pruneCache(
+  cachePath: string = path.join(os.homedir(), '.fhir', 'packages'),
+  options: PruneCacheOptions = {},
+  log: LogFunction = () => {}
+): Promise<CachedPackage[]> {
+  const cachedPackages = listCachedPackages(cachePath);
+  const now = Date.now();
+  const packagesToRemove = new Set<CachedPackage>();
+  if (options.olderThan != null) {
+    cachedPackages
+      .filter(p => now - getInstalledTime(cachePath, p) > options.olderThan * DAY)
+      .forEach(p => packagesToRemove.add(p));
+  }
+  if (options.keepLatestPatch) {
+    getSupersededPatches(cachedPackages).forEach(p => packagesToRemove.add(p));
+  }
+  if (options.unusedBranches != null) {
+    cachedPackages
+      .filter(
+        p =>
+          /^current\$.+$/.test(p.version) &&
+          now - getLastLoadedTime(cachePath, p) > options.unusedBranches * DAY
+      )
+      .forEach(p => packagesToRemove.add(p));
+  }
+  if (options.notIn?.length > 0) {
+    const listedPackages = flatMap(options.notIn, readListedPackages);
+    cachedPackages
+      .filter(p => !isListed(p, listedPackages, cachedPackages))
+      .forEach(p => packagesToRemove.add(p));
+  }
+  if (packagesToRemove.size === 0) {
+    log('info', `There are no packages to prune from ${cachePath}.`);
+    return [];
+  }
+  return removeCachedPackages(
+    cachedPackages.filter(p => packagesToRemove.has(p)).map(p => p.package),
+    cachePath,
+    options,
+    log
+  );
+}
+
+/**
+ * Gets when a package was installed in the cache. Packages that were not installed by FPL use the time their
+ * directory was last modified instead.
+ * @param {string} cachePath - The path to the directory containing cached packages
+ * @param {CachedPackage} cachedPackage - The package
+ * @returns {number} the time the package was installed, in milliseconds since the epoch
+ */
+function getInstalledTime(cachePath: string, cachedPackage: CachedPackage): number {
+  if (cachedPackage.installed) {
+    return Date.parse(cachedPackage.installed);
+  }
+  return fs.statSync(path.join(cachePath, cachedPackage.package)).mtimeMs;
+}
+
+/**
+ * Gets when a current package was last loaded. A cached current package is checked for a newer build when it
+ * is loaded (at most once a day), so the last check shows when it was last used.
+ * @param {string} cachePath - The path to the directory containing cached packages
+ * @param {CachedPackage} cachedPackage - The package
+ * @returns {number} the time the package was last loaded, in milliseconds since the epoch
+ */
+function getLastLoadedTime(cachePath: string, cachedPackage: CachedPackage): number {
+  const { checked } = readPackageMetadata(path.join(cachePath, cachedPackage.package));
+  return Math.max(checked ? Date.parse(checked) : 0, getInstalledTime(cachePath, cachedPackage));
+}
+
+/**
+ * Finds the packages that have a newer patch version of the same minor version in the cache
+ * @param {CachedPackage[]} cachedPackages - The packages in the cache
+ * @returns {CachedPackage[]} the packages that have been superseded by a newer patch version
+ */
+function getSupersededPatches(cachedPackages: CachedPackage[]): CachedPackage[] {
+  const minorVersions = new Map<string, CachedPackage[]>();
+  cachedPackages
+    .filter(p => valid(p.version) != null)
+    .forEach(p => {
+      const [major, minor] = p.version.split('.');
+      const key = `${p.id.toLowerCase()}#${major}.${minor}`;
+      minorVersions.set(key, [...(minorVersions.get(key) ?? []), p]);
+    });
+  return flatMap(Array.from(minorVersions.values()), patches =>
+    patches.sort((a, b) => rcompare(a.version, b.version)).slice(1)
+  );
+}
+
+/**
+ * Reads the packages listed in a lockfile (the loaded version of each package) or in a project's
+ * package.json (the version of each dependency)
+ * @param {string} filePath - The path to the lockfile or package.json
+ * @returns {[string, string][]} the id and version of each listed package
+ * @throws when the file can't be read or is neither a lockfile nor a package.json
+ */
+function readListedPackages(filePath: string): [string, string][] {
+  const contents = fs.readJSONSync(filePath);
+  if (contents?.packages != null) {
+    const lockfile = readLockfile(filePath);
+    return Object.entries(lockfile.packages)
+      .filter(([requested]) => !isLocalPackageSpec(requested))
+      .map(([requested, locked]) => [requested.split('#')[0], locked.version]);
+  } else if (contents?.dependencies != null && typeof contents.dependencies === 'object') {
+    return Object.entries(contents.dependencies).map(([id, version]) => [id, `${version}`]);
+  }
+  throw new Error(`${filePath} is not a lockfile or a package.json with dependencies`);
+}
+
+/**
+ * Determines if a cached package is listed. A listed version can be an exact version, latest, or a semver
+ * range, in which case the newest cached version that satisfies it is listed.
+ * @param {CachedPackage} cachedPackage - The package
+ * @param {[string, string][]} listedPackages - The id and version of each listed package
+ * @param {CachedPackage[]} cachedPackages - The packages in the cache
+ * @returns {boolean} true if the package is listed
+ */
+function isListed(
+  cachedPackage: CachedPackage,
+  listedPackages: [string, string][],
+  cachedPackages: CachedPackage[]
+): boolean {
+  const id = cachedPackage.id.toLowerCase();
+  return listedPackages.some(([listedId, listedVersion]) => {
+    if (listedId.toLowerCase() !== id) {
+      return false;
+    } else if (listedVersion === cachedPackage.version) {
+      return true;
+    }
+    const range = listedVersion === 'latest' ? '*' : listedVersion;
+    if (!isVersionRange(range)) {
+      return false;
+    }
+    const cachedVersions = cachedPackages
+      .filter(p => p.id.toLowerCase() === id)
+      .map(p => p.version)
+      .filter(version => valid(version) != null);
+    return maxSatisfying(cachedVersions, range) === cachedPackage.version;
+  });
+}
+
+/**
+ * Reads the details of a package in the cache, noting any problems that make it malformed
+ * @param {string} cachePath - The path to the directory containing cached packages
+ * @param {string} directoryName - The name of the package's directory in the cache
+ * @returns {CachedPackage} the cached package
+ */
+function readCachedPackage(cachePath: string, directoryName: string): CachedPackage {
+  const packageDirectory = path.join(cachePath, directoryName);
+  const [id, version = ''] = directoryName.split('#');
+  const cachedPackage: CachedPackage = {
+    package: directoryName,
+    id,
+    version,
+    size: getSize(packageDirectory),
+    problems: []
+  };
+  if (!directoryName.includes('#')) {
+    cachedPackage.problems.push('the directory name is not in the format packageId#version');
+  }
+  const metadata = readPackageMetadata(packageDirectory);
+  if (metadata.installed) {
+    cachedPackage.installed = metadata.installed;
+  }
+  if (metadata.registry) {
+    cachedPackage.registry = metadata.registry;
+  }
+
+  const packageJSONPath = path.join(packageDirectory, 'package', 'package.json');
+  if (!fs.existsSync(path.join(packageDirectory, 'package'))) {
+    cachedPackage.problems.push('it does not have a package folder');
+    return cachedPackage;
+  } else if (!fs.existsSync(packageJSONPath)) {
+    cachedPackage.problems.push('its package folder does not have a package.json');
+    return cachedPackage;
+  }
+  let packageJSON: any;
+  try {
+    packageJSON = fs.readJSONSync(packageJSONPath);
+  } catch {
+    cachedPackage.problems.push('its package.json is not valid JSON');
+    return cachedPackage;
+  }
+
+  if (packageJSON.name?.toLowerCase() !== id.toLowerCase()) {
+    cachedPackage.problems.push(
+      `its package.json is for ${packageJSON.name ?? 'an unnamed package'}`
+    );
+  }
+  // The directory of a current or dev package is named for that version rather than the built version
+  if (
+    directoryName.includes('#') &&
+    !/^(current(\$.+)?|dev)$/.test(version) &&
+    packageJSON.version !== version
+  ) {
+    cachedPackage.problems.push(`its package.json is for version ${packageJSON.version}`);
+  }
+  const fhirVersions =
+    packageJSON.fhirVersions ??
+    packageJSON['fhir-version-list'] ??
+    (packageJSON.fhirVersion ? [packageJSON.fhirVersion] : undefined);
+  if (fhirVersions) {
+    cachedPackage.fhirVersions = fhirVersions;
+  }
+  if (packageJSON.type) {
+    cachedPackage.type = packageJSON.type;
+  }
+  if (packageJSON.date) {
+    cachedPackage.date = packageJSON.date;
+  }
+  return cachedPackage;
+}
+
+/**
+ * Gets the number of bytes the files in a directory take up
+ * @param {string} directory - The directory
+ * @returns {number} the total size of the files in the directory and its subdirectories
+ */
+function getSize(directory: string): number {
+  return fs.readdirSync(directory, { withFileTypes: true }).reduce((size, entry) => {
+    const entryPath = path.join(directory, entry.name);
+    if (entry.isDirectory()) {
+      return size + getSize(entryPath);
+    }
+    return size + fs.statSync(entryPath).size;
+  }, 0);
+}
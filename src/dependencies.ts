@@ -0,0 +1,172 @@
+import { valid, validRange, rcompare } from 'semver';
+
+// The prefix of a requested package that is loaded from a local path (e.g., file:../my-ig/output/package.tgz)
+export const LOCAL_PACKAGE_PREFIX = 'file:';
+
+/**
+ * Describes how a set of requested packages was resolved into loaded packages.
+ * Package names use the format packageId#version.
+ */
+export type DependencyResolution = {
+  // The packages that were explicitly requested, in the order they were requested
+  roots: string[];
+  // Maps each requested package to the package that was actually loaded for it
+  resolved: Map<string, string>;
+  // Maps each loaded package to the dependencies declared in its package.json, in declaration order
+  dependencies: Map<string, string[]>;
+};
+
+export type PackageRequest = {
+  // The resolved version of the requested package
+  version: string;
+  // The package that declared the dependency, or undefined if the package was explicitly requested
+  requestedBy?: string;
+};
+
+export type PackageConflict = {
+  packageId: string;
+  // Every request for the package, in the order the requests were declared
+  requests: PackageRequest[];
+  // The version chosen by the conflict policy, or undefined if no policy was applied
+  selectedVersion?: string;
+};
+
+/**
+ * The policy used when the same package is requested with more than one version:
+ * - highest: load only the highest requested version
+ * - first: load only the version that was declared first
+ * - fail: throw a PackageConflictError
+ */
+export type ConflictPolicy = 'highest' | 'first' | 'fail';
+
+/**
+ * Finds every package that was requested with more than one (resolved) version
+ * @param {DependencyResolution} resolution - The resolution of the requested packages
+ * @returns {PackageConflict[]} the conflicting packages, in the order they were first requested
+ */
+export function findPackageConflicts(resolution: DependencyResolution): PackageConflict[] {
+  const requestsById = new Map<string, PackageRequest[]>();
+  const addRequest = (requested: string, requestedBy?: string) => {
+    const [packageId, version] = (resolution.resolved.get(requested) ?? requested).split('#');
+    if (!requestsById.has(packageId)) {
+      requestsById.set(packageId, []);
+    }
+    requestsById.get(packageId).push({ version, requestedBy });
+  };
+  resolution.roots.forEach(root => addRequest(root));
+  resolution.dependencies.forEach((deps, pkg) => deps.forEach(dep => addRequest(dep, pkg)));
+
+  const conflicts: PackageConflict[] = [];
+  requestsById.forEach((requests, packageId) => {
+    if (new Set(requests.map(r => r.version)).size > 1) {
+      conflicts.push({ packageId, requests });
+    }
+  });
+  return conflicts;
+}
+
+/**
+ * Chooses the version of a conflicting package to load according to a conflict policy
+ * @param {PackageConflict} conflict - The conflicting package
+ * @param {ConflictPolicy} policy - The policy to apply (must be 'highest' or 'first')
+ * @returns {string} the version to load
+ */
+export function selectConflictVersion(conflict: PackageConflict, policy: ConflictPolicy): string {
+  const versions = conflict.requests.map(r => r.version);
+  if (policy === 'highest') {
+    return [...versions].sort(compareVersionsDescending)[0];
+  }
+  return versions[0];
+}
+
+/**
+ * Finds the loaded packages that are reachable from the requested packages when only the selected
+ * version of each conflicting package is followed
+ * @param {DependencyResolution} resolution - The resolution of the requested packages
+ * @param {PackageConflict[]} conflicts - The conflicting packages, each with a selectedVersion
+ * @returns {Set<string>} the packages that should remain loaded
+ */
+export function findSelectedPackages(
+  resolution: DependencyResolution,
+  conflicts: PackageConflict[]
+): Set<string> {
+  const selectedVersions = new Map(conflicts.map(c => [c.packageId, c.selectedVersion]));
+  const select = (requested: string): string => {
+    const pkg = resolution.resolved.get(requested) ?? requested;
+    const packageId = pkg.split('#')[0];
+    return selectedVersions.has(packageId)
+      ? `${packageId}#${selectedVersions.get(packageId)}`
+      : pkg;
+  };
+  const selected = new Set<string>();
+  const queue = resolution.roots.map(select);
+  while (queue.length > 0) {
+    const pkg = queue.shift();
+    if (!selected.has(pkg)) {
+      selected.add(pkg);
+      queue.push(...(resolution.dependencies.get(pkg) ?? []).map(select));
+    }
+  }
+  return selected;
+}
+
+/**
+ * Finds each cycle in the dependency graph using a depth-first search
+ * @param {DependencyResolution} resolution - The resolution of the requested packages
+ * @returns {string[][]} the packages in each cycle, starting and ending with the same package
+ */
+export function findDependencyCycles(resolution: DependencyResolution): string[][] {
+  const cycles: string[][] = [];
+  const visited = new Set<string>();
+  const visit = (pkg: string, ancestors: string[]) => {
+    const ancestorIndex = ancestors.indexOf(pkg);
+    if (ancestorIndex !== -1) {
+      cycles.push([...ancestors.slice(ancestorIndex), pkg]);
+      return;
+    }
+    if (visited.has(pkg)) {
+      return;
+    }
+    visited.add(pkg);
+    (resolution.dependencies.get(pkg) ?? []).forEach(dep => {
+      visit(resolution.resolved.get(dep) ?? dep, [...ancestors, pkg]);
+    });
+  };
+  Array.from(resolution.dependencies.keys()).forEach(pkg => visit(pkg, []));
+  return cycles;
+}
+
+/**
+ * Compares two versions so that the highest version sorts first. Versions that are not valid
+ * semantic versions (e.g., current or dev) represent the most recent builds, so they sort first.
+ */
+function compareVersionsDescending(v1: string, v2: string): number {
+  if (valid(v1) && valid(v2)) {
+    return rcompare(v1, v2);
+  } else if (valid(v1)) {
+    return 1;
+  } else if (valid(v2)) {
+    return -1;
+  }
+  return 0;
+}
+
+/**
+ * Determines if a requested package is a local package (format: file:path/to/package)
+ * @param {string} fhirPackage - The requested package
+ * @returns {boolean} true if the package is a local package
+ */
+export function isLocalPackageSpec(fhirPackage: string): boolean {
+  return fhirPackage.startsWith(LOCAL_PACKAGE_PREFIX);
+}
+
+/**
+ * Determines if a version is a semver range (e.g., ^6.1.0, ~3.1.0, >=4.0.0 <5, 4.x, 4.0.x, or *) rather than
+ * an exact version or a special version such as latest, current, or dev. Only a version with explicit range
+ * syntax is a range, so exact FHIR versions that are not valid semantic versions (e.g., 1.0) are not.
+ * @param {string} version - The version to check
+ * @returns {boolean} true if the version is a range
+ */
+export function isVersionRange(version: string): boolean {
+  return /[\^~<>=|\s]|(^|\.)[xX*](\.|$)/.test(version ?? '') && validRange(version) != null;
+}
@@ -0,0 +1,7 @@
+export class CacheLockTimeoutError extends Error {
+  constructor(public fullPackageName: string, public lockPath: string, public timeout: number) {
+    super(
+      `Timed out after ${timeout} ms waiting for another process to finish installing ${fullPackageName}. If no other process is using the FHIR cache, remove ${lockPath} and try again.`
+    );
+  }
+}
@@ -0,0 +1,7 @@
+export class DefinitionReadError extends Error {
+  constructor(public fullPackageName: string, public filePath: string, public reason: string) {
+    super(
+      `The definition ${filePath} in package ${fullPackageName} could not be read: ${reason}. The package may have been removed from or replaced in the FHIR package cache since it was loaded.`
+    );
+  }
+}
@@ -1,15 +1,20 @@
+import { redactSecrets } from '../utils/registryAuth';
+
 export class LatestVersionUnavailableError extends Error {
   constructor(
     public packageName: string,
     public customRegistry?: string,
-    public isPatchWildCard?: boolean
+    public isPatchWildCard?: boolean,
+    public versionRange?: string
   ) {
     super(
-      `Latest ${
-        isPatchWildCard ? 'patch ' : ''
-      }version of package ${packageName} could not be determined from the ${
-        customRegistry ? 'custom ' : ''
-      }FHIR package registry${customRegistry ? ` ${customRegistry}` : ''}`
+      redactSecrets(
+        `Latest ${isPatchWildCard ? 'patch ' : ''}version of package ${packageName}${
+          versionRange ? ` satisfying ${versionRange}` : ''
+        } could not be determined from the ${customRegistry ? 'custom ' : ''}FHIR package registry${
+          customRegistry ? ` ${customRegistry}` : ''
+        }`
+      )
     );
   }
 }
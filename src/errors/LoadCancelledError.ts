@@ -0,0 +1,5 @@
+export class LoadCancelledError extends Error {
+  constructor() {
+    super('Loading FHIR packages was cancelled.');
+  }
+}
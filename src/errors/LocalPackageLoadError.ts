@@ -0,0 +1,6 @@
+export class LocalPackageLoadError extends Error {
+  specReferences = ['https://confluence.hl7.org/display/FHIR/NPM+Package+Specification'];
+  constructor(public packagePath: string, public reason: string) {
+    super(`The local package ${packagePath} could not be loaded: ${reason}.`);
+  }
+}
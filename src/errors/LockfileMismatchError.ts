@@ -0,0 +1,5 @@
+export class LockfileMismatchError extends Error {
+  constructor(public fullPackageName: string, public reason: string) {
+    super(`The package ${fullPackageName} does not match the lockfile: ${reason}`);
+  }
+}
@@ -0,0 +1,7 @@
+export class OfflinePackageLoadError extends Error {
+  constructor(public fullPackageName: string, public cachePath: string) {
+    super(
+      `The package ${fullPackageName} could not be satisfied by the packages in ${cachePath}, and packages cannot be downloaded in offline mode.`
+    );
+  }
+}
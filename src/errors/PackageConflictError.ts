@@ -0,0 +1,13 @@
+import { PackageConflict } from '../dependencies';
+
+export class PackageConflictError extends Error {
+  constructor(public conflicts: PackageConflict[]) {
+    super(
+      `Multiple versions were requested for the following packages: ${conflicts
+        .map(
+          c => `${c.packageId} (${Array.from(new Set(c.requests.map(r => r.version))).join(', ')})`
+        )
+        .join('; ')}`
+    );
+  }
+}
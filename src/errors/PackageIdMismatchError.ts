@@ -0,0 +1,7 @@
+export class PackageIdMismatchError extends Error {
+  constructor(public packageId: string, public packageUrl: string, public actualPackageId: string) {
+    super(
+      `The package downloaded from ${packageUrl} is ${actualPackageId}, which does not match the requested package ${packageId}.`
+    );
+  }
+}
@@ -0,0 +1,13 @@
+import { redactSecrets } from '../utils/registryAuth';
+
+export class PackageInfoUnavailableError extends Error {
+  constructor(public packageName: string, public customRegistry?: string) {
+    super(
+      redactSecrets(
+        `Information about package ${packageName} could not be retrieved from the ${
+          customRegistry ? 'custom ' : ''
+        }FHIR package registry${customRegistry ? ` ${customRegistry}` : ''}`
+      )
+    );
+  }
+}
@@ -0,0 +1,12 @@
+export class PackageIntegrityError extends Error {
+  constructor(
+    public fullPackageName: string,
+    public packageUrl: string,
+    public expected: string,
+    public actual: string
+  ) {
+    super(
+      `The package ${fullPackageName} downloaded from ${packageUrl} failed integrity verification: the registry lists ${expected}, but the downloaded package has ${actual}.`
+    );
+  }
+}
@@ -0,0 +1,13 @@
+import { redactSecrets } from '../utils/registryAuth';
+
+export class PackageSearchUnavailableError extends Error {
+  constructor(public searchTerm?: string, public customRegistry?: string) {
+    super(
+      redactSecrets(
+        `The catalog of the ${customRegistry ? 'custom ' : ''}FHIR package registry${
+          customRegistry ? ` ${customRegistry}` : ''
+        } could not be searched${searchTerm ? ` for ${searchTerm}` : ''}`
+      )
+    );
+  }
+}
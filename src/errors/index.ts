@@ -1,4 +1,15 @@
+export * from './CacheLockTimeoutError';
 export * from './CurrentPackageLoadError';
+export * from './DefinitionReadError';
 export * from './IncorrectWildcardVersionFormatError';
 export * from './LatestVersionUnavailableError';
+export * from './LoadCancelledError';
+export * from './LocalPackageLoadError';
+export * from './LockfileMismatchError';
+export * from './OfflinePackageLoadError';
+export * from './PackageConflictError';
+export * from './PackageIdMismatchError';
+export * from './PackageInfoUnavailableError';
+export * from './PackageIntegrityError';
 export * from './PackageLoadError';
+export * from './PackageSearchUnavailableError';
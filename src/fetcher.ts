@@ -0,0 +1,115 @@
+import { Readable } from 'stream';
+import { axiosGet, RequestOptions } from './utils/axiosUtils';
+import { LogFunction } from './utils/logger';
+
+/** Options that control how requests are made, and which PackageFetcher makes them */
+export type FetchOptions = RequestOptions & {
+  // The fetcher that makes the requests (default: defaultPackageFetcher, which uses axiosGet)
+  fetcher?: PackageFetcher;
+};
+
+/** A package tarball that is being downloaded */
+export type PackageTarball = {
+  // The gzipped tarball
+  stream: Readable;
+  // The size of the tarball in bytes, if it is known
+  size?: number;
+};
+
+/** A build of an IG on the build server, as listed in its qas.json */
+export type QAEntry = {
+  'package-id': string;
+  // The date of the build (e.g., Mon, 01 Jan 2024 12:00:00 +0000)
+  date: string;
+  // The path of the build's qa.json, relative to the build server (e.g., HL7/US-Core/branches/master/qa.json)
+  repo: string;
+};
+
+/**
+ * Fetches the resources that are needed to load packages from package registries and the build server
+ * (build.fhir.org). Every network request the loader makes goes through a PackageFetcher, so a different
+ * transport (or a fake, such as an InMemoryPackageFetcher in tests) can be used by passing it in the fetcher
+ * option. A fetcher rejects with an error that has a response.status of 404 when a resource does not exist,
+ * so that the next registry can be tried.
+ */
+export interface PackageFetcher {
+  /**
+   * Fetches a JSON resource from a package registry, such as the manifest of a package (with its versions and
+   * dist-tags) or the registry's catalog
+   * @param {string} registry - The URL of the registry (e.g., https://packages.fhir.org)
+   * @param {string} resource - The path of the resource, relative to the registry (e.g., hl7.fhir.us.core)
+   * @param {RequestOptions} options - The timeout, retry, and cancellation settings for the request
+   * @param {LogFunction} log - The function used to log messages
+   * @returns {Promise<any>} the resource
+   */
+  fetchManifest(
+    registry: string,
+    resource: string,
+    options: RequestOptions,
+    log: LogFunction
+  ): Promise<any>;
+
+  /**
+   * Starts downloading a package tarball
+   * @param {string} url - The URL of the tarball
+   * @param {string} fhirPackage - The package the tarball is for (format: packageId#version)
+   * @param {RequestOptions} options - The timeout, retry, and cancellation settings for the request
+   * @param {LogFunction} log - The function used to log messages
+   * @returns {Promise<PackageTarball>} the tarball, or null if the server returned no data
+   */
+  fetchTarball(
+    url: string,
+    fhirPackage: string,
+    options: RequestOptions,
+    log: LogFunction
+  ): Promise<PackageTarball>;
+
+  /**
+   * Fetches the list of IG builds (qas.json) from the build server
+   * @param {string} buildServer - The URL of the build server (e.g., https://build.fhir.org/ig)
+   * @param {RequestOptions} options - The timeout, retry, and cancellation settings for the request
+   * @param {LogFunction} log - The function used to log messages
+   * @returns {Promise<QAEntry[]>} the builds
+   */
+  fetchQAs(buildServer: string, options: RequestOptions, log: LogFunction): Promise<QAEntry[]>;
+
+  /**
+   * Fetches the package.manifest.json of an IG build from the build server, which has the date of the build
+   * @param {string} igUrl - The URL of the IG build (e.g., https://build.fhir.org/ig/HL7/US-Core/branches/master)
+   * @param {RequestOptions} options - The timeout, retry, and cancellation settings for the request
+   * @param {LogFunction} log - The function used to log messages
+   * @returns {Promise<any>} the package manifest
+   */
+  fetchBuildManifest(igUrl: string, options: RequestOptions, log: LogFunction): Promise<any>;
+}
+
+/** The PackageFetcher that is used when none is given, which makes requests with axiosGet */
+export const defaultPackageFetcher: PackageFetcher = {
+  async fetchManifest(registry, resource, options, log) {
+    const res = await axiosGet(
+      `${registry.replace(/\/$/, '')}/${resource}`,
+      undefined,
+      options,
+      log
+    );
+    return res?.data;
+  },
+
+  async fetchTarball(url, fhirPackage, options, log) {
+    const res = await axiosGet(url, { responseType: 'stream' }, options, log);
+    if (!res?.data) {
+      return null;
+    }
+    return { stream: res.data, size: parseInt(res.headers?.['content-length']) || undefined };
+  },
+
+  async fetchQAs(buildServer, options, log) {
+    const res = await axiosGet(`${buildServer}/qas.json`, undefined, options, log);
+    return res?.data;
+  },
+
+  async fetchBuildManifest(igUrl, options, log) {
+    const res = await axiosGet(`${igUrl}/package.manifest.json`, undefined, options, log);
+    return res?.data;
+  }
+};
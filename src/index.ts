@@ -1,5 +1,14 @@
 export * from './api';
+export * from './cache';
+export * from './dependencies';
 export * from './errors';
+export * from './fetcher';
 export * from './FHIRDefinitions';
+export * from './InMemoryPackageFetcher';
+export * from './LazyDefinition';
 export * from './load';
+export * from './lockfile';
+export * from './outdated';
+export * from './progress';
+export * from './tree';
 export * from './utils';
@@ -1,35 +1,73 @@
+import crypto from 'crypto';
 import fs from 'fs-extra';
 import path from 'path';
 import os from 'os';
-import { maxSatisfying } from 'semver';
-import tar, { Pack } from 'tar';
+import { pipeline as pipelineCallback, Readable, Transform, Writable } from 'stream';
+import { promisify } from 'util';
+import zlib from 'zlib';
+import { maxSatisfying, rcompare, valid } from 'semver';
+import tar from 'tar';
 import temp from 'temp';
 import {
   PackageLoadError,
+  CacheLockTimeoutError,
   CurrentPackageLoadError,
-  IncorrectWildcardVersionFormatError
+  IncorrectWildcardVersionFormatError,
+  LoadCancelledError,
+  LocalPackageLoadError,
+  LockfileMismatchError,
+  OfflinePackageLoadError,
+  PackageConflictError,
+  PackageIdMismatchError,
+  PackageInfoUnavailableError,
+  PackageIntegrityError,
+  PackageSearchUnavailableError
 } from './errors';
+import {
+  ConflictPolicy,
+  DependencyResolution,
+  findDependencyCycles,
+  findPackageConflicts,
+  findSelectedPackages,
+  isLocalPackageSpec,
+  isVersionRange,
+  LOCAL_PACKAGE_PREFIX,
+  selectConflictVersion
+} from './dependencies';
+import { defaultPackageFetcher, FetchOptions, QAEntry } from './fetcher';
 import { FHIRDefinitions } from './FHIRDefinitions';
+import { LazyDefinition } from './LazyDefinition';
+import { ProgressCallback } from './progress';
+import { createLockfile, LockedPackage, readLockfile, writeLockfile } from './lockfile';
 import { LogFunction } from './utils';
-import { axiosGet } from './utils/axiosUtils';
-import { getCustomRegistry } from './utils/customRegistry';
-import { AxiosResponse } from 'axios';
+import { isNotFoundError } from './utils/axiosUtils';
+import { CacheLockOptions, withCacheLock } from './utils/cacheLock';
+import { onCancel, throwIfCancelled } from './utils/cancellation';
+import { limitConcurrency } from './utils/concurrency';
+import { getPackageRegistries, getRegistries } from './utils/customRegistry';
+import { redactLog } from './utils/registryAuth';
+import { getPackageIndex } from './utils/packageIndex';
+import {
+  getCachedPackageDirectory,
+  getContentIntegrity,
+  PackageMetadata,
+  readPackageMetadata,
+  verifyPackageContents,
+  writePackageMetadata
+} from './utils/packageMetadata';
 import { LatestVersionUnavailableError } from './errors/LatestVersionUnavailableError';
 
-class PackageCache {
-  public static lastCurrentUpdate: Date;
-  private static cache: { [pkg: string]: LoadedPackage } = {};
+// How long to use a cached current package before checking for a newer build (1 day)
+export const DEFAULT_CURRENT_PACKAGE_TTL = 24 * 60 * 60 * 1000;
+// The maximum number of packages a search returns, unless another limit is given
+export const DEFAULT_SEARCH_LIMIT = 50;
+// The maximum number of latest version lookups a search makes at the same time
+const MAX_PARALLEL_VERSION_LOOKUPS = 5;
 
-  public static isCurrentPackageRefreshNeeded(): boolean {
-    return (
-      !PackageCache.lastCurrentUpdate ||
-      PackageCache.lastCurrentUpdate.getTime() - new Date().getTime() > 86400000
-    );
-  }
+const pipeline = promisify(pipelineCallback);
 
-  public static markCurrentPackageRefreshed(): void {
-    this.lastCurrentUpdate = new Date();
-  }
+class PackageCache {
+  private static cache: { [pkg: string]: LoadedPackage } = {};
 
   static contains(pkg: string): boolean {
     return !!this.cache[pkg];
@@ -42,75 +80,466 @@ class PackageCache {
   static put(pkg: string, loadedPackage: LoadedPackage): void {
     this.cache[pkg] = loadedPackage;
   }
+
+  static remove(pkg: string): void {
+    delete this.cache[pkg];
+  }
 }
 
 class LoadedPackage {
   package: string;
-  defs: any[] = [];
+  defs: LazyDefinition[] = [];
   packageJson: any;
 }
 
-async function getDistUrl(registry: string, packageName: string, version: string): Promise<string> {
-  const cleanedRegistry = registry.replace(/\/$/, '');
-  // 1 get the manifest information about the package from the registry
-  const res = await axiosGet(`${cleanedRegistry}/${packageName}`);
-  // 2 find the NPM tarball location
-  const npmLocation = res.data?.versions?.[version]?.dist?.tarball;
+/** The location and hashes of a package tarball, as listed in a registry manifest */
+type PackageDist = {
+  tarball?: string;
+  shasum?: string;
+  integrity?: string;
+  // The registry the manifest was requested from
+  registry?: string;
+};
 
-  // 3 if found, use it, otherwise fallback to the FHIR spec location
-  if (npmLocation) {
-    return npmLocation;
-  } else {
-    return `${cleanedRegistry}/${packageName}/${version}`;
+async function getDist(
+  registry: string,
+  packageName: string,
+  version: string,
+  options: FetchOptions,
+  log: LogFunction
+): Promise<PackageDist> {
+  // get the manifest information about the package from the registry
+  const fetcher = options.fetcher ?? defaultPackageFetcher;
+  const manifest = await fetcher.fetchManifest(registry, packageName, options, log);
+  return { ...manifest?.versions?.[version]?.dist, registry };
+}
+
+/**
+ * Gets the location and hashes of a package tarball from a registry manifest. If the manifest can't be
+ * retrieved, no location or hashes are returned, so the package can still be downloaded from its usual URL.
+ */
+async function getDistIfAvailable(
+  registry: string,
+  packageName: string,
+  version: string,
+  options: FetchOptions,
+  log: LogFunction
+): Promise<PackageDist> {
+  try {
+    return await getDist(registry, packageName, version, options, log);
+  } catch (e) {
+    if (e instanceof LoadCancelledError) {
+      throw e;
+    }
+    return { registry };
   }
 }
 
+/**
+ * Finds where a cached package that has no stored metadata (e.g., one that another tool added to the cache)
+ * can be downloaded from, so that it can be recorded in a lockfile. The package's registries are searched in
+ * order, followed by packages.fhir.org and packages2.fhir.org. The integrity is taken from the registry
+ * manifest, or when the manifest does not list one, from hashing the downloaded tarball.
+ * @param {string} fullPackageName - The cached package (format: packageId#version)
+ * @param {LoadOptions} options - The request and offline settings
+ * @param {LogFunction} log - A function for logging
+ * @returns {Promise<PackageMetadata>} the location, registry, and integrity of the package. When the package
+ * can't be found (or in offline mode), the package's location on packages.fhir.org is returned.
+ * @throws {LoadCancelledError} when the signal in the options is aborted
+ */
+async function locateCachedPackage(
+  fullPackageName: string,
+  options: LoadOptions,
+  log: LogFunction
+): Promise<PackageMetadata> {
+  const [packageName, version] = fullPackageName.split('#');
+  const defaultLocation = { resolved: `https://packages.fhir.org/${packageName}/${version}` };
+  if (options.offline) {
+    return defaultLocation;
+  }
+  const registries = [
+    ...getPackageRegistries(packageName, log),
+    'https://packages.fhir.org',
+    'https://packages2.fhir.org/packages'
+  ];
+  for (const registry of registries) {
+    const dist = await getDistIfAvailable(registry, packageName, version, options, log);
+    if (dist.tarball == null && dist.shasum == null && dist.integrity == null) {
+      continue;
+    }
+    const resolved = dist.tarball ?? `${registry.replace(/\/$/, '')}/${packageName}/${version}`;
+    let integrity = /^sha512-/.test(dist.integrity ?? '') ? dist.integrity : undefined;
+    if (integrity == null) {
+      integrity = await hashTarball(resolved, fullPackageName, options, log);
+    }
+    return { resolved, registry: dist.registry, integrity };
+  }
+  return defaultLocation;
+}
+
+/**
+ * Downloads a package tarball to compute its integrity, without extracting it
+ * @param {string} url - The URL of the tarball
+ * @param {string} fullPackageName - The package the tarball is for (format: packageId#version)
+ * @param {LoadOptions} options - The request settings
+ * @param {LogFunction} log - A function for logging
+ * @returns {Promise<string>} the Subresource Integrity hash of the tarball, or undefined if it could not be
+ * downloaded
+ * @throws {LoadCancelledError} when the signal in the options is aborted
+ */
+async function hashTarball(
+  url: string,
+  fullPackageName: string,
+  options: LoadOptions,
+  log: LogFunction
+): Promise<string> {
+  const fetcher = options.fetcher ?? defaultPackageFetcher;
+  const hash = crypto.createHash('sha512');
+  try {
+    const downloaded = await limitDownloads(options, async () => {
+      const tarball = await fetcher.fetchTarball(url, fullPackageName, options, log);
+      if (!tarball?.stream) {
+        return false;
+      }
+      await pipeline(
+        tarball.stream,
+        new Writable({
+          write(chunk, encoding, callback) {
+            hash.update(chunk);
+            callback();
+          }
+        })
+      );
+      return true;
+    });
+    if (!downloaded) {
+      return;
+    }
+  } catch (e) {
+    if (e instanceof LoadCancelledError) {
+      throw e;
+    }
+    log('debug', `Unable to download ${fullPackageName} from ${url} to compute its integrity.`);
+    return;
+  }
+  return `sha512-${hash.digest('base64')}`;
+}
+
 /**
  * Loads multiple dependencies from a directory (the user FHIR cache or a specified directory) or from online
  * @param {string[]} fhirPackages - An array of FHIR packages to download and load definitions from (format: packageId#version)
  * @param {string} [cachePath=path.join(os.homedir(), '.fhir', 'packages')] - Path to look for the package and download to if not already present. Defaults to local FHIR cache.
  * @param {LogFunction} [log=() => {}] - A function for logging. Defaults to no-op.
- * @returns {Promise<FHIRDefinitions>} the loaded FHIRDefinitions
+ * @param {LoadOptions} [options={}] - Additional options that control how packages are loaded
+ * @returns {Promise<FHIRDefinitions>} the loaded FHIRDefinitions. A package that fails to load (including when
+ * another process does not release the lock on it in time) is logged as an error and marked as an
+ * unsuccessful load rather than rejecting.
+ * @throws {LoadCancelledError} when the signal in the options is aborted
+ * @throws when the frozenLockfile option is set and the lockfile does not exist or is not a valid lockfile
  */
 export async function loadDependencies(
   fhirPackages: string[],
   cachePath: string = path.join(os.homedir(), '.fhir', 'packages'),
-  log: LogFunction = () => {}
+  log: LogFunction = () => {},
+  options: LoadOptions = {}
 ): Promise<FHIRDefinitions> {
-  const promises = fhirPackages.map(fhirPackage => {
+  log = redactLog(log);
+  throwIfCancelled(options.signal);
+  if (options.lockfile && options.frozenLockfile && !fs.existsSync(options.lockfile)) {
+    throw new Error(
+      `The lockfile ${options.lockfile} does not exist, so the packages cannot be loaded from a frozen lockfile. Load them without the frozen lockfile option to create it.`
+    );
+  }
+  const frozenLockfile =
+    options.lockfile && options.frozenLockfile ? readLockfile(options.lockfile) : null;
+  // The packages that could not be loaded because they are not in the cache and offline mode is on
+  const offlineFailures: string[] = [];
+  const loadPackage = (fhirPackage: string): Promise<FHIRDefinitions> => {
     const [fhirPackageId, fhirPackageVersion] = fhirPackage.split('#');
     const fhirDefs = new FHIRDefinitions();
+    let loading: Promise<FHIRDefinitions>;
     // Testing Hack: Use exports.mergeDependency instead of mergeDependency so that this function
     // calls the mocked mergeDependency in unit tests.  In normal (non-test) use, this should
     // have no negative effects.
-    return exports
-      .mergeDependency(fhirPackageId, fhirPackageVersion, fhirDefs, cachePath, log)
-      .catch((e: Error) => {
-        let message = `Failed to load ${fhirPackageId}#${fhirPackageVersion}: ${e.message}`;
-        if (/certificate/.test(e.message)) {
-          message +=
-            '\n\nSometimes this error occurs in corporate or educational environments that use proxies and/or SSL ' +
-            'inspection.\nTroubleshooting tips:\n' +
-            '  1. If a non-proxied network is available, consider connecting to that network instead.\n' +
-            '  2. Set NODE_EXTRA_CA_CERTS as described at https://bit.ly/3ghJqJZ (RECOMMENDED).\n' +
-            '  3. Disable certificate validation as described at https://bit.ly/3syjzm7 (NOT RECOMMENDED).\n';
-        }
-        log('error', message);
-        fhirDefs.unsuccessfulPackageLoad = true;
-        fhirDefs.package = `${fhirPackageId}#${fhirPackageVersion}`;
-        return fhirDefs;
-      });
+    if (isLocalPackageSpec(fhirPackage)) {
+      loading = exports.mergeLocalDependency(
+        fhirPackage.slice(LOCAL_PACKAGE_PREFIX.length),
+        fhirDefs,
+        cachePath,
+        log,
+        options
+      );
+    } else if (frozenLockfile == null) {
+      loading = exports.mergeDependency(
+        fhirPackageId,
+        fhirPackageVersion,
+        fhirDefs,
+        cachePath,
+        log,
+        options
+      );
+    } else if (frozenLockfile.packages[fhirPackage] != null) {
+      loading = exports.mergeLockedDependency(
+        fhirPackageId,
+        frozenLockfile.packages[fhirPackage],
+        fhirDefs,
+        cachePath,
+        log,
+        options
+      );
+    } else {
+      loading = Promise.reject(
+        new LockfileMismatchError(fhirPackage, `the package is not in ${options.lockfile}`)
+      );
+    }
+    return loading.catch((e: Error) => {
+      // A cancelled load stops loading every package rather than failing a single package
+      if (e instanceof LoadCancelledError) {
+        throw e;
+      }
+      const failedPackage = isLocalPackageSpec(fhirPackage)
+        ? fhirPackage
+        : `${fhirPackageId}#${fhirPackageVersion}`;
+      if (e instanceof OfflinePackageLoadError) {
+        offlineFailures.push(failedPackage);
+      }
+      let message = `Failed to load ${failedPackage}: ${e.message}`;
+      if (/certificate/.test(e.message)) {
+        message +=
+          '\n\nSometimes this error occurs in corporate or educational environments that use proxies and/or SSL ' +
+          'inspection.\nTroubleshooting tips:\n' +
+          '  1. If a non-proxied network is available, consider connecting to that network instead.\n' +
+          "  2. Trust your organization's certificate authority with the caFile option (--ca-file in the CLI) " +
+          '(RECOMMENDED).\n' +
+          '  3. Set NODE_EXTRA_CA_CERTS as described at https://bit.ly/3ghJqJZ.\n' +
+          '  4. Disable certificate validation as described at https://bit.ly/3syjzm7 (NOT RECOMMENDED).\n';
+      }
+      log('error', message);
+      fhirDefs.unsuccessfulPackageLoad = true;
+      fhirDefs.package = failedPackage;
+      return fhirDefs;
+    });
+  };
+  const resolution: DependencyResolution = {
+    roots: fhirPackages,
+    resolved: new Map(),
+    dependencies: new Map()
+  };
+  if (options.conflictPolicy === 'fail') {
+    throwIfConflicting(resolution);
+  }
+  const rootDefs = await Promise.all(fhirPackages.map(loadPackage));
+  fhirPackages.forEach((fhirPackage, i) =>
+    resolution.resolved.set(fhirPackage, rootDefs[i].package)
+  );
+  let fhirDefs = rootDefs;
+  if (options.recursive) {
+    fhirDefs = await loadTransitiveDependencies(
+      rootDefs,
+      loadPackage,
+      resolution,
+      log,
+      options.conflictPolicy
+    );
+  }
+
+  if (offlineFailures.length > 0) {
+    log(
+      'error',
+      `The following packages are not in ${cachePath} and cannot be downloaded in offline mode: ${offlineFailures.join(
+        ', '
+      )}. Load them without the offline option to add them to the cache.`
+    );
+  }
+
+  const conflicts = findPackageConflicts(resolution);
+  if (conflicts.length > 0) {
+    if (options.conflictPolicy === 'fail') {
+      throw new PackageConflictError(conflicts);
+    } else if (options.conflictPolicy != null) {
+      conflicts.forEach(
+        c => (c.selectedVersion = selectConflictVersion(c, options.conflictPolicy))
+      );
+      const selectedPackages = findSelectedPackages(resolution, conflicts);
+      fhirDefs = fhirDefs.filter(defs => selectedPackages.has(defs.package));
+    }
+    conflicts.forEach(c => {
+      const requests = c.requests.map(
+        r =>
+          `${r.version} (${r.requestedBy ? `required by ${r.requestedBy}` : 'requested directly'})`
+      );
+      log(
+        'warn',
+        `Multiple versions of ${c.packageId} were requested: ${requests.join(', ')}.${
+          c.selectedVersion ? ` Only ${c.packageId}#${c.selectedVersion} will be loaded.` : ''
+        }`
+      );
+    });
+  }
+
+  let mainFHIRDefs = fhirDefs[0];
+  if (fhirDefs.length > 1) {
+    mainFHIRDefs = new FHIRDefinitions();
+    fhirDefs.forEach(d => mainFHIRDefs.childFHIRDefs.push(d));
+  }
+  mainFHIRDefs.packageConflicts = conflicts;
+  mainFHIRDefs.packageRegistries = getPackageRegistriesUsed(fhirDefs, cachePath);
+
+  if (options.lockfile && !options.frozenLockfile) {
+    const lockfile = await createLockfile(resolution, fhirDefs, cachePath, fullPackageName =>
+      locateCachedPackage(fullPackageName, options, log)
+    );
+    writeLockfile(options.lockfile, lockfile);
+    log('info', `Wrote lockfile ${options.lockfile}`);
+  }
+  return mainFHIRDefs;
+}
+
+/**
+ * Finds the registry each loaded package was downloaded from, as recorded in the cache when it was installed
+ * @param {FHIRDefinitions[]} fhirDefs - The FHIRDefinitions for each loaded package
+ * @param {string} cachePath - The path to the directory containing cached packages
+ * @returns {{ [fullPackageName: string]: string }} the registry of each package that was downloaded from a
+ * registry. Packages loaded from a local path, a tarball URL, or build.fhir.org are not included.
+ */
+function getPackageRegistriesUsed(
+  fhirDefs: FHIRDefinitions[],
+  cachePath: string
+): { [fullPackageName: string]: string } {
+  const registries: { [fullPackageName: string]: string } = {};
+  fhirDefs
+    .filter(defs => !defs.unsuccessfulPackageLoad)
+    .forEach(defs => {
+      const { registry } = readPackageMetadata(getCachedPackageDirectory(cachePath, defs.package));
+      if (registry) {
+        registries[defs.package] = registry;
+      }
+    });
+  return registries;
+}
+
+/**
+ * Walks the "dependencies" declared in the package.json of each loaded package, loading every package that
+ * is reachable from the provided packages. Each package is only loaded once, even if it is required by
+ * several other packages, and circular dependencies are reported but not followed. With the highest or first
+ * conflict policy, a dependency on a version that the policy would not select is not loaded at all.
+ * @param {FHIRDefinitions[]} fhirDefs - The FHIRDefinitions for the packages that were explicitly requested
+ * @param {(fhirPackage: string) => Promise<FHIRDefinitions>} loadPackage - Loads a single package (format: packageId#version)
+ * @param {DependencyResolution} resolution - The resolution to record each loaded dependency in
+ * @param {LogFunction} log - A function for logging
+ * @param {ConflictPolicy} [conflictPolicy] - The policy for choosing between conflicting versions of a package
+ * @returns {Promise<FHIRDefinitions[]>} the provided FHIRDefinitions followed by those of every transitive dependency
+ */
+async function loadTransitiveDependencies(
+  fhirDefs: FHIRDefinitions[],
+  loadPackage: (fhirPackage: string) => Promise<FHIRDefinitions>,
+  resolution: DependencyResolution,
+  log: LogFunction,
+  conflictPolicy?: ConflictPolicy
+): Promise<FHIRDefinitions[]> {
+  const loadedPackages = new Set(fhirDefs.map(defs => defs.package));
+  const allDefs = [...fhirDefs];
+  let currentLevel = fhirDefs;
+  while (currentLevel.length > 0) {
+    const requested: string[] = [];
+    currentLevel.forEach(defs => {
+      const dependencies = getDeclaredDependencies(defs);
+      resolution.dependencies.set(defs.package, dependencies);
+      if (dependencies.length > 0) {
+        log('debug', `Resolving dependencies of ${defs.package}: ${dependencies.join(', ')}`);
+      }
+      dependencies
+        .filter(dep => !resolution.resolved.has(dep) && !requested.includes(dep))
+        .forEach(dep => {
+          if (loadedPackages.has(dep)) {
+            resolution.resolved.set(dep, dep);
+          } else {
+            requested.push(dep);
+          }
+        });
+    });
+    if (conflictPolicy === 'fail') {
+      // Fail before any of this level's dependencies are downloaded
+      throwIfConflicting(resolution);
+    }
+    findLosingDependencies(requested, loadedPackages, conflictPolicy).forEach(dep => {
+      log('debug', `Skipping ${dep} because another version of it will be loaded`);
+      requested.splice(requested.indexOf(dep), 1);
+    });
+    const nextLevelDefs = await Promise.all(requested.map(loadPackage));
+    currentLevel = [];
+    nextLevelDefs.forEach((defs, i) => {
+      resolution.resolved.set(requested[i], defs.package);
+      if (!loadedPackages.has(defs.package)) {
+        loadedPackages.add(defs.package);
+        currentLevel.push(defs);
+      }
+    });
+    allDefs.push(...currentLevel);
+  }
+
+  findDependencyCycles(resolution).forEach(cycle => {
+    log('info', `Circular dependency detected: ${cycle.join(' -> ')}`);
   });
-  return await Promise.all(promises).then(fhirDefs => {
-    if (fhirDefs.length > 1) {
-      const mainFHIRDefs = new FHIRDefinitions();
-      fhirDefs.forEach(d => mainFHIRDefs.childFHIRDefs.push(d));
-      return mainFHIRDefs;
+  return allDefs;
+}
+
+/**
+ * Throws a PackageConflictError when exact versions of a package that conflict with each other have been
+ * requested, so the fail conflict policy does not wait for every package to be downloaded. Ranges and tags
+ * are only compared once they are resolved, after the packages they resolve to are loaded.
+ * @param {DependencyResolution} resolution - The resolution of the packages requested so far
+ * @throws {PackageConflictError} when conflicting versions of a package have been requested
+ */
+function throwIfConflicting(resolution: DependencyResolution): void {
+  const conflicts = findPackageConflicts(resolution).filter(
+    c => new Set(c.requests.map(r => r.version).filter(v => valid(v) != null)).size > 1
+  );
+  if (conflicts.length > 0) {
+    throw new PackageConflictError(conflicts);
+  }
+}
+
+/**
+ * Finds the requested dependencies that the highest or first conflict policy would not select, so that they
+ * do not need to be downloaded. Only exact versions are compared, since the version a range or tag resolves
+ * to is not known until the package is loaded.
+ * @param {string[]} requested - The dependencies that are about to be loaded, in the order they were declared
+ * @param {Set<string>} loadedPackages - The packages that have already been loaded, in the order they were loaded
+ * @param {ConflictPolicy} [conflictPolicy] - The policy for choosing between conflicting versions of a package
+ * @returns {string[]} the requested dependencies that should not be loaded
+ */
+function findLosingDependencies(
+  requested: string[],
+  loadedPackages: Set<string>,
+  conflictPolicy?: ConflictPolicy
+): string[] {
+  if (conflictPolicy !== 'highest' && conflictPolicy !== 'first') {
+    return [];
+  }
+  const candidates = [...loadedPackages, ...requested]
+    .map(pkg => pkg.split('#'))
+    .filter(([, version]) => valid(version) != null);
+  return requested.filter(dep => {
+    const [packageId, version] = dep.split('#');
+    if (valid(version) == null) {
+      return false;
     }
-    return fhirDefs[0];
+    const versions = candidates.filter(([id]) => id === packageId).map(([, v]) => ({ version: v }));
+    return selectConflictVersion({ packageId, requests: versions }, conflictPolicy) !== version;
   });
 }
 
+/**
+ * Gets the dependencies declared in the package.json of a loaded package
+ * @param {FHIRDefinitions} defs - The FHIRDefinitions the package was loaded into
+ * @returns {string[]} the declared dependencies (format: packageId#version)
+ */
+function getDeclaredDependencies(defs: FHIRDefinitions): string[] {
+  const dependencies = defs.getPackageJson(defs.package)?.dependencies ?? {};
+  return Object.entries(dependencies).map(([id, version]) => `${id}#${version}`);
+}
+
 /**
  * Downloads a dependency from a directory (the user FHIR cache or a specified directory) or from online.
  * The definitions from the package are added to their own FHIRDefinitions instance, which is then added to
@@ -154,32 +583,119 @@ export async function loadDependency(
  * @param {string} version - The version of the package to load
  * @param {FHIRDefinitions} FHIRDefs - The FHIRDefinitions to load the dependencies into
  * @param {string} [cachePath=path.join(os.homedir(), '.fhir', 'packages')] - The path to load the package into (default: user FHIR cache)
+ * @param {LogFunction} [log=() => {}] - A function for logging. Defaults to no-op.
+ * @param {LoadOptions} [options={}] - Additional options that control how the package is loaded
  * @returns {Promise<FHIRDefinitions>} the loaded FHIRDefs
  * @throws {PackageLoadError} when the desired package can't be loaded
+ * @throws {PackageIntegrityError} when the downloaded package does not match the registry's hash
+ * @throws {CacheLockTimeoutError} when another process does not release the lock on a package in time
+ * @throws {LoadCancelledError} when the signal in the options is aborted
  */
 export async function mergeDependency(
   packageName: string,
   version: string,
   FHIRDefs: FHIRDefinitions,
   cachePath: string = path.join(os.homedir(), '.fhir', 'packages'),
-  log: LogFunction = () => {}
+  log: LogFunction = () => {},
+  options: LoadOptions = {}
 ): Promise<FHIRDefinitions> {
-  if (version === 'latest') {
-    // using the exported function here to allow for easier mocking in tests
-    version = await exports.lookUpLatestVersion(packageName, log);
-  } else if (/^\d+\.\d+\.x$/.test(version)) {
+  log = redactLog(log);
+  throwIfCancelled(options.signal);
+  const { onProgress } = options;
+  const requestedPackage = `${packageName}#${version}`;
+  onProgress?.({ type: 'resolve-start', package: requestedPackage });
+  if (version === 'latest' && options.offline) {
+    // The registry can't be asked for the latest version, so use the latest version in the cache
+    const cachedVersion = findCachedVersion(packageName, '*', cachePath);
+    if (!cachedVersion) {
+      throw new OfflinePackageLoadError(requestedPackage, cachePath);
+    }
+    log(
+      'info',
+      `Using ${packageName}#${cachedVersion}, the latest version of ${packageName} in ${cachePath}, since packages cannot be downloaded in offline mode.`
+    );
+    version = cachedVersion;
+  } else if (version === 'latest') {
     // using the exported function here to allow for easier mocking in tests
-    version = await exports.lookUpLatestPatchVersion(packageName, version, log);
-  } else if (/^\d+\.x$/.test(version)) {
-    throw new IncorrectWildcardVersionFormatError(packageName, version);
+    version = await exports.lookUpLatestVersion(packageName, log, options);
+  } else if (isTarballUrl(version)) {
+    // A package downloaded from a tarball URL is cached under the version in its package.json
+    const cachedVersion = findCachedTarballVersion(packageName, version, cachePath);
+    if (cachedVersion) {
+      log(
+        'info',
+        `Found ${packageName}#${cachedVersion} in ${cachePath}, which was downloaded from ${version}.`
+      );
+      version = cachedVersion;
+    }
+  } else if (isVersionRange(version) && options.offline) {
+    // The registry can't be asked which versions satisfy the range, so use the highest one in the cache
+    const cachedVersion = findCachedVersion(packageName, version, cachePath);
+    if (!cachedVersion) {
+      throw new OfflinePackageLoadError(requestedPackage, cachePath);
+    }
+    log(
+      'info',
+      `Using ${packageName}#${cachedVersion}, the latest version of ${packageName} in ${cachePath} that satisfies ${version}, since packages cannot be downloaded in offline mode.`
+    );
+    version = cachedVersion;
+  } else if (isVersionRange(version)) {
+    try {
+      // using the exported functions here to allow for easier mocking in tests
+      version = /^\d+\.\d+\.x$/.test(version)
+        ? await exports.lookUpLatestPatchVersion(packageName, version, log, options)
+        : await exports.lookUpLatestSatisfyingVersion(packageName, version, log, options);
+    } catch (e) {
+      // Fall back to a cached version that satisfies the range only when the registry can't be used
+      const cachedVersion =
+        e instanceof LatestVersionUnavailableError
+          ? findCachedVersion(packageName, version, cachePath)
+          : null;
+      if (!cachedVersion) {
+        throw e;
+      }
+      log(
+        'warn',
+        `${e.message}, so ${packageName}#${cachedVersion}, the latest version of ${packageName} in ${cachePath} that satisfies ${version}, will be used.`
+      );
+      version = cachedVersion;
+    }
   }
   let fullPackageName = `${packageName}#${version}`;
   const loadPath = path.join(cachePath, fullPackageName, 'package');
   let loadedPackage: LoadedPackage;
+  onProgress?.({
+    type: 'resolve-end',
+    package: requestedPackage,
+    resolvedPackage: fullPackageName
+  });
 
   // First, try to load the package from the local cache
   log('info', `Checking ${cachePath} for ${fullPackageName}...`);
-  loadedPackage = loadFromPath(cachePath, fullPackageName);
+  loadedPackage = loadFromPath(cachePath, fullPackageName, onProgress);
+  const packageDirectory = path.join(cachePath, fullPackageName);
+  if (loadedPackage && options.verifyCache && !verifyPackageContents(packageDirectory)) {
+    if (options.offline) {
+      log(
+        'warn',
+        `The files in ${packageDirectory} have changed since ${fullPackageName} was installed, but it cannot be downloaded again in offline mode.`
+      );
+    } else {
+      log(
+        'warn',
+        `The files in ${packageDirectory} have changed since ${fullPackageName} was installed, so it will be downloaded again.`
+      );
+      await withCacheLock(
+        cachePath,
+        fullPackageName,
+        async () => fs.removeSync(packageDirectory),
+        options,
+        log
+      );
+      PackageCache.remove(fullPackageName);
+      loadedPackage = null;
+    }
+  }
   if (loadedPackage) {
     log('info', `Found ${fullPackageName} in ${cachePath}.`);
   } else {
@@ -194,24 +710,45 @@ export async function mergeDependency(
       `Falling back to ${packageName}#current since ${fullPackageName} is not locally cached. To avoid this, add ${fullPackageName} to your local FHIR cache by building it locally with the HL7 FHIR IG Publisher.`
     );
     version = 'current';
+    onProgress?.({
+      type: 'resolve-end',
+      package: fullPackageName,
+      resolvedPackage: `${packageName}#${version}`
+    });
     fullPackageName = `${packageName}#${version}`;
-    loadedPackage = loadFromPath(cachePath, fullPackageName);
+    loadedPackage = loadFromPath(cachePath, fullPackageName, onProgress);
   }
 
   let packageUrl;
-  if (packageName.startsWith('hl7.fhir.r5.') && version === 'current') {
-    packageUrl = `https://build.fhir.org/${packageName}.tgz`;
-    // TODO: Figure out how to determine if the cached package is current
-    // See: https://chat.fhir.org/#narrow/stream/179252-IG-creation/topic/Registry.20for.20FHIR.20Core.20packages.20.3E.204.2E0.2E1
-    if (loadedPackage) {
-      log(
-        'info',
-        `Downloading ${fullPackageName} since FHIR Package Loader cannot determine if the version in ${cachePath} is the most recent build.`
-      );
+  // The custom registries to download the package from when it is not downloaded from packageUrl
+  let customRegistries: string[] = [];
+  // The hashes listed by the registry, which the downloaded tarball must match
+  let packageDist: PackageDist;
+  // Whether a current package is being checked for a newer build
+  let checkingCurrentPackage = false;
+  if (options.offline) {
+    // Use whatever is in the cache, even a current package that may have a newer build
+    if (!loadedPackage) {
+      throw new OfflinePackageLoadError(fullPackageName, cachePath);
+    }
+  } else if (isTarballUrl(version)) {
+    // The version of a package requested by its tarball URL is not known until it is downloaded
+    packageUrl = version;
+  } else if (packageName.startsWith('hl7.fhir.r5.') && version === 'current') {
+    if (!loadedPackage || isCurrentPackageRefreshNeeded(cachePath, fullPackageName, options)) {
+      packageUrl = `https://build.fhir.org/${packageName}.tgz`;
+      checkingCurrentPackage = true;
+      // TODO: Figure out how to determine if the cached package is current
+      // See: https://chat.fhir.org/#narrow/stream/179252-IG-creation/topic/Registry.20for.20FHIR.20Core.20packages.20.3E.204.2E0.2E1
+      if (loadedPackage) {
+        log(
+          'info',
+          `Downloading ${fullPackageName} since FHIR Package Loader cannot determine if the version in ${cachePath} is the most recent build.`
+        );
+      }
     }
   } else if (/^current(\$.+)?$/.test(version)) {
-    if (PackageCache.isCurrentPackageRefreshNeeded()) {
-      PackageCache.markCurrentPackageRefreshed();
+    if (!loadedPackage || isCurrentPackageRefreshNeeded(cachePath, fullPackageName, options)) {
       // Authors can reference a specific CI branch by specifying version as current${branchname} (e.g., current$mybranch)
       // See: https://chat.fhir.org/#narrow/stream/179166-implementers/topic/Package.20cache.20-.20multiple.20dev.20versions/near/291131585
       let branch: string;
@@ -221,10 +758,9 @@ export async function mergeDependency(
 
       // Even if a local current package is loaded, we must still check that the local package date matches
       // the date on the most recent version on build.fhir.org. If the date does not match, we re-download to the cache
-      type QAEntry = { 'package-id': string; date: string; repo: string };
       const baseUrl = 'https://build.fhir.org/ig';
-      const res = await axiosGet(`${baseUrl}/qas.json`);
-      const qaData: QAEntry[] = res?.data;
+      const fetcher = options.fetcher ?? defaultPackageFetcher;
+      const qaData = await fetcher.fetchQAs(baseUrl, options, log);
       // Find matching packages and sort by date to get the most recent
       let newestPackage: QAEntry;
       if (qaData?.length > 0) {
@@ -244,23 +780,22 @@ export async function mergeDependency(
         const packagePath = newestPackage.repo.slice(0, -8); // remove "/qa.json" from end
         const igUrl = `${baseUrl}/${packagePath}`;
         // get the package.manifest.json for the newest version of the package on build.fhir.org
-        const manifest = await axiosGet(`${igUrl}/package.manifest.json`);
+        const manifest = await fetcher.fetchBuildManifest(igUrl, options, log);
         let cachedPackageJSON;
         if (fs.existsSync(path.join(loadPath, 'package.json'))) {
           cachedPackageJSON = fs.readJSONSync(path.join(loadPath, 'package.json'));
         }
         // if the date on the package.manifest.json does not match the date on the cached package
         // set the packageUrl to trigger a re-download of the package
-        if (manifest?.data?.date !== cachedPackageJSON?.date) {
+        if (manifest?.date !== cachedPackageJSON?.date) {
           packageUrl = `${igUrl}/package.tgz`;
+          checkingCurrentPackage = true;
           if (cachedPackageJSON) {
             log(
               'debug',
               `Cached package date for ${fullPackageName} (${formatDate(
                 cachedPackageJSON.date
-              )}) does not match last build date on build.fhir.org (${formatDate(
-                manifest?.data?.date
-              )})`
+              )}) does not match last build date on build.fhir.org (${formatDate(manifest?.date)})`
             );
             log(
               'info',
@@ -273,86 +808,710 @@ export async function mergeDependency(
             `Cached package date for ${fullPackageName} (${formatDate(
               cachedPackageJSON.date
             )}) matches last build date on build.fhir.org (${formatDate(
-              manifest?.data?.date
+              manifest?.date
             )}), so the cached package will be used`
           );
+          markCurrentPackageChecked(cachePath, fullPackageName);
         }
       } else {
         throw new CurrentPackageLoadError(fullPackageName);
       }
     }
   } else if (!loadedPackage) {
-    const customRegistry = getCustomRegistry(log);
-    if (customRegistry) {
-      packageUrl = await getDistUrl(customRegistry, packageName, version);
-    } else {
+    customRegistries = getPackageRegistries(packageName, log);
+    if (customRegistries.length === 0) {
+      packageDist = await getDistIfAvailable(
+        'https://packages.fhir.org',
+        packageName,
+        version,
+        options,
+        log
+      );
       packageUrl = `https://packages.fhir.org/${packageName}/${version}`;
     }
   }
 
-  // If the packageUrl is set, we must download the package from that url, and extract it to our local cache
-  if (packageUrl) {
-    const doDownload = async (url: string) => {
-      log('info', `Downloading ${fullPackageName}... ${url}`);
-      const res = await axiosGet(url, {
-        responseType: 'arraybuffer'
-      });
-      if (res?.data) {
-        log('info', `Downloaded ${fullPackageName}`);
-        // Create a temporary file and write the package to there
-        temp.track();
-        const tempFile = temp.openSync();
-        fs.writeFileSync(tempFile.path, res.data);
-        // Extract the package to a temporary directory
-        const tempDirectory = temp.mkdirSync();
-        tar.x({
-          cwd: tempDirectory,
-          file: tempFile.path,
-          sync: true,
-          strict: true
-        });
-        cleanCachedPackage(tempDirectory);
-        // Add or replace the package in the FHIR cache
-        const targetDirectory = path.join(cachePath, fullPackageName);
-        if (fs.existsSync(targetDirectory)) {
-          fs.removeSync(targetDirectory);
+  const doDownload = async (url: string) => {
+    const downloadedPackage = await downloadPackage(
+      url,
+      fullPackageName,
+      cachePath,
+      log,
+      null,
+      packageDist,
+      options
+    );
+    if (downloadedPackage) {
+      // Now try to load again from the path
+      fullPackageName = downloadedPackage;
+      loadedPackage = loadFromPath(cachePath, fullPackageName, onProgress);
+      if (checkingCurrentPackage) {
+        markCurrentPackageChecked(cachePath, fullPackageName);
+      }
+      if (packageDist?.registry) {
+        log('info', `Using registry ${packageDist.registry} for ${fullPackageName}.`);
+      }
+    }
+  };
+  if (customRegistries.length > 0) {
+    // Try each registry in priority order, moving on to the next one only when a registry doesn't have the package
+    let foundInCustomRegistry = false;
+    for (let i = 0; i < customRegistries.length; i++) {
+      try {
+        packageDist = await getDist(customRegistries[i], packageName, version, options, log);
+        // if the manifest doesn't list the tarball location, fallback to the FHIR spec location
+        await doDownload(
+          packageDist.tarball ??
+            `${customRegistries[i].replace(/\/$/, '')}/${packageName}/${version}`
+        );
+        foundInCustomRegistry = true;
+        break;
+      } catch (e) {
+        if (
+          e instanceof PackageIdMismatchError ||
+          e instanceof PackageIntegrityError ||
+          e instanceof CacheLockTimeoutError ||
+          e instanceof LoadCancelledError
+        ) {
+          throw e;
+        } else if (!isNotFoundError(e)) {
+          throw new PackageLoadError(fullPackageName, customRegistries.join(', '));
         }
-        fs.moveSync(tempDirectory, targetDirectory);
-        // Now try to load again from the path
-        loadedPackage = loadFromPath(cachePath, fullPackageName);
-      } else {
-        log('info', `Unable to download most current version of ${fullPackageName}`);
+        log(
+          'info',
+          `${fullPackageName} was not found in ${customRegistries[i]}, so ${
+            customRegistries[i + 1] ?? 'https://packages.fhir.org'
+          } will be tried.`
+        );
       }
-    };
+    }
+    if (!foundInCustomRegistry) {
+      // None of the custom registries have the package, so it is loaded from the public registries as usual
+      customRegistries = [];
+      packageDist = await getDistIfAvailable(
+        'https://packages.fhir.org',
+        packageName,
+        version,
+        options,
+        log
+      );
+      packageUrl = `https://packages.fhir.org/${packageName}/${version}`;
+    }
+  }
+
+  // If the packageUrl is set, we must download the package from that url, and extract it to our local cache
+  if (packageUrl) {
     try {
       await doDownload(packageUrl);
     } catch (e) {
-      if (packageUrl === `https://packages.fhir.org/${packageName}/${version}`) {
+      if (
+        e instanceof PackageIdMismatchError ||
+        e instanceof PackageIntegrityError ||
+        e instanceof CacheLockTimeoutError ||
+        e instanceof LoadCancelledError
+      ) {
+        throw e;
+      } else if (packageUrl === `https://packages.fhir.org/${packageName}/${version}`) {
         // It didn't exist in the normal registry.  Fallback to packages2 registry.
         // See: https://chat.fhir.org/#narrow/stream/179252-IG-creation/topic/Registry.20for.20FHIR.20Core.20packages.20.3E.204.2E0.2E1
         // See: https://chat.fhir.org/#narrow/stream/179252-IG-creation/topic/fhir.2Edicom/near/262334652
         packageUrl = `https://packages2.fhir.org/packages/${packageName}/${version}`;
         try {
+          packageDist = await getDistIfAvailable(
+            'https://packages2.fhir.org/packages',
+            packageName,
+            version,
+            options,
+            log
+          );
           await doDownload(packageUrl);
         } catch (e) {
+          if (
+            e instanceof PackageIntegrityError ||
+            e instanceof CacheLockTimeoutError ||
+            e instanceof LoadCancelledError
+          ) {
+            throw e;
+          }
           throw new PackageLoadError(fullPackageName);
         }
       } else {
-        throw new PackageLoadError(fullPackageName, getCustomRegistry());
+        throw new PackageLoadError(fullPackageName, customRegistries.join(', ') || undefined);
       }
     }
   }
 
   if (!loadedPackage) {
     // If we fail again, then we couldn't get the package locally or from online
-    throw new PackageLoadError(fullPackageName, getCustomRegistry());
+    throw new PackageLoadError(fullPackageName, customRegistries.join(', ') || undefined);
   }
 
   merge(loadedPackage, FHIRDefs);
   log('info', `Loaded package ${fullPackageName}`);
+  onProgress?.({ type: 'loaded', package: fullPackageName });
   return FHIRDefs;
 }
 
+/**
+ * Loads a package from a local directory or .tgz file (e.g., the output/package.tgz built by the IG Publisher)
+ * into the FHIRDefinitions class provided. The id and version of the package are read from its package.json.
+ * A directory is loaded from where it is, and a .tgz file is extracted to a temporary directory in the cache
+ * that is removed once the package is loaded. The package is only copied into the cache when the
+ * cacheLocalPackages option is true, in which case it is loaded from the cache.
+ * @param {string} packagePath - The path to the package directory or .tgz file
+ * @param {FHIRDefinitions} FHIRDefs - The FHIRDefinitions to load the package into
+ * @param {string} [cachePath=path.join(os.homedir(), '.fhir', 'packages')] - The path to copy the package into (default: user FHIR cache)
+ * @param {LogFunction} [log=() => {}] - A function for logging. Defaults to no-op.
+ * @param {LoadOptions} [options={}] - Additional options that control how the package is loaded
+ * @returns {Promise<FHIRDefinitions>} the loaded FHIRDefs
+ * @throws {LocalPackageLoadError} when the path does not contain a valid package
+ * @throws {CacheLockTimeoutError} when another process does not release the lock on the package in time
+ * @throws {LoadCancelledError} when the signal in the options is aborted
+ */
+export async function mergeLocalDependency(
+  packagePath: string,
+  FHIRDefs: FHIRDefinitions,
+  cachePath: string = path.join(os.homedir(), '.fhir', 'packages'),
+  log: LogFunction = () => {},
+  options: LoadOptions = {}
+): Promise<FHIRDefinitions> {
+  log = redactLog(log);
+  throwIfCancelled(options.signal);
+  const { onProgress } = options;
+  const resolvedPath = path.resolve(packagePath);
+  if (!fs.existsSync(resolvedPath)) {
+    throw new LocalPackageLoadError(packagePath, 'the file or directory does not exist');
+  }
+  const isTarball = !fs.statSync(resolvedPath).isDirectory();
+  // The directory the package is extracted or copied into before it is loaded or moved into the cache
+  const tempDirectory =
+    isTarball || options.cacheLocalPackages ? makeTempDirectory(cachePath) : null;
+  try {
+    let packageDirectory: string;
+    let integrity: string;
+    if (isTarball) {
+      const hash = crypto.createHash('sha512');
+      try {
+        await extractTarball(
+          fs.createReadStream(resolvedPath),
+          tempDirectory,
+          packagePath,
+          options,
+          chunk => hash.update(chunk)
+        );
+      } catch (e) {
+        if (e instanceof LoadCancelledError) {
+          throw e;
+        }
+        throw new LocalPackageLoadError(
+          packagePath,
+          `the file is not a valid package (${e.message})`
+        );
+      }
+      cleanCachedPackage(tempDirectory);
+      packageDirectory = findPackageDirectory(tempDirectory);
+      integrity = `sha512-${hash.digest('base64')}`;
+    } else {
+      packageDirectory = findPackageDirectory(resolvedPath);
+    }
+
+    const packageJSONPath = path.join(packageDirectory, 'package.json');
+    if (!fs.existsSync(packageJSONPath)) {
+      throw new LocalPackageLoadError(packagePath, 'it does not contain a package.json');
+    }
+    const { name, version } = fs.readJSONSync(packageJSONPath);
+    if (!name || !version) {
+      throw new LocalPackageLoadError(
+        packagePath,
+        'its package.json does not have a name and version'
+      );
+    }
+    const fullPackageName = `${name}#${version}`;
+    throwIfCancelled(options.signal);
+
+    let loadedPackage: LoadedPackage;
+    if (options.cacheLocalPackages) {
+      // Add or replace the package in the FHIR cache, which keeps a package's files in a package folder
+      const stagedPackageDirectory = path.join(tempDirectory, 'package');
+      if (!isTarball) {
+        fs.copySync(packageDirectory, stagedPackageDirectory);
+      } else if (packageDirectory !== stagedPackageDirectory) {
+        fs.readdirSync(tempDirectory).forEach(file =>
+          fs.moveSync(path.join(tempDirectory, file), path.join(stagedPackageDirectory, file))
+        );
+      }
+      const stagedPackage: StagedPackage = {
+        fullPackageName,
+        directory: tempDirectory,
+        metadata: { resolved: `${LOCAL_PACKAGE_PREFIX}${resolvedPath}`, integrity }
+      };
+      await withCacheLock(
+        cachePath,
+        fullPackageName,
+        async () => installPackage(stagedPackage, cachePath),
+        options,
+        log
+      );
+      log('info', `Copied ${fullPackageName} from ${packagePath} to ${cachePath}`);
+      loadedPackage = loadFromDirectory(
+        path.join(cachePath, fullPackageName, 'package'),
+        fullPackageName,
+        false,
+        onProgress
+      );
+    } else {
+      // Local packages are not in the cache, so the index is not written to the package directory
+      loadedPackage = loadFromDirectory(packageDirectory, fullPackageName, false, onProgress);
+      if (isTarball) {
+        // The extracted package is removed once it is loaded, so its definitions are read now
+        loadedPackage.defs.forEach(def => def.getDefinition());
+      }
+    }
+    merge(loadedPackage, FHIRDefs);
+    log('info', `Loaded package ${fullPackageName} from ${packagePath}`);
+    onProgress?.({ type: 'loaded', package: fullPackageName });
+    return FHIRDefs;
+  } finally {
+    if (tempDirectory) {
+      fs.removeSync(tempDirectory);
+    }
+  }
+}
+
+/**
+ * Loads the exact package recorded in a lockfile, downloading it from the recorded location if it is not
+ * already in the cache. The loaded package must match the lockfile; no other version is ever loaded.
+ * @param {string} packageName - The name of the package to load
+ * @param {LockedPackage} lockedPackage - The package recorded in the lockfile
+ * @param {FHIRDefinitions} FHIRDefs - The FHIRDefinitions to load the package into
+ * @param {string} [cachePath=path.join(os.homedir(), '.fhir', 'packages')] - The path to load the package into (default: user FHIR cache)
+ * @param {LogFunction} [log=() => {}] - A function for logging. Defaults to no-op.
+ * @param {LoadOptions} [options={}] - Additional options that control how the package is loaded
+ * @returns {Promise<FHIRDefinitions>} the loaded FHIRDefs
+ * @throws {LockfileMismatchError} when the package does not match the lockfile
+ * @throws {PackageLoadError} when the package can't be loaded
+ * @throws {CacheLockTimeoutError} when another process does not release the lock on a package in time
+ * @throws {LoadCancelledError} when the signal in the options is aborted
+ */
+export async function mergeLockedDependency(
+  packageName: string,
+  lockedPackage: LockedPackage,
+  FHIRDefs: FHIRDefinitions,
+  cachePath: string = path.join(os.homedir(), '.fhir', 'packages'),
+  log: LogFunction = () => {},
+  options: LoadOptions = {}
+): Promise<FHIRDefinitions> {
+  log = redactLog(log);
+  throwIfCancelled(options.signal);
+  const fullPackageName = `${packageName}#${lockedPackage.version}`;
+  log('info', `Checking ${cachePath} for ${fullPackageName}...`);
+  let loadedPackage = loadFromPath(cachePath, fullPackageName, options.onProgress);
+  if (loadedPackage) {
+    const metadata = readPackageMetadata(getCachedPackageDirectory(cachePath, fullPackageName));
+    if (
+      lockedPackage.integrity &&
+      metadata.integrity &&
+      metadata.integrity !== lockedPackage.integrity
+    ) {
+      throw new LockfileMismatchError(
+        fullPackageName,
+        `cached package integrity ${metadata.integrity} does not match locked integrity ${lockedPackage.integrity}`
+      );
+    }
+  } else if (options.offline) {
+    throw new OfflinePackageLoadError(fullPackageName, cachePath);
+  } else if (lockedPackage.resolved) {
+    await downloadPackage(
+      lockedPackage.resolved,
+      fullPackageName,
+      cachePath,
+      log,
+      lockedPackage.integrity,
+      null,
+      options
+    );
+    loadedPackage = loadFromPath(cachePath, fullPackageName, options.onProgress);
+  } else {
+    throw new LockfileMismatchError(
+      fullPackageName,
+      'the package is not cached and the lockfile does not record where to download it from'
+    );
+  }
+  if (!loadedPackage) {
+    throw new PackageLoadError(fullPackageName);
+  }
+  if (lockedPackage.date && loadedPackage.packageJson?.date !== lockedPackage.date) {
+    throw new LockfileMismatchError(
+      fullPackageName,
+      `package build date ${formatDate(
+        loadedPackage.packageJson?.date
+      )} does not match locked build date ${formatDate(lockedPackage.date)}`
+    );
+  }
+  merge(loadedPackage, FHIRDefs);
+  log('info', `Loaded package ${fullPackageName}`);
+  options.onProgress?.({ type: 'loaded', package: fullPackageName });
+  return FHIRDefs;
+}
+
+/**
+ * Downloads a package tarball and extracts it to the cache, replacing any existing copy of the package.
+ * The tarball is streamed directly into a temporary directory, which is then moved into the cache, so the
+ * package is never fully buffered in memory. The tarball is verified against the expected hashes before
+ * it is moved into the cache. The location and hashes of the tarball, along with a hash of its extracted
+ * files, are stored with the cached package. The package is locked in the cache while it is installed, so
+ * other processes sharing the cache wait for it rather than installing it at the same time. If this process
+ * has to wait for another process that installs the package, the package installed by that process is used.
+ * @param {string} url - The URL of the package tarball
+ * @param {string} fullPackageName - The package being downloaded (format: packageId#version)
+ * @param {string} cachePath - The path to the directory containing cached packages
+ * @param {LogFunction} log - A function for logging
+ * @param {string} [expectedIntegrity] - The integrity the tarball must have (e.g., from a lockfile)
+ * @param {PackageDist} [registryDist] - The hashes of the tarball listed in the registry manifest
+ * @param {LoadOptions} [options={}] - The timeout, retry, locking, cancellation, and progress settings for the download
+ * @returns {Promise<string>} the package that was added to the cache (format: packageId#version), or null if
+ * the download returned no data. When the version is a tarball URL, the version is read from the package.json.
+ * @throws {LockfileMismatchError} when the tarball does not have the expected integrity
+ * @throws {PackageIntegrityError} when the tarball does not match the hashes listed in the registry manifest
+ * @throws {PackageIdMismatchError} when a package requested by its tarball URL has a different id
+ * @throws {CacheLockTimeoutError} when another process does not release the lock on the package in time
+ * @throws {LoadCancelledError} when the signal in the request options is aborted, in which case any
+ * partially extracted files are removed
+ */
+async function downloadPackage(
+  url: string,
+  fullPackageName: string,
+  cachePath: string,
+  log: LogFunction,
+  expectedIntegrity?: string,
+  registryDist?: PackageDist,
+  options: LoadOptions = {}
+): Promise<string> {
+  if (isTarballUrl(fullPackageName.split('#')[1])) {
+    // The package isn't known until it is downloaded, so it is only locked while it is moved into the cache
+    const download = await limitDownloads(options, () =>
+      fetchPackage(url, fullPackageName, cachePath, log, expectedIntegrity, registryDist, options)
+    );
+    if (!download) {
+      return null;
+    }
+    await withCacheLock(
+      cachePath,
+      download.fullPackageName,
+      async () => installPackage(download, cachePath),
+      options,
+      log
+    );
+    return download.fullPackageName;
+  }
+  const requested = new Date().toISOString();
+  return withCacheLock(
+    cachePath,
+    fullPackageName,
+    async waited => {
+      if (waited) {
+        const metadata = readPackageMetadata(path.join(cachePath, fullPackageName));
+        if (
+          metadata.installed >= requested &&
+          (!expectedIntegrity || metadata.integrity === expectedIntegrity)
+        ) {
+          log('info', `Using ${fullPackageName}, which another process installed in ${cachePath}.`);
+          PackageCache.remove(fullPackageName);
+          return fullPackageName;
+        }
+      }
+      const download = await limitDownloads(options, () =>
+        fetchPackage(url, fullPackageName, cachePath, log, expectedIntegrity, registryDist, options)
+      );
+      if (!download) {
+        return null;
+      }
+      installPackage(download, cachePath);
+      return download.fullPackageName;
+    },
+    options,
+    log
+  );
+}
+
+// The download limit shared by every download that is made with the same load options, so that the packages
+// loaded by one call to loadDependencies are never downloaded more than maxParallelDownloads at a time
+const downloadLimiters = new WeakMap<LoadOptions, (download: () => Promise<any>) => Promise<any>>();
+
+/**
+ * Runs a download once fewer than maxParallelDownloads downloads with the same load options are running.
+ * Only downloads are limited, so packages that are already in the cache load without waiting.
+ * @param {LoadOptions} options - The load options, which set maxParallelDownloads
+ * @param {() => Promise<T>} download - The download to run
+ * @returns {Promise<T>} the result of the download
+ */
+function limitDownloads<T>(options: LoadOptions, download: () => Promise<T>): Promise<T> {
+  let limiter = downloadLimiters.get(options);
+  if (limiter == null) {
+    limiter = limitConcurrency(next => next(), options.maxParallelDownloads);
+    downloadLimiters.set(options, limiter);
+  }
+  return limiter(download);
+}
+
+/** A package that has been extracted or copied to a temporary directory, but not yet moved into its place in the cache */
+type StagedPackage = {
+  fullPackageName: string;
+  directory: string;
+  metadata: PackageMetadata;
+};
+
+/**
+ * Downloads a package tarball, verifies it, and extracts it to a temporary directory in the cache. See
+ * downloadPackage for a description of the parameters and errors.
+ * @returns {Promise<StagedPackage>} the extracted package, or null if the download returned no data
+ */
+async function fetchPackage(
+  url: string,
+  fullPackageName: string,
+  cachePath: string,
+  log: LogFunction,
+  expectedIntegrity?: string,
+  registryDist?: PackageDist,
+  options: LoadOptions = {}
+): Promise<StagedPackage> {
+  log('info', `Downloading ${fullPackageName}... ${url}`);
+  const fetcher = options.fetcher ?? defaultPackageFetcher;
+  const tarball = await fetcher.fetchTarball(url, fullPackageName, options, log);
+  if (!tarball?.stream) {
+    log('info', `Unable to download most current version of ${fullPackageName}`);
+    return null;
+  }
+  const { signal, onProgress } = options;
+  if (signal?.aborted) {
+    tarball.stream.destroy?.();
+    throw new LoadCancelledError();
+  }
+  const registryHash = getRegistryHash(registryDist);
+  // Stream the package through gunzip and tar into a temporary directory, hashing it along the way
+  const tempDirectory = makeTempDirectory(cachePath);
+  const hashes = new Map(
+    ['sha512', 'sha1', registryHash?.algorithm]
+      .filter(algorithm => algorithm != null)
+      .map(algorithm => [algorithm, crypto.createHash(algorithm)])
+  );
+  const totalBytes = tarball.size;
+  let bytes = 0;
+  await extractTarball(tarball.stream, tempDirectory, fullPackageName, options, chunk => {
+    hashes.forEach(hash => hash.update(chunk));
+    bytes += chunk.length;
+    onProgress?.({ type: 'download', package: fullPackageName, bytes, totalBytes });
+  });
+  log('info', `Downloaded ${fullPackageName}`);
+  const digests = new Map(Array.from(hashes, ([algorithm, hash]) => [algorithm, hash.digest()]));
+  const integrity = `sha512-${digests.get('sha512').toString('base64')}`;
+  const shasum = digests.get('sha1').toString('hex');
+  if (expectedIntegrity && integrity !== expectedIntegrity) {
+    fs.removeSync(tempDirectory);
+    throw new LockfileMismatchError(
+      fullPackageName,
+      `downloaded package integrity ${integrity} does not match locked integrity ${expectedIntegrity}`
+    );
+  }
+  if (registryHash) {
+    const actual = digests.get(registryHash.algorithm).toString(registryHash.encoding);
+    if (actual !== registryHash.digest) {
+      fs.removeSync(tempDirectory);
+      throw new PackageIntegrityError(
+        fullPackageName,
+        url,
+        `${registryHash.label}${registryHash.digest}`,
+        `${registryHash.label}${actual}`
+      );
+    }
+  } else if (registryDist) {
+    log(
+      'debug',
+      `The registry does not list a shasum or integrity for ${fullPackageName}, so the download cannot be verified.`
+    );
+  }
+  // Don't leave the extracted package behind if it can't be installed (e.g., it has no package.json)
+  try {
+    cleanCachedPackage(tempDirectory);
+    const [packageId, version] = fullPackageName.split('#');
+    if (isTarballUrl(version)) {
+      const packageJSON = fs.readJSONSync(
+        path.join(findPackageDirectory(tempDirectory), 'package.json')
+      );
+      if (packageJSON.name !== packageId) {
+        throw new PackageIdMismatchError(packageId, url, packageJSON.name);
+      }
+      fullPackageName = `${packageJSON.name}#${packageJSON.version}`;
+      log('info', `Package downloaded from ${url} is ${fullPackageName}`);
+    }
+    return {
+      fullPackageName,
+      directory: tempDirectory,
+      metadata: {
+        resolved: url,
+        registry: registryDist?.registry,
+        integrity,
+        shasum,
+        contentIntegrity: getContentIntegrity(tempDirectory)
+      }
+    };
+  } catch (e) {
+    fs.removeSync(tempDirectory);
+    throw e;
+  }
+}
+
+/**
+ * Streams a package tarball through gunzip and tar into a directory. The directory is removed if the
+ * extraction fails or the load is cancelled, so a partial extraction is never left behind.
+ * @param {Readable} stream - The tarball
+ * @param {string} directory - The directory to extract the package into
+ * @param {string} fullPackageName - The name of the package, used to report progress
+ * @param {LoadOptions} options - The load options, which provide the signal and progress callback
+ * @param {(chunk: Buffer) => void} [onData] - A function that is called with each chunk of the tarball
+ * @throws {LoadCancelledError} when the signal in the options is aborted
+ */
+async function extractTarball(
+  stream: Readable,
+  directory: string,
+  fullPackageName: string,
+  options: LoadOptions,
+  onData?: (chunk: Buffer) => void
+): Promise<void> {
+  const { signal, onProgress } = options;
+  let extractedFiles = 0;
+  const dataStream = new Transform({
+    transform(chunk, encoding, callback) {
+      onData?.(chunk);
+      callback(null, chunk);
+    }
+  });
+  // Stop reading the tarball when the load is cancelled
+  const stopListening = onCancel(signal, () => stream.destroy(new LoadCancelledError()));
+  try {
+    await pipeline(
+      stream,
+      dataStream,
+      zlib.createGunzip(),
+      tar.x({
+        cwd: directory,
+        strict: true,
+        onentry: () => {
+          extractedFiles++;
+          onProgress?.({ type: 'extract', package: fullPackageName, files: extractedFiles });
+        }
+      })
+    );
+  } catch (e) {
+    fs.removeSync(directory);
+    throw signal?.aborted ? new LoadCancelledError() : e;
+  } finally {
+    stopListening();
+  }
+}
+
+/**
+ * Creates a temporary directory in the cache to extract or copy a package into. Since the directory is on
+ * the same file system as the cache, the package can be moved into place all at once, so other processes
+ * never see a partially installed package.
+ * @param {string} cachePath - The path to the directory containing cached packages
+ * @returns {string} the path of the temporary directory
+ */
+function makeTempDirectory(cachePath: string): string {
+  fs.ensureDirSync(cachePath);
+  temp.track();
+  return temp.mkdirSync({ dir: cachePath, prefix: '.fpl-install-' });
+}
+
+/**
+ * Moves a package from its temporary directory into its place in the cache, replacing any existing copy of
+ * the package, and stores its metadata. The caller must hold the lock on the package.
+ * @param {StagedPackage} stagedPackage - The package to install
+ * @param {string} cachePath - The path to the directory containing cached packages
+ */
+function installPackage(stagedPackage: StagedPackage, cachePath: string): void {
+  const targetDirectory = path.join(cachePath, stagedPackage.fullPackageName);
+  if (fs.existsSync(targetDirectory)) {
+    fs.removeSync(targetDirectory);
+  }
+  fs.moveSync(stagedPackage.directory, targetDirectory);
+  writePackageMetadata(targetDirectory, {
+    ...stagedPackage.metadata,
+    installed: new Date().toISOString()
+  });
+  PackageCache.remove(stagedPackage.fullPackageName);
+}
+
+/**
+ * Finds the hash a downloaded tarball must match in the hashes listed in a registry manifest. The strongest
+ * supported integrity hash is preferred, falling back to the SHA-1 shasum.
+ * @param {PackageDist} [dist] - The hashes of the tarball listed in the registry manifest
+ * @returns the algorithm, encoding, and digest of the expected hash, along with a label used to report it,
+ * or null if the manifest does not list a supported hash
+ */
+function getRegistryHash(dist?: PackageDist): {
+  algorithm: string;
+  encoding: 'base64' | 'hex';
+  digest: string;
+  label: string;
+} {
+  // An integrity can list several hashes (e.g., "sha1-... sha512-..."), so use the strongest one
+  const integrities = (dist?.integrity ?? '').split(/\s+/).map(i => i.match(/^(sha\d+)-(.+)$/));
+  for (const algorithm of ['sha512', 'sha384', 'sha256', 'sha1']) {
+    const integrity = integrities.find(i => i?.[1] === algorithm);
+    if (integrity) {
+      return { algorithm, encoding: 'base64', digest: integrity[2], label: `${algorithm}-` };
+    }
+  }
+  if (dist?.shasum) {
+    return {
+      algorithm: 'sha1',
+      encoding: 'hex',
+      digest: dist.shasum.toLowerCase(),
+      label: 'shasum '
+    };
+  }
+  return null;
+}
+
+/**
+ * Determines if a cached current package should be checked for a newer build. The time each current package
+ * was last checked is stored with the package, so it is only checked again once the TTL has passed, unless
+ * a refresh is forced.
+ * @param {string} cachePath - The path to the directory containing cached packages
+ * @param {string} fullPackageName - The current package (format: packageId#current)
+ * @param {LoadOptions} options - The TTL and whether to force a refresh
+ * @returns {boolean} true if the package should be checked for a newer build
+ */
+function isCurrentPackageRefreshNeeded(
+  cachePath: string,
+  fullPackageName: string,
+  options: LoadOptions
+): boolean {
+  if (options.refresh) {
+    return true;
+  }
+  const { checked } = readPackageMetadata(path.join(cachePath, fullPackageName));
+  const ttl = options.currentPackageTTL ?? DEFAULT_CURRENT_PACKAGE_TTL;
+  // A missing or invalid time is treated as never checked
+  return !(Date.now() - Date.parse(checked) < ttl);
+}
+
+/**
+ * Records that a cached current package was just checked for a newer build
+ * @param {string} cachePath - The path to the directory containing cached packages
+ * @param {string} fullPackageName - The current package (format: packageId#current)
+ */
+function markCurrentPackageChecked(cachePath: string, fullPackageName: string): void {
+  const packageDirectory = path.join(cachePath, fullPackageName);
+  if (fs.existsSync(packageDirectory)) {
+    writePackageMetadata(packageDirectory, {
+      ...readPackageMetadata(packageDirectory),
+      checked: new Date().toISOString()
+    });
+  }
+}
+
 /**
  * This function takes a package which contains contents at the same level as the "package" folder, and nests
  * all that content within the "package" folder.
@@ -377,6 +1536,15 @@ export function cleanCachedPackage(packageDirectory: string): void {
   }
 }
 
+/**
+ * Forgets the definitions of a package that were loaded by this process, so that the package is read from
+ * the cache again (or downloaded, if it has been removed from the cache) the next time it is loaded
+ * @param {string} fullPackageName - The package to forget (format: packageId#version)
+ */
+export function clearLoadedPackage(fullPackageName: string): void {
+  PackageCache.remove(fullPackageName.toLowerCase());
+}
+
 export function merge(pkg: LoadedPackage, defs: FHIRDefinitions): void {
   pkg.defs.forEach(d => defs.add(d));
   defs.addPackageJson(pkg.package, pkg.packageJson);
@@ -387,9 +1555,14 @@ export function merge(pkg: LoadedPackage, defs: FHIRDefinitions): void {
  * Locates the targetPackage within the cachePath
  * @param {string} cachePath - The path to the directory containing cached packages
  * @param {string} targetPackage - The name of the package we are trying to load
+ * @param {ProgressCallback} [onProgress] - A function that is called as the package's files are indexed
  * @returns {LoadedPackage} loaded package definitions
  */
-export function loadFromPath(cachePath: string, targetPackage: string): LoadedPackage {
+export function loadFromPath(
+  cachePath: string,
+  targetPackage: string,
+  onProgress?: ProgressCallback
+): LoadedPackage {
   if (PackageCache.contains(targetPackage)) {
     return PackageCache.get(targetPackage);
   }
@@ -398,52 +1571,67 @@ export function loadFromPath(cachePath: string, targetPackage: string): LoadedPa
   if (!cachedPackage) {
     return null;
   }
+  const result = loadFromDirectory(
+    path.join(cachePath, cachedPackage, 'package'),
+    targetPackage,
+    true,
+    onProgress
+  );
+  PackageCache.put(targetPackage, result);
+  return result;
+}
+
+/**
+ * Loads the definitions in a package directory using the package's index, so that each definition is only
+ * read from its file when it is first needed. See getPackageIndex for how the index is read or generated.
+ * @param {string} packageDirectory - The directory containing the package's JSON files
+ * @param {string} targetPackage - The name of the package (format: packageId#version)
+ * @param {boolean} [writeIndex=true] - Whether to write a generated index to the package's .fpl-index.json
+ * @param {ProgressCallback} [onProgress] - A function that is called as the package's files are indexed
+ * @returns {LoadedPackage} loaded package definitions
+ */
+function loadFromDirectory(
+  packageDirectory: string,
+  targetPackage: string,
+  writeIndex = true,
+  onProgress?: ProgressCallback
+): LoadedPackage {
   const result = new LoadedPackage();
   result.package = targetPackage;
-  fs.readdirSync(path.join(cachePath, cachedPackage, 'package'))
-    .filter(file => file.endsWith('.json'))
-    .forEach(file => {
-      const def = JSON.parse(
-        fs.readFileSync(path.join(cachePath, cachedPackage, 'package', file), 'utf-8').trim()
-      );
-      result.defs.push(def);
-      if (file === 'package.json') {
-        result.packageJson = def;
-      }
-    });
-  PackageCache.put(targetPackage, result);
+  const packageJSONPath = path.join(packageDirectory, 'package.json');
+  if (fs.existsSync(packageJSONPath)) {
+    result.packageJson = JSON.parse(fs.readFileSync(packageJSONPath, 'utf-8').trim());
+  }
+  const reportParsed = (files: number, totalFiles: number) =>
+    onProgress?.({ type: 'parse', package: targetPackage, files, totalFiles });
+  getPackageIndex(packageDirectory, writeIndex, reportParsed).files.forEach(entry => {
+    result.defs.push(
+      new LazyDefinition(entry, path.join(packageDirectory, entry.filename), targetPackage)
+    );
+  });
   return result;
 }
 
 export async function lookUpLatestVersion(
   packageName: string,
-  log: LogFunction = () => {}
+  log: LogFunction = () => {},
+  options: FetchOptions = {}
 ): Promise<string> {
-  const customRegistry = getCustomRegistry(log);
-  let res: AxiosResponse;
+  log = redactLog(log);
+  const registries = getPackageRegistries(packageName, log);
+  const customRegistry = registries.join(', ') || undefined;
+  let manifest: any;
   try {
-    if (customRegistry) {
-      res = await axiosGet(`${customRegistry.replace(/\/$/, '')}/${packageName}`, {
-        responseType: 'json'
-      });
-    } else {
-      try {
-        res = await axiosGet(`https://packages.fhir.org/${packageName}`, {
-          responseType: 'json'
-        });
-      } catch (e) {
-        // Fallback to trying packages2.fhir.org
-        res = await axiosGet(`https://packages2.fhir.org/packages/${packageName}`, {
-          responseType: 'json'
-        });
-      }
+    manifest = await getFromRegistry(packageName, registries, options, log);
+  } catch (e) {
+    if (e instanceof LoadCancelledError) {
+      throw e;
     }
-  } catch {
     throw new LatestVersionUnavailableError(packageName, customRegistry);
   }
 
-  if (res?.data?.['dist-tags']?.latest?.length) {
-    return res.data['dist-tags'].latest;
+  if (manifest?.['dist-tags']?.latest?.length) {
+    return manifest['dist-tags'].latest;
   } else {
     throw new LatestVersionUnavailableError(packageName, customRegistry);
   }
@@ -452,36 +1640,27 @@ export async function lookUpLatestVersion(
 export async function lookUpLatestPatchVersion(
   packageName: string,
   version: string,
-  log: LogFunction = () => {}
+  log: LogFunction = () => {},
+  options: FetchOptions = {}
 ): Promise<string> {
+  log = redactLog(log);
   if (!/^\d+\.\d+\.x$/.test(version)) {
     throw new IncorrectWildcardVersionFormatError(packageName, version);
   }
-  const customRegistry = getCustomRegistry(log);
-  let res: AxiosResponse;
+  const registries = getPackageRegistries(packageName, log);
+  const customRegistry = registries.join(', ') || undefined;
+  let manifest: any;
   try {
-    if (customRegistry) {
-      res = await axiosGet(`${customRegistry.replace(/\/$/, '')}/${packageName}`, {
-        responseType: 'json'
-      });
-    } else {
-      try {
-        res = await axiosGet(`https://packages.fhir.org/${packageName}`, {
-          responseType: 'json'
-        });
-      } catch (e) {
-        // Fallback to trying packages2.fhir.org
-        res = await axiosGet(`https://packages2.fhir.org/packages/${packageName}`, {
-          responseType: 'json'
-        });
-      }
+    manifest = await getFromRegistry(packageName, registries, options, log);
+  } catch (e) {
+    if (e instanceof LoadCancelledError) {
+      throw e;
     }
-  } catch {
     throw new LatestVersionUnavailableError(packageName, customRegistry, true);
   }
 
-  if (res?.data?.versions) {
-    const versions = Object.keys(res.data.versions);
+  if (manifest?.versions) {
+    const versions = Object.keys(manifest.versions);
     const latest = maxSatisfying(versions, version);
     if (latest == null) {
       throw new LatestVersionUnavailableError(packageName, customRegistry, true);
@@ -492,6 +1671,395 @@ export async function lookUpLatestPatchVersion(
   }
 }
 
+/**
+ * Finds the highest version of a package in the FHIR package registry that satisfies a semver range.
+ * Pre-release versions (e.g., 2.0.0-ballot) are only considered when the range itself includes a
+ * pre-release version on the same major.minor.patch (e.g., >=2.0.0-ballot).
+ * @param {string} packageName - The name of the package
+ * @param {string} range - The semver range to satisfy (e.g., ^6.1.0, ~3.1.0, >=4.0.0 <5, 4.x, or *)
+ * @param {LogFunction} log - The function used to log messages
+ * @param {FetchOptions} [options={}] - The timeout and retry settings for registry requests
+ * @returns {Promise<string>} the highest version that satisfies the range
+ * @throws {LatestVersionUnavailableError} when the registry cannot be reached or no version satisfies the range
+ */
+export async function lookUpLatestSatisfyingVersion(
+  packageName: string,
+  range: string,
+  log: LogFunction = () => {},
+  options: FetchOptions = {}
+): Promise<string> {
+  log = redactLog(log);
+  const registries = getPackageRegistries(packageName, log);
+  const customRegistry = registries.join(', ') || undefined;
+  let manifest: any;
+  try {
+    manifest = await getFromRegistry(packageName, registries, options, log);
+  } catch (e) {
+    if (e instanceof LoadCancelledError) {
+      throw e;
+    }
+    throw new LatestVersionUnavailableError(packageName, customRegistry, false, range);
+  }
+
+  const versions = Object.keys(manifest?.versions ?? {});
+  const latest = maxSatisfying(versions, range);
+  if (latest == null) {
+    throw new LatestVersionUnavailableError(packageName, customRegistry, false, range);
+  }
+  return latest;
+}
+
+/**
+ * Gets the information about a package from the FHIR package registry, including each published version and
+ * whether that version is already in the cache. The registry is chosen the same way it is when packages are
+ * loaded: the custom registries in FPL_REGISTRY that the package matches, in order, or packages.fhir.org
+ * (falling back to packages2.fhir.org).
+ * @param {string} packageName - The name of the package
+ * @param {string} [cachePath=path.join(os.homedir(), '.fhir', 'packages')] - The path to the directory containing cached packages
+ * @param {LogFunction} [log=() => {}] - The function used to log messages
+ * @param {FetchOptions} [options={}] - The timeout and retry settings for registry requests
+ * @returns {Promise<PackageInfo>} the information about the package, with its versions from newest to oldest
+ * @throws {PackageInfoUnavailableError} when the registry cannot be reached or does not have the package
+ * @throws {LoadCancelledError} when the signal in the options is aborted
+ */
+export async function getPackageInfo(
+  packageName: string,
+  cachePath: string = path.join(os.homedir(), '.fhir', 'packages'),
+  log: LogFunction = () => {},
+  options: FetchOptions = {}
+): Promise<PackageInfo> {
+  log = redactLog(log);
+  const registries = getPackageRegistries(packageName, log);
+  const customRegistry = registries.join(', ') || undefined;
+  let manifest: any;
+  try {
+    manifest = await getFromRegistry(packageName, registries, options, log);
+  } catch (e) {
+    if (e instanceof LoadCancelledError) {
+      throw e;
+    }
+    throw new PackageInfoUnavailableError(packageName, customRegistry);
+  }
+  if (manifest?.versions == null || typeof manifest.versions !== 'object') {
+    throw new PackageInfoUnavailableError(packageName, customRegistry);
+  }
+
+  const cachedVersions = getCachedVersions(packageName, cachePath);
+  const versionInfos: PackageVersionInfo[] = Object.entries<any>(manifest.versions).map(
+    ([version, entry]) => {
+      const versionInfo: PackageVersionInfo = {
+        version,
+        cached: cachedVersions.includes(version)
+      };
+      const date = entry?.date ?? manifest.time?.[version];
+      if (date) {
+        versionInfo.date = date;
+      }
+      const fhirVersions =
+        entry?.fhirVersions ??
+        entry?.['fhir-version-list'] ??
+        (entry?.fhirVersion ? [entry.fhirVersion] : undefined);
+      if (fhirVersions) {
+        versionInfo.fhirVersions = fhirVersions;
+      }
+      if (entry?.canonical) {
+        versionInfo.canonical = entry.canonical;
+      }
+      if (entry?.dependencies) {
+        versionInfo.dependencies = entry.dependencies;
+      }
+      return versionInfo;
+    }
+  );
+  // Newest versions first, followed by any versions that aren't valid semver in the order they were listed
+  const versions = [
+    ...versionInfos
+      .filter(v => valid(v.version) != null)
+      .sort((a, b) => rcompare(a.version, b.version)),
+    ...versionInfos.filter(v => valid(v.version) == null)
+  ];
+
+  const distTags: { [tag: string]: string } = manifest['dist-tags'] ?? {};
+  const latest = versions.find(v => v.version === distTags.latest) ?? versions[0];
+  const info: PackageInfo = {
+    name: manifest.name ?? packageName,
+    distTags,
+    versions
+  };
+  const description = manifest.description ?? manifest.versions[latest?.version]?.description;
+  if (description) {
+    info.description = description;
+  }
+  if (latest?.canonical) {
+    info.canonical = latest.canonical;
+  }
+  return info;
+}
+
+/**
+ * Searches the catalog of the FHIR package registry for packages. The catalog is searched in the custom
+ * registries in FPL_REGISTRY that are not limited to a scope, in order, or if there are none, in packages.fhir.org
+ * (falling back to packages2.fhir.org). When the catalog does not list the latest version of a package, it is
+ * looked up.
+ * @param {string} name - The text to find in the package ids (e.g., us.core)
+ * @param {LogFunction} [log=() => {}] - The function used to log messages
+ * @param {SearchOptions} [options={}] - The filters for the search, and the timeout and retry settings for registry requests
+ * @returns {Promise<PackageSearchResult[]>} the matching packages, in the order the catalog listed them
+ * @throws {PackageSearchUnavailableError} when the registry's catalog cannot be searched
+ * @throws {LoadCancelledError} when the signal in the options is aborted
+ */
+export async function searchPackages(
+  name: string,
+  log: LogFunction = () => {},
+  options: SearchOptions = {}
+): Promise<PackageSearchResult[]> {
+  log = redactLog(log);
+  // The catalog is searched in the registries that are not limited to a scope of package ids
+  const registries = getRegistries(log)
+    .filter(registry => registry.scope == null)
+    .map(registry => registry.url);
+  const customRegistry = registries.join(', ') || undefined;
+  const query = new URLSearchParams();
+  if (name) {
+    query.set('name', name);
+  }
+  if (options.canonical) {
+    query.set('canonical', options.canonical);
+  }
+  if (options.fhirVersion) {
+    query.set('fhirversion', options.fhirVersion);
+  }
+  let catalog: any;
+  try {
+    catalog = await getFromRegistry(`catalog?${query}`, registries, options, log);
+  } catch (e) {
+    if (e instanceof LoadCancelledError) {
+      throw e;
+    }
+    throw new PackageSearchUnavailableError(name, customRegistry);
+  }
+  if (!Array.isArray(catalog)) {
+    throw new PackageSearchUnavailableError(name, customRegistry);
+  }
+
+  const limit = options.limit ?? DEFAULT_SEARCH_LIMIT;
+  // Registries differ in the case of the catalog's property names (e.g., Name or name)
+  const results: PackageSearchResult[] = catalog
+    .slice(0, limit > 0 ? limit : undefined)
+    .map((entry: any) => {
+      const result: PackageSearchResult = { id: entry.name ?? entry.Name };
+      const version = entry.version ?? entry.Version;
+      const fhirVersion = entry.fhirVersion ?? entry.FhirVersion;
+      const description = entry.description ?? entry.Description;
+      const canonical = entry.canonical ?? entry.Canonical;
+      if (version) {
+        result.version = version;
+      }
+      if (fhirVersion) {
+        result.fhirVersion = fhirVersion;
+      }
+      if (description) {
+        result.description = description;
+      }
+      if (canonical) {
+        result.canonical = canonical;
+      }
+      return result;
+    })
+    .filter((result: PackageSearchResult) => result.id);
+
+  const lookUpVersion = limitConcurrency(async (result: PackageSearchResult) => {
+    try {
+      // using the exported function here to allow for easier mocking in tests
+      result.version = await exports.lookUpLatestVersion(result.id, log, options);
+    } catch (e) {
+      if (e instanceof LoadCancelledError) {
+        throw e;
+      }
+      log('debug', `Could not look up the latest version of ${result.id}: ${e.message}`);
+    }
+  }, MAX_PARALLEL_VERSION_LOOKUPS);
+  await Promise.all(results.filter(result => !result.version).map(lookUpVersion));
+  return results;
+}
+
+/**
+ * Requests a resource from the custom registries, if any are given, or from packages.fhir.org (falling back
+ * to packages2.fhir.org). The custom registries are tried in order, and the next registry is only tried when a
+ * registry does not have the resource. The resource can be the information about a package (including its
+ * versions and dist-tags) or the registry's catalog.
+ * @param {string} resource - The path of the resource, relative to the registry (e.g., hl7.fhir.us.core)
+ * @param {string[]} customRegistries - The URLs of the custom registries to use, in priority order
+ * @param {FetchOptions} options - The timeout and retry settings for the requests
+ * @param {LogFunction} log - The function used to log messages
+ * @returns {Promise<any>} the resource
+ */
+async function getFromRegistry(
+  resource: string,
+  customRegistries: string[],
+  options: FetchOptions,
+  log: LogFunction
+): Promise<any> {
+  const fetcher = options.fetcher ?? defaultPackageFetcher;
+  for (let i = 0; i < customRegistries.length; i++) {
+    try {
+      return await fetcher.fetchManifest(customRegistries[i], resource, options, log);
+    } catch (e) {
+      if (!isNotFoundError(e)) {
+        throw e;
+      }
+      // When none of the custom registries have the resource, the public registries are tried
+      log(
+        'debug',
+        `${resource} was not found in ${customRegistries[i]}, so ${
+          customRegistries[i + 1] ?? 'https://packages.fhir.org'
+        } will be tried.`
+      );
+    }
+  }
+  try {
+    return await fetcher.fetchManifest('https://packages.fhir.org', resource, options, log);
+  } catch (e) {
+    if (e instanceof LoadCancelledError) {
+      throw e;
+    }
+    // Fallback to trying packages2.fhir.org
+    return fetcher.fetchManifest('https://packages2.fhir.org/packages', resource, options, log);
+  }
+}
+
+/**
+ * Finds the highest version of a package in the cache that satisfies a semver range
+ * @param {string} packageName - The name of the package
+ * @param {string} range - The semver range to satisfy
+ * @param {string} cachePath - The path to the directory containing cached packages
+ * @returns {string} the highest cached version that satisfies the range, or null if there is none
+ */
+function findCachedVersion(packageName: string, range: string, cachePath: string): string {
+  return maxSatisfying(getCachedVersions(packageName, cachePath), range);
+}
+
+/**
+ * Finds the version of a package in the cache that was downloaded from a tarball URL. The cache records the
+ * URL each package was downloaded from, so a package requested by its tarball URL is only downloaded once.
+ * @param {string} packageName - The name of the package
+ * @param {string} url - The tarball URL the package was requested by
+ * @param {string} cachePath - The path to the directory containing cached packages
+ * @returns {string} the most recently installed version downloaded from the URL, or null if there is none
+ */
+function findCachedTarballVersion(packageName: string, url: string, cachePath: string): string {
+  const downloads = getCachedVersions(packageName, cachePath)
+    .map(version => ({
+      version,
+      metadata: readPackageMetadata(
+        getCachedPackageDirectory(cachePath, `${packageName}#${version}`)
+      )
+    }))
+    .filter(({ metadata }) => metadata.resolved === url)
+    .sort((a, b) => (b.metadata.installed ?? '').localeCompare(a.metadata.installed ?? ''));
+  return downloads[0]?.version ?? null;
+}
+
+/**
+ * Gets the versions of a package in the cache
+ * @param {string} packageName - The name of the package
+ * @param {string} cachePath - The path to the directory containing cached packages
+ * @returns {string[]} the cached versions of the package (including versions such as current)
+ */
+function getCachedVersions(packageName: string, cachePath: string): string[] {
+  if (!fs.existsSync(cachePath)) {
+    return [];
+  }
+  const prefix = `${packageName.toLowerCase()}#`;
+  return fs
+    .readdirSync(cachePath)
+    .filter(file => file.toLowerCase().startsWith(prefix) && !file.endsWith('.lock'))
+    .map(file => file.slice(prefix.length));
+}
+
+/**
+ * Determines if a version is the URL of a package tarball (e.g., https://example.org/pkg.tgz) rather than a version
+ * @param {string} version - The version to check
+ * @returns {boolean} true if the version is a tarball URL
+ */
+function isTarballUrl(version: string): boolean {
+  return /^https?:\/\//.test(version ?? '');
+}
+
+/**
+ * Finds the directory containing a package's package.json, which is either the "package" folder in the
+ * provided directory (as in a package tarball or the cache) or the provided directory itself
+ * @param {string} directory - The directory containing the package
+ * @returns {string} the package directory
+ */
+function findPackageDirectory(directory: string): string {
+  const nestedDirectory = path.join(directory, 'package');
+  return fs.existsSync(path.join(nestedDirectory, 'package.json')) ? nestedDirectory : directory;
+}
+
+/** A version of a package, as listed in the FHIR package registry */
+export type PackageVersionInfo = {
+  version: string;
+  // The date the version was published
+  date?: string;
+  // The FHIR versions the version is for (e.g., ["4.0.1"])
+  fhirVersions?: string[];
+  // The canonical URL of the version's IG
+  canonical?: string;
+  // Maps the id of each package the version depends on to the version it depends on
+  dependencies?: { [packageId: string]: string };
+  // Whether the version is already in the cache
+  cached: boolean;
+};
+
+/** A package found by searching the catalog of the FHIR package registry */
+export type PackageSearchResult = {
+  id: string;
+  // The latest version of the package
+  version?: string;
+  // The FHIR version the package is for (e.g., R4)
+  fhirVersion?: string;
+  description?: string;
+  // The canonical URL of the package's IG
+  canonical?: string;
+};
+
+export type SearchOptions = FetchOptions & {
+  // Only find packages with this canonical URL
+  canonical?: string;
+  // Only find packages for this FHIR version (e.g., R4 or 4.0.1)
+  fhirVersion?: string;
+  // The maximum number of packages to return (default: 50). There is no limit if this is not a positive number.
+  limit?: number;
+};
+
+/** The information about a package in the FHIR package registry */
+export type PackageInfo = {
+  name: string;
+  description?: string;
+  // The canonical URL of the package's IG, from the latest version
+  canonical?: string;
+  // Maps each tag (e.g., latest) to the version it refers to
+  distTags: { [tag: string]: string };
+  // The published versions, from newest to oldest
+  versions: PackageVersionInfo[];
+};
+
+export type LoadOptions = FetchOptions &
+  CacheLockOptions & {
+    recursive?: boolean;
+    conflictPolicy?: ConflictPolicy;
+    lockfile?: string;
+    frozenLockfile?: boolean;
+    cacheLocalPackages?: boolean;
+    verifyCache?: boolean;
+    maxParallelDownloads?: number;
+    onProgress?: ProgressCallback;
+    currentPackageTTL?: number;
+    refresh?: boolean;
+    offline?: boolean;
+  };
+
 /**
  * Takes a date in format YYYYMMDDHHmmss and converts to YYYY-MM-DDTHH:mm:ss
  * @param {string} date - The date to format
@@ -0,0 +1,111 @@
+import fs from 'fs-extra';
+import { DependencyResolution, LOCAL_PACKAGE_PREFIX } from './dependencies';
+import { FHIRDefinitions } from './FHIRDefinitions';
+import {
+  getCachedPackageDirectory,
+  PackageMetadata,
+  readPackageMetadata
+} from './utils/packageMetadata';
+
+export const DEFAULT_LOCKFILE = 'fpl-lock.json';
+
+/** The exact package that was loaded for a requested package */
+export type LockedPackage = {
+  // The concrete version that was loaded (e.g., 6.1.0 for a request of latest)
+  version: string;
+  // The URL the package tarball was downloaded from
+  resolved?: string;
+  // The registry the package was downloaded from, if it was downloaded from a registry
+  registry?: string;
+  // The Subresource Integrity hash of the package tarball
+  integrity?: string;
+  // The build date (YYYYMMDDHHmmss) of a current package
+  date?: string;
+};
+
+/**
+ * Finds where a cached package that has no stored metadata (e.g., one that another tool added to the cache)
+ * can be downloaded from, along with the integrity of its tarball
+ */
+export type PackageLocator = (fullPackageName: string) => Promise<PackageMetadata>;
+
+export type Lockfile = {
+  lockfileVersion: number;
+  // Maps each requested package (format: packageId#version) to the package that was loaded for it
+  packages: { [fhirPackage: string]: LockedPackage };
+};
+
+/**
+ * Creates a lockfile that records the packages loaded for each requested package
+ * @param {DependencyResolution} resolution - The resolution of the requested packages
+ * @param {FHIRDefinitions[]} fhirDefs - The FHIRDefinitions of each loaded package
+ * @param {string} cachePath - The path to the directory containing cached packages
+ * @param {PackageLocator} [locatePackage] - Finds the location and integrity of a cached package that has no
+ * stored metadata. Without it, only the version of such a package is recorded.
+ * @returns {Promise<Lockfile>} the lockfile
+ */
+export async function createLockfile(
+  resolution: DependencyResolution,
+  fhirDefs: FHIRDefinitions[],
+  cachePath: string,
+  locatePackage?: PackageLocator
+): Promise<Lockfile> {
+  const loadedDefs = new Map(
+    fhirDefs.filter(defs => !defs.unsuccessfulPackageLoad).map(defs => [defs.package, defs])
+  );
+  const packages: Lockfile['packages'] = {};
+  const requestedPackages = Array.from(resolution.resolved.keys()).sort();
+  for (const requested of requestedPackages) {
+    const loaded = resolution.resolved.get(requested);
+    if (!loadedDefs.has(loaded)) {
+      continue;
+    }
+    const version = loaded.split('#')[1];
+    const isCurrent = /^current(\$.+)?$/.test(version);
+    // Local packages are loaded from their own path rather than the cache
+    let metadata = requested.startsWith(LOCAL_PACKAGE_PREFIX)
+      ? { resolved: requested }
+      : readPackageMetadata(getCachedPackageDirectory(cachePath, loaded));
+    // Current and dev packages are built rather than published, so they can't be located in a registry
+    if (!metadata.resolved && !isCurrent && version !== 'dev' && locatePackage) {
+      metadata = await locatePackage(loaded);
+    }
+    packages[requested] = { version };
+    if (metadata.resolved) {
+      packages[requested].resolved = metadata.resolved;
+    }
+    if (metadata.registry) {
+      packages[requested].registry = metadata.registry;
+    }
+    if (metadata.integrity) {
+      packages[requested].integrity = metadata.integrity;
+    }
+    if (isCurrent) {
+      packages[requested].date = loadedDefs.get(loaded).getPackageJson(loaded)?.date;
+    }
+  }
+  return { lockfileVersion: 1, packages };
+}
+
+/**
+ * Reads a lockfile
+ * @param {string} lockfilePath - The path to the lockfile
+ * @returns {Lockfile} the lockfile
+ * @throws when the lockfile does not exist or is not a valid lockfile
+ */
+export function readLockfile(lockfilePath: string): Lockfile {
+  const lockfile = fs.readJSONSync(lockfilePath);
+  if (lockfile?.packages == null || typeof lockfile.packages !== 'object') {
+    throw new Error(`${lockfilePath} is not a valid lockfile`);
+  }
+  return lockfile;
+}
+
+/**
+ * Writes a lockfile
+ * @param {string} lockfilePath - The path to write the lockfile to
+ * @param {Lockfile} lockfile - The lockfile to write
+ */
+export function writeLockfile(lockfilePath: string, lockfile: Lockfile): void {
+  fs.writeJSONSync(lockfilePath, lockfile, { spaces: 2 });
+}
@@ -0,0 +1,174 @@
+import os from 'os';
+import path from 'path';
+import { gt, maxSatisfying, rcompare, valid } from 'semver';
+import { listCachedPackages } from './cache';
+import { LoadCancelledError } from './errors';
+import { FetchOptions } from './fetcher';
+import { getPackageInfo, loadDependencies, LoadOptions } from './load';
+import { LogFunction } from './utils';
+
+/** A package that has newer releases in the FHIR package registry */
+export type OutdatedPackage = {
+  id: string;
+  // The cached or requested version of the package
+  current: string;
+  // The newest release with the same major and minor version, if it is newer than the current version
+  patch?: string;
+  // The newest release with the same major version, if it is newer than the current version
+  minor?: string;
+  // The latest release, if it is newer than the current version
+  latest?: string;
+};
+
+/** Which releases an update can move a package to */
+export type UpdatePolicy = 'patch' | 'minor' | 'major';
+
+export type UpdateOptions = LoadOptions & {
+  // The newest kind of release to update to (default: minor)
+  policy?: UpdatePolicy;
+  // Report the updates that would be made without installing anything
+  dryRun?: boolean;
+};
+
+/** A package that was updated to a newer version */
+export type PackageUpdate = {
+  id: string;
+  from: string;
+  to: string;
+  // Whether the new version was installed. It is not installed in a dry run or when it fails to load.
+  installed: boolean;
+};
+
+export const UPDATE_POLICIES: UpdatePolicy[] = ['patch', 'minor', 'major'];
+
+/**
+ * Finds the packages that have newer patch, minor, or major releases in the FHIR package registry. The
+ * versions of each package are looked up in the registry the same way they are for getPackageInfo.
+ * @param {string[]} [fhirPackages=[]] - The packages to check (format: packageId#version). If none are given,
+ * the newest cached version of each package in the cache is checked.
+ * @param {string} [cachePath=path.join(os.homedir(), '.fhir', 'packages')] - The path to the directory containing cached packages
+ * @param {LogFunction} [log=() => {}] - A function for logging
+ * @param {FetchOptions} [options={}] - The timeout and retry settings for registry requests
+ * @returns {Promise<OutdatedPackage[]>} the packages that have newer releases, in the order they were given
+ * @throws {LoadCancelledError} when the signal in the options is aborted
+ */
+export async function findOutdatedPackages(
+  fhirPackages: string[] = [],
+  cachePath: string = path.join(os.homedir(), '.fhir', 'packages'),
+  log: LogFunction = () => {},
+  options: FetchOptions = {}
+): Promise<OutdatedPackage[]> {
+  const packages = fhirPackages.length > 0 ? fhirPackages : getInstalledPackages(cachePath);
+  const outdatedPackages: OutdatedPackage[] = [];
+  for (const fhirPackage of packages) {
+    const [id, current] = fhirPackage.split('#');
+    if (valid(current) == null) {
+      log('debug', `Skipping ${fhirPackage}, since ${current} is not a release version.`);
+      continue;
+    }
+    let versions: string[];
+    let latest: string;
+    try {
+      const info = await getPackageInfo(id, cachePath, log, options);
+      versions = info.versions.map(v => v.version);
+      latest = info.distTags.latest ?? maxSatisfying(versions, '*');
+    } catch (e) {
+      if (e instanceof LoadCancelledError) {
+        throw e;
+      }
+      log('warn', `Could not check ${fhirPackage} for newer releases: ${e.message}`);
+      continue;
+    }
+    const [major, minor] = current.split('.');
+    const outdatedPackage: OutdatedPackage = { id, current };
+    const patchVersion = maxSatisfying(versions, `${major}.${minor}.x`);
+    const minorVersion = maxSatisfying(versions, `${major}.x`);
+    if (patchVersion && gt(patchVersion, current)) {
+      outdatedPackage.patch = patchVersion;
+    }
+    if (minorVersion && gt(minorVersion, current)) {
+      outdatedPackage.minor = minorVersion;
+    }
+    if (valid(latest) && gt(latest, current)) {
+      outdatedPackage.latest = latest;
+    }
+    if (outdatedPackage.patch || outdatedPackage.minor || outdatedPackage.latest) {
+      outdatedPackages.push(outdatedPackage);
+    }
+  }
+  return outdatedPackages;
+}
+
+/**
+ * Updates packages to the newest release allowed by the update policy, and installs the new versions in the
+ * cache. The current versions are left in the cache.
+ * @param {string[]} [fhirPackages=[]] - The packages to update (format: packageId#version). If none are given,
+ * the newest cached version of each package in the cache is updated.
+ * @param {string} [cachePath=path.join(os.homedir(), '.fhir', 'packages')] - The path to the directory containing cached packages
+ * @param {LogFunction} [log=() => {}] - A function for logging
+ * @param {UpdateOptions} [options={}] - The update policy, and the options for loading the new versions
+ * @returns {Promise<PackageUpdate[]>} the updates that were made (or would be made, in a dry run)
+ * @throws {LoadCancelledError} when the signal in the options is aborted
+ */
+export async function updatePackages(
+  fhirPackages: string[] = [],
+  cachePath: string = path.join(os.homedir(), '.fhir', 'packages'),
+  log: LogFunction = () => {},
+  options: UpdateOptions = {}
+): Promise<PackageUpdate[]> {
+  const { policy = 'minor', dryRun, ...loadOptions } = options;
+  const outdatedPackages = await findOutdatedPackages(fhirPackages, cachePath, log, loadOptions);
+  const updates: PackageUpdate[] = outdatedPackages
+    .map(outdatedPackage => ({
+      id: outdatedPackage.id,
+      from: outdatedPackage.current,
+      to:
+        policy === 'patch'
+          ? outdatedPackage.patch
+          : policy === 'minor'
+          ? outdatedPackage.minor
+          : outdatedPackage.latest,
+      installed: false
+    }))
+    .filter(update => update.to != null);
+  if (updates.length === 0) {
+    log('info', `All packages are up to date with the newest ${policy} releases.`);
+    return [];
+  }
+  if (dryRun) {
+    updates.forEach(update =>
+      log('info', `Would update ${update.id} ${update.from} to ${update.to}.`)
+    );
+    return updates;
+  }
+  const newPackages = updates.map(update => `${update.id}#${update.to}`);
+  const defs = await loadDependencies(newPackages, cachePath, log, loadOptions);
+  const failedPackages = defs.allUnsuccessfulPackageLoads();
+  updates.forEach(update => {
+    update.installed = !failedPackages.includes(`${update.id}#${update.to}`);
+    if (update.installed) {
+      log('info', `Updated ${update.id} ${update.from} to ${update.to}.`);
+    }
+  });
+  return updates;
+}
+
+/**
+ * Gets the newest cached release of each package in the cache
+ * @param {string} cachePath - The path to the directory containing cached packages
+ * @returns {string[]} the newest release of each package (format: packageId#version)
+ */
+function getInstalledPackages(cachePath: string): string[] {
+  const newestVersions = new Map<string, string>();
+  listCachedPackages(cachePath)
+    .filter(p => p.problems.length === 0 && valid(p.version) != null)
+    .sort((a, b) => rcompare(a.version, b.version))
+    .forEach(p => {
+      if (!newestVersions.has(p.id)) {
+        newestVersions.set(p.id, p.version);
+      }
+    });
+  return Array.from(newestVersions.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([id, version]) => `${id}#${version}`);
+}
@@ -0,0 +1,19 @@
+/**
+ * Describes the progress of loading a package. Packages use the format packageId#version.
+ * - resolve-start: the version of a requested package is being resolved (e.g., looking up latest)
+ * - resolve-end: the requested package resolved to resolvedPackage. If a dev package is not cached, this
+ *   is reported again when it falls back to the current package.
+ * - download: bytes of the package have been downloaded, out of totalBytes (if the server reports it)
+ * - extract: files of the package have been extracted from the downloaded tarball
+ * - parse: files of the package have been indexed, out of totalFiles
+ * - loaded: the package has been loaded
+ */
+export type LoadProgressEvent =
+  | { type: 'resolve-start'; package: string }
+  | { type: 'resolve-end'; package: string; resolvedPackage: string }
+  | { type: 'download'; package: string; bytes: number; totalBytes?: number }
+  | { type: 'extract'; package: string; files: number }
+  | { type: 'parse'; package: string; files: number; totalFiles: number }
+  | { type: 'loaded'; package: string };
+
+export type ProgressCallback = (event: LoadProgressEvent) => void;
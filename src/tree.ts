@@ -0,0 +1,302 @@
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { maxSatisfying } from 'semver';
+import {
+  DependencyResolution,
+  findPackageConflicts,
+  isVersionRange,
+  PackageConflict
+} from './dependencies';
+import { FHIRDefinitions } from './FHIRDefinitions';
+
+/** A package in a dependency tree */
+export type DependencyTreeNode = {
+  // The package as it was requested or declared as a dependency (e.g., hl7.fhir.r4.core#4.0.x)
+  requested: string;
+  // The package the request resolved to, or undefined if no package satisfies it
+  package?: string;
+  // Whether the package is in the cache, was loaded into a FHIRDefinitions, or is missing
+  status: 'cached' | 'loaded' | 'missing';
+  // Whether another version of the same package is also in the tree
+  conflict: boolean;
+  // Whether the package was already shown earlier in the tree, so its dependencies are not repeated
+  deduped?: boolean;
+  // Whether the package depends on itself through this path, so its dependencies are not followed
+  circular?: boolean;
+  dependencies: DependencyTreeNode[];
+};
+
+/** The transitive dependencies of a set of packages */
+export type DependencyTree = {
+  roots: DependencyTreeNode[];
+  // Every package that is in the tree with more than one version
+  conflicts: PackageConflict[];
+};
+
+/**
+ * Gets the dependency tree of packages in the cache by reading the "dependencies" in the package.json of each
+ * cached package. Nothing is downloaded, so dependencies that are not in the cache are marked as missing. A
+ * version range or latest resolves to the newest cached version that satisfies it.
+ * @param {string[]} fhirPackages - The packages at the roots of the tree (format: packageId#version)
+ * @param {string} [cachePath=path.join(os.homedir(), '.fhir', 'packages')] - The path to the directory containing cached packages
+ * @returns {DependencyTree} the dependency tree
+ */
+export function getDependencyTree(
+  fhirPackages: string[],
+  cachePath: string = path.join(os.homedir(), '.fhir', 'packages')
+): DependencyTree {
+  const cachedPackages = fs.existsSync(cachePath)
+    ? fs
+        .readdirSync(cachePath, { withFileTypes: true })
+        .filter(entry => entry.isDirectory() && entry.name.includes('#'))
+        .map(entry => entry.name)
+    : [];
+  const getDependencies = (pkg: string): string[] => {
+    try {
+      return toPackageList(
+        fs.readJSONSync(path.join(cachePath, pkg, 'package', 'package.json')).dependencies
+      );
+    } catch {
+      return [];
+    }
+  };
+  return buildDependencyTree(fhirPackages, cachedPackages, getDependencies, 'cached');
+}
+
+/**
+ * Gets the dependency tree of the packages that were loaded into a FHIRDefinitions, using the "dependencies"
+ * in the package.json of each loaded package. The roots of the tree are the loaded packages that no other
+ * loaded package depends on. Dependencies that were not loaded (e.g., because the packages were not loaded
+ * with the recursive option, or failed to load) are marked as missing.
+ * @param {FHIRDefinitions} defs - The FHIRDefinitions the packages were loaded into
+ * @returns {DependencyTree} the dependency tree
+ */
+export function getLoadedDependencyTree(defs: FHIRDefinitions): DependencyTree {
+  const failedPackages = defs.allUnsuccessfulPackageLoads();
+  const loadedPackages = defs.allPackages().filter(pkg => !failedPackages.includes(pkg));
+  const getDependencies = (pkg: string): string[] =>
+    toPackageList(findPackageJson(defs, pkg)?.dependencies);
+  const dependedOn = new Set<string>();
+  loadedPackages.forEach(pkg =>
+    getDependencies(pkg).forEach(dep => {
+      const resolved = resolvePackage(dep, loadedPackages);
+      if (resolved && resolved !== pkg) {
+        dependedOn.add(resolved);
+      }
+    })
+  );
+  const roots = loadedPackages.filter(pkg => !dependedOn.has(pkg));
+  // When every package is part of a cycle, no package is a natural root
+  return buildDependencyTree(
+    roots.length > 0 ? roots : loadedPackages,
+    loadedPackages,
+    getDependencies,
+    'loaded'
+  );
+}
+
+/**
+ * Formats a dependency tree as indented text, with the status of each package
+ * @param {DependencyTree} tree - The dependency tree
+ * @returns {string} the tree as text
+ */
+export function formatDependencyTree(tree: DependencyTree): string {
+  const lines: string[] = [];
+  const addNode = (node: DependencyTreeNode, prefix: string, childPrefix: string) => {
+    lines.push(`${prefix}${describeNode(node)}`);
+    node.dependencies.forEach((dep, i) => {
+      const last = i === node.dependencies.length - 1;
+      addNode(
+        dep,
+        `${childPrefix}${last ? '└── ' : '├── '}`,
+        `${childPrefix}${last ? '    ' : '│   '}`
+      );
+    });
+  };
+  tree.roots.forEach(root => addNode(root, '', ''));
+  return lines.join('\n');
+}
+
+/**
+ * Formats a dependency tree as a Graphviz DOT graph. Each package is a single node, missing packages are
+ * dashed, and packages in conflict are red.
+ * @param {DependencyTree} tree - The dependency tree
+ * @returns {string} the graph in the DOT language
+ */
+export function formatDependencyGraph(tree: DependencyTree): string {
+  const nodes = new Map<string, DependencyTreeNode>();
+  const edges = new Set<string>();
+  const quote = (id: string) => JSON.stringify(id);
+  const addNode = (node: DependencyTreeNode) => {
+    const id = node.package ?? node.requested;
+    if (!nodes.has(id)) {
+      nodes.set(id, node);
+    }
+    node.dependencies.forEach(dep => {
+      edges.add(`  ${quote(id)} -> ${quote(dep.package ?? dep.requested)};`);
+      addNode(dep);
+    });
+  };
+  tree.roots.forEach(addNode);
+  const lines = ['digraph dependencies {'];
+  nodes.forEach((node, id) => {
+    const attributes = [`label=${quote(`${id}\n${getMarks(node).join(', ')}`)}`];
+    if (node.status === 'missing') {
+      attributes.push('style=dashed');
+    }
+    if (node.conflict) {
+      attributes.push('color=red');
+    }
+    lines.push(`  ${quote(id)} [${attributes.join(', ')}];`);
+  });
+  lines.push(...edges, '}');
+  return lines.join('\n');
+}
+
+/**
+ * Builds a dependency tree by following the dependencies of each package from the roots
+ * @param {string[]} roots - The packages at the roots of the tree (format: packageId#version)
+ * @param {string[]} availablePackages - The packages that requests can resolve to
+ * @param {(pkg: string) => string[]} getDependencies - Gets the dependencies of an available package
+ * @param {'cached' | 'loaded'} availableStatus - The status of packages that are available
+ * @returns {DependencyTree} the dependency tree
+ */
+function buildDependencyTree(
+  roots: string[],
+  availablePackages: string[],
+  getDependencies: (pkg: string) => string[],
+  availableStatus: 'cached' | 'loaded'
+): DependencyTree {
+  const resolution: DependencyResolution = {
+    roots,
+    resolved: new Map(),
+    dependencies: new Map()
+  };
+  const queue = [...roots];
+  while (queue.length > 0) {
+    const requested = queue.shift();
+    if (resolution.resolved.has(requested)) {
+      continue;
+    }
+    const pkg = resolvePackage(requested, availablePackages);
+    if (pkg == null) {
+      continue;
+    }
+    resolution.resolved.set(requested, pkg);
+    if (!resolution.dependencies.has(pkg)) {
+      const dependencies = getDependencies(pkg);
+      resolution.dependencies.set(pkg, dependencies);
+      queue.push(...dependencies);
+    }
+  }
+
+  const conflicts = findPackageConflicts(resolution);
+  const conflictIds = new Set(conflicts.map(c => c.packageId));
+  const expanded = new Set<string>();
+  const buildNode = (requested: string, ancestors: string[]): DependencyTreeNode => {
+    const pkg = resolution.resolved.get(requested);
+    const node: DependencyTreeNode = {
+      requested,
+      status: pkg ? availableStatus : 'missing',
+      conflict: conflictIds.has((pkg ?? requested).split('#')[0]),
+      dependencies: []
+    };
+    if (pkg == null) {
+      return node;
+    }
+    node.package = pkg;
+    if (ancestors.includes(pkg)) {
+      node.circular = true;
+    } else if (expanded.has(pkg)) {
+      node.deduped = true;
+    } else {
+      expanded.add(pkg);
+      node.dependencies = resolution.dependencies
+        .get(pkg)
+        .map(dep => buildNode(dep, [...ancestors, pkg]));
+    }
+    return node;
+  };
+  return { roots: roots.map(root => buildNode(root, [])), conflicts };
+}
+
+/**
+ * Resolves a requested package to one of the available packages. An exact version resolves to the same
+ * version, while a version range or latest resolves to the newest available version that satisfies it.
+ * @param {string} requested - The requested package (format: packageId#version)
+ * @param {string[]} availablePackages - The available packages (format: packageId#version)
+ * @returns {string} the available package, or undefined if none satisfies the request
+ */
+function resolvePackage(requested: string, availablePackages: string[]): string {
+  const [id, version] = requested.toLowerCase().split('#');
+  const candidates = availablePackages.filter(pkg => pkg.toLowerCase().startsWith(`${id}#`));
+  const exactMatch = candidates.find(pkg => pkg.toLowerCase() === `${id}#${version}`);
+  if (exactMatch) {
+    return exactMatch;
+  }
+  const range = version === 'latest' ? '*' : version;
+  if (isVersionRange(range)) {
+    const versions = candidates.map(pkg => pkg.slice(id.length + 1));
+    const satisfyingVersion = maxSatisfying(versions, range);
+    if (satisfyingVersion) {
+      return candidates[versions.indexOf(satisfyingVersion)];
+    }
+  }
+}
+
+/**
+ * Finds the package.json of a package loaded into a FHIRDefinitions or any of its children
+ * @param {FHIRDefinitions} defs - The FHIRDefinitions to search
+ * @param {string} pkg - The package (format: packageId#version)
+ * @returns {any} the package.json, or undefined if it was not loaded
+ */
+function findPackageJson(defs: FHIRDefinitions, pkg: string): any {
+  return (
+    defs.getPackageJson(pkg) ??
+    defs.childFHIRDefs.reduce((found, child) => found ?? findPackageJson(child, pkg), undefined)
+  );
+}
+
+/**
+ * Converts the "dependencies" of a package.json to a list of packages
+ * @param {{ [packageId: string]: string }} dependencies - Maps each dependency's id to its version
+ * @returns {string[]} the dependencies (format: packageId#version)
+ */
+function toPackageList(dependencies: { [packageId: string]: string }): string[] {
+  return Object.entries(dependencies ?? {}).map(([id, version]) => `${id}#${version}`);
+}
+
+/**
+ * Describes a node in a dependency tree, including the version that was requested when it differs
+ * @param {DependencyTreeNode} node - The node
+ * @returns {string} the description
+ */
+function describeNode(node: DependencyTreeNode): string {
+  const requestedVersion = node.requested.split('#')[1];
+  const resolvedVersion = node.package?.split('#')[1];
+  const label =
+    node.package && resolvedVersion.toLowerCase() !== requestedVersion?.toLowerCase()
+      ? `${node.package} (requested ${requestedVersion})`
+      : node.package ?? node.requested;
+  return `${label} [${getMarks(node).join(', ')}]`;
+}
+
+/**
+ * Gets the marks that describe the status of a node in a dependency tree
+ * @param {DependencyTreeNode} node - The node
+ * @returns {string[]} the marks (e.g., ["cached", "conflict"])
+ */
+function getMarks(node: DependencyTreeNode): string[] {
+  const marks: string[] = [node.status];
+  if (node.conflict) {
+    marks.push('conflict');
+  }
+  if (node.deduped) {
+    marks.push('deduped');
+  }
+  if (node.circular) {
+    marks.push('circular');
+  }
+  return marks;
+}
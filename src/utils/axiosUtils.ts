@@ -1,28 +1,217 @@
 import axios, { AxiosRequestConfig, AxiosResponse } from 'axios';
+import fs from 'fs-extra';
+import { ClientRequest } from 'http';
+import HttpProxyAgent from 'http-proxy-agent';
+import https from 'https';
 import HttpsProxyAgent from 'https-proxy-agent';
+import tls from 'tls';
+import { parse as parseUrl } from 'url';
+import { LoadCancelledError } from '../errors/LoadCancelledError';
+import { onCancel, throwIfCancelled, wait } from './cancellation';
+import { LogFunction } from './logger';
+import { getProxyForUrl, hasProxyVariables, isHttpUrl } from './proxy';
+import { getRegistryAuthorization } from './registryAuth';
+
+/** Options that control how requests to package registries and build servers are made */
+export type RequestOptions = {
+  // The number of milliseconds to wait for a response before a request fails (default: no timeout)
+  timeout?: number;
+  // The number of times to retry a request that fails with a transient error (default: 3)
+  retries?: number;
+  // The number of milliseconds to wait before the first retry, doubled for each later retry (default: 1000)
+  retryDelay?: number;
+  // A signal that cancels the request (and any retries) when it is aborted
+  signal?: AbortSignal;
+  // The path to a PEM file of certificate authorities to trust in addition to the default ones
+  caFile?: string;
+};
+
+export const DEFAULT_RETRIES = 3;
+export const DEFAULT_RETRY_DELAY = 1000;
+
+// Responses with these statuses may succeed if the request is made again
+const TRANSIENT_STATUSES = [408, 429, 500, 502, 503, 504];
+const TRANSIENT_ERROR_CODES = [
+  'ECONNABORTED',
+  'ECONNREFUSED',
+  'ECONNRESET',
+  'EAI_AGAIN',
+  'EPIPE',
+  'ETIMEDOUT'
+];
+
+// The certificate authorities to trust for each CA file, so each file is only read once
+const certificateAuthorities = new Map<string, string[]>();
+
+/** An HttpsProxyAgent that trusts additional certificate authorities for the hosts it connects to */
+class TrustingHttpsProxyAgent extends HttpsProxyAgent.HttpsProxyAgent {
+  private ca: string[];
+
+  constructor(proxy: string, ca: string[]) {
+    super({ ...parseUrl(proxy), ca });
+    this.ca = ca;
+  }
+
+  callback(req: ClientRequest, opts: any) {
+    // The options for the connection to the host only have the certificate authorities given to the request
+    return super.callback(req, { ...opts, ca: this.ca });
+  }
+}
 
 /**
  * This function is called to better handle axios.get calls with logic that allows
  * the use of proxies. Not needed in tests unless specifically testing with proxies.
  * Check https://github.com/axios/axios/issues/3459#issuecomment-766171276 for more info.
+ * The proxy for each request is chosen by getProxyForUrl, and the certificate authorities in the
+ * caFile of the request options are trusted along with the default ones.
+ * Requests that fail with a transient error (e.g., a 502 response or a reset connection) are retried
+ * with exponential backoff, waiting as long as the Retry-After header of a 429 or 503 response asks.
+ * Requests to a URL with registry credentials (see getRegistryAuthorization) are authenticated.
+ * When the signal in the request options is aborted, the request is cancelled and a LoadCancelledError
+ * is thrown.
  * @param url {string} - string representation of url to get
  * @param responseType {any} - optional parameter to change the data type needed from get
  * (ex. arraybuffer). In default it returns JSON
+ * @param requestOptions {RequestOptions} - optional timeout and retry settings
+ * @param log {LogFunction} - optional function used to log each retry
  */
 export async function axiosGet(
   url: string,
-  options?: AxiosRequestConfig
+  options?: AxiosRequestConfig,
+  requestOptions: RequestOptions = {},
+  log: LogFunction = () => {}
 ): Promise<AxiosResponse<any>> {
-  const httpsProxy = process.env.HTTPS_PROXY;
+  const proxy = getProxyForUrl(url);
+  const ca = requestOptions.caFile ? getCertificateAuthorities(requestOptions.caFile) : undefined;
   const axiosOptions = options ?? {};
-  if (httpsProxy) {
+  if (proxy && isHttpUrl(url)) {
+    axiosOptions.httpAgent = new (HttpProxyAgent as any)(ca ? { ...parseUrl(proxy), ca } : proxy);
+  } else if (proxy) {
     // https://github.com/axios/axios/issues/3459
-    axiosOptions.httpsAgent = new (HttpsProxyAgent as any)(httpsProxy);
+    axiosOptions.httpsAgent = ca
+      ? new TrustingHttpsProxyAgent(proxy, ca)
+      : new (HttpsProxyAgent as any)(proxy);
+  } else if (ca && !isHttpUrl(url)) {
+    axiosOptions.httpsAgent = new https.Agent({ ca });
+  }
+  if (proxy || hasProxyVariables()) {
+    // axios would otherwise use the proxy environment variables itself, ignoring FPL_REGISTRY_PROXY_<HOST>
     axiosOptions.proxy = false;
   }
-  if (Object.keys(axiosOptions).length > 0) {
-    return await axios.get(url, axiosOptions);
-  } else {
-    return await axios.get(url);
+  if (requestOptions.timeout != null) {
+    axiosOptions.timeout = requestOptions.timeout;
+  }
+  const authorization = getRegistryAuthorization(url);
+  if (authorization) {
+    axiosOptions.headers = { ...axiosOptions.headers, Authorization: authorization };
+  }
+  const { signal } = requestOptions;
+  const retries = requestOptions.retries ?? DEFAULT_RETRIES;
+  for (let attempt = 1; ; attempt++) {
+    throwIfCancelled(signal);
+    let stopListening = () => {};
+    if (signal) {
+      const cancelSource = axios.CancelToken.source();
+      axiosOptions.cancelToken = cancelSource.token;
+      stopListening = onCancel(signal, () => cancelSource.cancel());
+    }
+    try {
+      if (Object.keys(axiosOptions).length > 0) {
+        return await axios.get(url, axiosOptions);
+      } else {
+        return await axios.get(url);
+      }
+    } catch (e) {
+      if (signal?.aborted || axios.isCancel(e)) {
+        throw new LoadCancelledError();
+      } else if (attempt > retries || !isTransientError(e)) {
+        throw e;
+      }
+      const delay = getRetryDelay(e, attempt, requestOptions.retryDelay ?? DEFAULT_RETRY_DELAY);
+      log(
+        'info',
+        `Request to ${url} failed (${describeError(e)}). Retrying in ${
+          delay / 1000
+        } seconds (retry ${attempt} of ${retries})...`
+      );
+      await wait(delay, signal);
+    } finally {
+      stopListening();
+    }
+  }
+}
+
+/**
+ * Gets the certificate authorities to trust when a CA file is used, which are the default certificate
+ * authorities and the ones in the file
+ * @param {string} caFile - The path to a PEM file of certificate authorities
+ * @returns {string[]} the certificate authorities
+ * @throws {Error} when the CA file cannot be read
+ */
+function getCertificateAuthorities(caFile: string): string[] {
+  if (!certificateAuthorities.has(caFile)) {
+    let certificates: string;
+    try {
+      certificates = fs.readFileSync(caFile, 'utf8');
+    } catch (e) {
+      throw new Error(`Could not read the CA file ${caFile}: ${e.message}`);
+    }
+    certificateAuthorities.set(caFile, [...tls.rootCertificates, certificates]);
+  }
+  return certificateAuthorities.get(caFile);
+}
+
+/**
+ * Determines if a request failed because the server does not have the requested resource
+ * @param {any} error - The error thrown by axios
+ * @returns {boolean} true if the response was a 404
+ */
+export function isNotFoundError(error: any): boolean {
+  return error?.response?.status === 404;
+}
+
+/**
+ * Determines if a failed request may succeed if it is made again
+ * @param {any} error - The error thrown by axios
+ * @returns {boolean} true if the request should be retried
+ */
+function isTransientError(error: any): boolean {
+  if (error?.response) {
+    return TRANSIENT_STATUSES.includes(error.response.status);
+  }
+  return TRANSIENT_ERROR_CODES.includes(error?.code);
+}
+
+/**
+ * Determines how long to wait before retrying a failed request. A 429 or 503 response with a Retry-After
+ * header (in seconds or as an HTTP date) is honoured; otherwise the delay doubles with each attempt.
+ * @param {any} error - The error thrown by axios
+ * @param {number} attempt - The number of the attempt that failed (starting at 1)
+ * @param {number} retryDelay - The number of milliseconds to wait before the first retry
+ * @returns {number} the number of milliseconds to wait
+ */
+function getRetryDelay(error: any, attempt: number, retryDelay: number): number {
+  const retryAfter = error?.response?.headers?.['retry-after'];
+  if ([429, 503].includes(error?.response?.status) && retryAfter != null) {
+    if (/^\d+$/.test(retryAfter)) {
+      return parseInt(retryAfter) * 1000;
+    }
+    const retryDate = Date.parse(retryAfter);
+    if (!isNaN(retryDate)) {
+      return Math.max(retryDate - Date.now(), 0);
+    }
+  }
+  return retryDelay * 2 ** (attempt - 1);
+}
+
+/**
+ * Describes why a request failed, for logging
+ * @param {any} error - The error thrown by axios
+ * @returns {string} the response status or error code
+ */
+function describeError(error: any): string {
+  if (error?.response) {
+    return `status ${error.response.status}`;
   }
+  return error?.code ?? error?.message;
 }
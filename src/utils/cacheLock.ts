@@ -0,0 +1,217 @@
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { CacheLockTimeoutError } from '../errors/CacheLockTimeoutError';
+import { throwIfCancelled, wait } from './cancellation';
+import { LogFunction } from './logger';
+
+/** Options that control how long to wait for another process to release a lock */
+export type CacheLockOptions = {
+  // The number of milliseconds to wait for a lock held by another process (default: 10 minutes)
+  lockTimeout?: number;
+  // A signal that stops waiting for the lock when it is aborted
+  signal?: AbortSignal;
+};
+
+/** The contents of a lock file, which identify the process that holds the lock */
+type LockOwner = {
+  pid: number;
+  hostname: string;
+  created: string;
+};
+
+export const DEFAULT_LOCK_TIMEOUT = 10 * 60 * 1000;
+// How often the process holding a lock touches the lock file to show that it is still working
+const HEARTBEAT_INTERVAL = 5000;
+// A lock file that has not been touched for this long was left behind by a process that stopped
+const STALE_LOCK_AGE = 60 * 1000;
+// How often a waiting process checks if a lock has been released
+const POLL_INTERVAL = 100;
+
+/**
+ * Gets the path of the lock file for a package in the cache. Lock files are kept next to the package
+ * directory (e.g., ~/.fhir/packages/hl7.fhir.r4.core#4.0.1.lock), as the IG Publisher does.
+ * @param {string} cachePath - The path to the directory containing cached packages
+ * @param {string} fullPackageName - The package to lock (format: packageId#version)
+ * @returns {string} the path of the lock file
+ */
+export function getLockPath(cachePath: string, fullPackageName: string): string {
+  return path.join(cachePath, `${fullPackageName}.lock`);
+}
+
+/**
+ * Runs a function while holding an advisory lock on a package in the cache, so that other processes
+ * using the same cache do not install or remove the package at the same time. If another process holds
+ * the lock, this waits until it is released. A lock left behind by a process that has stopped (e.g., one
+ * that crashed) is detected and removed.
+ * @param {string} cachePath - The path to the directory containing cached packages
+ * @param {string} fullPackageName - The package to lock (format: packageId#version)
+ * @param {(waited: boolean) => Promise<T>} fn - The function to run. It is told whether the lock was held
+ * by another process when it was first requested, in which case the package may have just been installed.
+ * @param {CacheLockOptions} [options={}] - How long to wait for the lock
+ * @param {LogFunction} [log=() => {}] - A function for logging
+ * @returns {Promise<T>} the result of the function
+ * @throws {CacheLockTimeoutError} when the lock is not released before the lock timeout
+ * @throws {LoadCancelledError} when the signal in the options is aborted while waiting
+ */
+export async function withCacheLock<T>(
+  cachePath: string,
+  fullPackageName: string,
+  fn: (waited: boolean) => Promise<T>,
+  options: CacheLockOptions = {},
+  log: LogFunction = () => {}
+): Promise<T> {
+  const lockPath = getLockPath(cachePath, fullPackageName);
+  const lockTimeout = options.lockTimeout ?? DEFAULT_LOCK_TIMEOUT;
+  fs.ensureDirSync(cachePath);
+  const start = Date.now();
+  let waited = false;
+  while (!tryLock(lockPath)) {
+    throwIfCancelled(options.signal);
+    const owner = readLockOwner(lockPath);
+    if (isStale(lockPath, owner)) {
+      log(
+        'warn',
+        `Removing the lock on ${fullPackageName} left behind by a process that is no longer running (${lockPath}).`
+      );
+      removeLock(lockPath, owner);
+      continue;
+    }
+    if (!waited) {
+      log(
+        'info',
+        `Waiting for another process${
+          owner ? ` (pid ${owner.pid} on ${owner.hostname})` : ''
+        } to finish installing ${fullPackageName}...`
+      );
+      waited = true;
+    }
+    if (Date.now() - start >= lockTimeout) {
+      throw new CacheLockTimeoutError(fullPackageName, lockPath, lockTimeout);
+    }
+    await wait(POLL_INTERVAL, options.signal);
+  }
+  // Touch the lock file regularly so other processes can tell this process is still working
+  const heartbeat = setInterval(() => {
+    try {
+      const now = new Date();
+      fs.utimesSync(lockPath, now, now);
+    } catch {
+      // The next heartbeat will try again
+    }
+  }, HEARTBEAT_INTERVAL);
+  heartbeat.unref?.();
+  try {
+    return await fn(waited);
+  } finally {
+    clearInterval(heartbeat);
+    unlock(lockPath);
+  }
+}
+
+/**
+ * Creates a lock file if one does not already exist. Creating the file fails if it already exists, so only
+ * one process can create it.
+ * @param {string} lockPath - The path of the lock file
+ * @returns {boolean} true if the lock file was created
+ */
+function tryLock(lockPath: string): boolean {
+  const owner: LockOwner = {
+    pid: process.pid,
+    hostname: os.hostname(),
+    created: new Date().toISOString()
+  };
+  let fd: number;
+  try {
+    fd = fs.openSync(lockPath, 'wx');
+  } catch (e) {
+    if (e.code === 'EEXIST') {
+      return false;
+    }
+    throw e;
+  }
+  try {
+    fs.writeSync(fd, JSON.stringify(owner));
+  } finally {
+    fs.closeSync(fd);
+  }
+  return true;
+}
+
+/**
+ * Reads the process that holds a lock
+ * @param {string} lockPath - The path of the lock file
+ * @returns {LockOwner} the process that holds the lock, or null if the lock file is missing or has not
+ * been written yet
+ */
+function readLockOwner(lockPath: string): LockOwner {
+  try {
+    return JSON.parse(fs.readFileSync(lockPath, 'utf8'));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Determines if a lock was left behind by a process that is no longer running. A lock held by a process
+ * on this machine is stale as soon as that process stops. Since processes on other machines that share
+ * the cache can't be checked, their locks are only stale once they stop being touched.
+ * @param {string} lockPath - The path of the lock file
+ * @param {LockOwner} owner - The process that holds the lock
+ * @returns {boolean} true if the lock is stale
+ */
+function isStale(lockPath: string, owner: LockOwner): boolean {
+  let modified: number;
+  try {
+    modified = fs.statSync(lockPath).mtimeMs;
+  } catch {
+    // The lock was just released
+    return false;
+  }
+  if (owner?.hostname === os.hostname() && owner.pid !== process.pid && !isRunning(owner.pid)) {
+    return true;
+  }
+  return Date.now() - modified > STALE_LOCK_AGE;
+}
+
+/**
+ * Determines if a process is running on this machine
+ * @param {number} pid - The id of the process
+ * @returns {boolean} true if the process is running
+ */
+function isRunning(pid: number): boolean {
+  try {
+    // Signal 0 checks that the process exists without affecting it
+    process.kill(pid, 0);
+    return true;
+  } catch (e) {
+    // EPERM means the process exists but belongs to another user
+    return e.code === 'EPERM';
+  }
+}
+
+/**
+ * Removes a stale lock, unless another process has replaced it with a new lock in the meantime
+ * @param {string} lockPath - The path of the lock file
+ * @param {LockOwner} staleOwner - The process that held the stale lock
+ */
+function removeLock(lockPath: string, staleOwner: LockOwner): void {
+  const owner = readLockOwner(lockPath);
+  if (owner?.pid === staleOwner?.pid && owner?.created === staleOwner?.created) {
+    unlock(lockPath);
+  }
+}
+
+/**
+ * Removes a lock file, if it still exists
+ * @param {string} lockPath - The path of the lock file
+ */
+function unlock(lockPath: string): void {
+  try {
+    fs.unlinkSync(lockPath);
+  } catch (e) {
+    if (e.code !== 'ENOENT') {
+      throw e;
+    }
+  }
+}
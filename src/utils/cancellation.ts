@@ -0,0 +1,52 @@
+import { LoadCancelledError } from '../errors/LoadCancelledError';
+
+// The AbortSignal in the Node.js 14 typings does not declare the EventTarget methods it supports
+type AbortSignalTarget = AbortSignal & {
+  addEventListener(type: 'abort', listener: () => void, options?: { once?: boolean }): void;
+  removeEventListener(type: 'abort', listener: () => void): void;
+};
+
+/**
+ * Throws a LoadCancelledError if a signal has been aborted
+ * @param {AbortSignal} [signal] - The signal to check
+ * @throws {LoadCancelledError} when the signal has been aborted
+ */
+export function throwIfCancelled(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new LoadCancelledError();
+  }
+}
+
+/**
+ * Calls a function when a signal is aborted
+ * @param {AbortSignal} [signal] - The signal to listen to. Nothing is called if there is no signal.
+ * @param {() => void} listener - The function to call
+ * @returns {() => void} a function that stops listening to the signal
+ */
+export function onCancel(signal: AbortSignal, listener: () => void): () => void {
+  if (signal == null) {
+    return () => {};
+  }
+  const target = signal as AbortSignalTarget;
+  target.addEventListener('abort', listener, { once: true });
+  return () => target.removeEventListener('abort', listener);
+}
+
+/**
+ * Waits for a number of milliseconds, stopping early if a signal is aborted
+ * @param {number} delay - The number of milliseconds to wait
+ * @param {AbortSignal} [signal] - The signal that stops the wait
+ * @throws {LoadCancelledError} when the signal is aborted
+ */
+export function wait(delay: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const stopListening = onCancel(signal, () => {
+      clearTimeout(timer);
+      reject(new LoadCancelledError());
+    });
+    const timer = setTimeout(() => {
+      stopListening();
+      resolve();
+    }, delay);
+  });
+}
@@ -0,0 +1,36 @@
+/**
+ * Wraps an async function so that no more than a maximum number of calls to it run at the same time.
+ * Calls beyond the maximum wait, in the order they were made, until an earlier call settles.
+ * @param {(...args: A) => Promise<R>} fn - The function to wrap
+ * @param {number} [maxConcurrent] - The maximum number of calls to run at once. There is no limit if this
+ * is not a positive number.
+ * @returns {(...args: A) => Promise<R>} the wrapped function
+ */
+export function limitConcurrency<A extends any[], R>(
+  fn: (...args: A) => Promise<R>,
+  maxConcurrent?: number
+): (...args: A) => Promise<R> {
+  if (!(maxConcurrent > 0)) {
+    return fn;
+  }
+  let running = 0;
+  const waiting: (() => void)[] = [];
+  return async (...args: A) => {
+    if (running >= maxConcurrent) {
+      await new Promise<void>(resolve => waiting.push(resolve));
+    } else {
+      running++;
+    }
+    try {
+      return await fn(...args);
+    } finally {
+      // Hand this call's slot directly to the next waiting call, if there is one
+      const next = waiting.shift();
+      if (next) {
+        next();
+      } else {
+        running--;
+      }
+    }
+  };
+}
@@ -1,17 +1,56 @@
 import process from 'process';
 import { LogFunction } from './logger';
+import { patternToRegExp } from './patterns';
+
+/** A package registry configured in the FPL_REGISTRY environment variable */
+export type Registry = {
+  url: string;
+  // Only packages with ids that match this pattern are requested from the registry (e.g., org.example.*)
+  scope?: string;
+};
 
 let hasLoggedCustomRegistry = false;
 
-export function getCustomRegistry(log: LogFunction = () => {}) {
-  if (process.env.FPL_REGISTRY) {
-    if (!hasLoggedCustomRegistry) {
-      hasLoggedCustomRegistry = true;
-      log(
-        'info',
-        `Using custom registry specified by FPL_REGISTRY environment variable: ${process.env.FPL_REGISTRY}`
-      );
-    }
-    return process.env.FPL_REGISTRY;
+/**
+ * Gets the registries configured in the FPL_REGISTRY environment variable, in priority order. The variable is
+ * a comma-separated list of registry URLs. A URL can be limited to packages with ids that match a pattern by
+ * preceding it with the pattern and an equals sign (e.g., org.example.*=https://registry.example.org).
+ * @param {LogFunction} [log=() => {}] - The function used to log the registries the first time they are read
+ * @returns {Registry[]} the configured registries, or an empty array if none are configured
+ */
+export function getRegistries(log: LogFunction = () => {}): Registry[] {
+  if (!process.env.FPL_REGISTRY) {
+    return [];
+  }
+  if (!hasLoggedCustomRegistry) {
+    hasLoggedCustomRegistry = true;
+    log(
+      'info',
+      `Using custom registry specified by FPL_REGISTRY environment variable: ${process.env.FPL_REGISTRY}`
+    );
   }
+  return process.env.FPL_REGISTRY.split(',')
+    .map(entry => entry.trim())
+    .filter(entry => entry.length > 0)
+    .map(entry => {
+      const separator = entry.indexOf('=');
+      // An equals sign after the scheme is part of the URL (e.g., in its query)
+      if (separator > 0 && !entry.slice(0, separator).includes('://')) {
+        return { url: entry.slice(separator + 1).trim(), scope: entry.slice(0, separator).trim() };
+      }
+      return { url: entry };
+    });
+}
+
+/**
+ * Gets the URLs of the configured registries that a package can be requested from, in priority order. A
+ * package that does not match any configured registry is requested from the public FHIR package registry.
+ * @param {string} packageName - The id of the package
+ * @param {LogFunction} [log=() => {}] - The function used to log the registries the first time they are read
+ * @returns {string[]} the URLs of the registries, or an empty array if the public registry should be used
+ */
+export function getPackageRegistries(packageName: string, log: LogFunction = () => {}): string[] {
+  return getRegistries(log)
+    .filter(registry => registry.scope == null || patternToRegExp(registry.scope).test(packageName))
+    .map(registry => registry.url);
 }
@@ -0,0 +1,46 @@
+/**
+ * Formats a number of bytes for display
+ * @param {number} bytes - The number of bytes
+ * @returns {string} the number of bytes, kilobytes, or megabytes (e.g., 12.3 MB)
+ */
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) {
+    return `${bytes} B`;
+  } else if (bytes < 1024 * 1024) {
+    return `${(bytes / 1024).toFixed(1)} kB`;
+  }
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * Formats rows of text as a table with aligned columns, for display in the terminal
+ * @param {string[]} headers - The heading of each column
+ * @param {string[][]} rows - The text of each cell, by row. A missing cell is left blank.
+ * @returns {string} the table, with a line for the headers followed by a line for each row
+ */
+export function formatTable(headers: string[], rows: string[][]): string {
+  const widths = headers.map((header, i) =>
+    Math.max(header.length, ...rows.map(row => (row[i] ?? '').length))
+  );
+  return [headers, ...rows]
+    .map(row =>
+      headers
+        .map((header, i) => (row[i] ?? '').padEnd(widths[i]))
+        .join('  ')
+        .trimEnd()
+    )
+    .join('\n');
+}
+
+/**
+ * Formats a date for display in a table
+ * @param {string} date - The date, either in ISO 8601 format or as a FHIR package build date (YYYYMMDDHHmmss)
+ * @returns {string} the date (YYYY-MM-DD), or an empty string if there is no date or it can't be read
+ */
+export function formatDate(date: string): string {
+  if (/^\d{8}/.test(date ?? '')) {
+    return `${date.slice(0, 4)}-${date.slice(4, 6)}-${date.slice(6, 8)}`;
+  }
+  const time = Date.parse(date ?? '');
+  return isNaN(time) ? '' : new Date(time).toISOString().slice(0, 10);
+}
@@ -1,5 +1,6 @@
 import { createLogger, format, transports } from 'winston';
 import chalk from 'chalk';
+import { redactSecrets } from './registryAuth';
 
 const { combine, printf } = format;
 
@@ -21,7 +22,7 @@ const printer = printf(info => {
     default:
       break;
   }
-  return `${level} ${info.message}`;
+  return `${level} ${redactSecrets(info.message)}`;
 });
 
 export const logger = createLogger({
@@ -0,0 +1,161 @@
+import fs from 'fs-extra';
+import path from 'path';
+
+// The index file that FHIR packages ship in their "package" folder. It is never modified, since the cache is
+// shared with other tools.
+// See: https://confluence.hl7.org/pages/viewpage.action?pageId=35718629#NPMPackageSpecification-.index.json
+export const PACKAGE_INDEX_FILE = '.index.json';
+
+// The index file that FHIR Package Loader writes next to the package's .index.json. It records the summary of
+// every file in the package, including files the .index.json does not list.
+export const FPL_INDEX_FILE = '.fpl-index.json';
+const FPL_INDEX_VERSION = 1;
+
+/** The summary of a single file in a package */
+export type PackageIndexEntry = {
+  filename: string;
+  resourceType: string;
+  id?: string;
+  url?: string;
+  name?: string;
+  version?: string;
+  kind?: string;
+  type?: string;
+  derivation?: string;
+  baseDefinition?: string;
+};
+
+export type PackageIndex = {
+  'index-version': number;
+  'fpl-index-version'?: number;
+  files: PackageIndexEntry[];
+};
+
+// The fields of an entry that FHIRDefinitions uses to classify and look up definitions
+const SUMMARY_FIELDS: (keyof PackageIndexEntry)[] = [
+  'resourceType',
+  'id',
+  'url',
+  'name',
+  'version',
+  'kind',
+  'type',
+  'derivation',
+  'baseDefinition'
+];
+
+// The summary fields that the standard .index.json does not include. When an entry does not record one of
+// them, LazyDefinition reads it from the definition's file the first time FHIRDefinitions needs it.
+export const LAZY_SUMMARY_FIELDS = ['name', 'derivation', 'baseDefinition'] as const;
+export type LazySummaryField = typeof LAZY_SUMMARY_FIELDS[number];
+
+/**
+ * Gets the index of the files in a package directory. The package's .fpl-index.json is used when it is
+ * current, meaning it lists exactly the files in the directory. Otherwise, the index is generated using the
+ * fields recorded in the package's .index.json, and a file is only parsed when the .index.json does not list it.
+ * The generated index is (optionally) written to the .fpl-index.json; the .index.json is never modified.
+ * @param {string} packageDirectory - The directory containing the package's JSON files
+ * @param {boolean} [writeIndex=true] - Whether to write a generated index to the .fpl-index.json
+ * @param {(indexed: number, total: number) => void} [onProgress] - Called after each file is indexed. When the
+ * existing index is used, it is called once with every file indexed.
+ * @returns {PackageIndex} the package index
+ */
+export function getPackageIndex(
+  packageDirectory: string,
+  writeIndex = true,
+  onProgress?: (indexed: number, total: number) => void
+): PackageIndex {
+  const files = fs
+    .readdirSync(packageDirectory)
+    .filter(file => file.endsWith('.json') && !file.startsWith('.') && file !== 'package.json');
+  const index = readPackageIndex(packageDirectory, FPL_INDEX_FILE);
+  if (index != null && isPackageIndexCurrent(index, files)) {
+    onProgress?.(files.length, files.length);
+    return index;
+  }
+  const generatedIndex = createPackageIndex(
+    packageDirectory,
+    files,
+    onProgress,
+    readPackageIndex(packageDirectory)
+  );
+  if (writeIndex) {
+    try {
+      fs.writeJSONSync(path.join(packageDirectory, FPL_INDEX_FILE), generatedIndex, {
+        spaces: 2
+      });
+    } catch {
+      // The index can always be generated again, so a read-only cache should not prevent loading
+    }
+  }
+  return generatedIndex;
+}
+
+/**
+ * Reads an index in a package directory
+ * @param {string} packageDirectory - The directory containing the package's JSON files
+ * @param {string} [indexFile=PACKAGE_INDEX_FILE] - The name of the index file (.index.json or .fpl-index.json)
+ * @returns {PackageIndex} the package index, or null if the package has no valid index
+ */
+export function readPackageIndex(
+  packageDirectory: string,
+  indexFile = PACKAGE_INDEX_FILE
+): PackageIndex {
+  const indexPath = path.join(packageDirectory, indexFile);
+  if (fs.existsSync(indexPath)) {
+    try {
+      const index = fs.readJSONSync(indexPath);
+      if (Array.isArray(index?.files)) {
+        return index;
+      }
+    } catch {
+      // A corrupt index is treated the same as a missing one
+    }
+  }
+  return null;
+}
+
+/**
+ * Creates an index of the provided files in a package directory. The summary of each file that the package's
+ * standard index lists is made of the fields that the standard index records, so the file is not read. The
+ * other files are parsed, so every field of their summaries is known.
+ * @param {string} packageDirectory - The directory containing the package's JSON files
+ * @param {string[]} files - The names of the files to index
+ * @param {(indexed: number, total: number) => void} [onProgress] - Called after each file is indexed
+ * @param {PackageIndex} [standardIndex] - The package's .index.json
+ * @returns {PackageIndex} the package index
+ */
+export function createPackageIndex(
+  packageDirectory: string,
+  files: string[],
+  onProgress?: (indexed: number, total: number) => void,
+  standardIndex?: PackageIndex
+): PackageIndex {
+  const indexedEntries = new Map<string, any>();
+  standardIndex?.files.forEach(entry => indexedEntries.set(entry?.filename, entry));
+  return {
+    'index-version': 1,
+    'fpl-index-version': FPL_INDEX_VERSION,
+    files: files.map((filename, i) => {
+      const indexedEntry = indexedEntries.get(filename);
+      const parsed = indexedEntry?.resourceType == null;
+      const def = parsed
+        ? JSON.parse(fs.readFileSync(path.join(packageDirectory, filename), 'utf-8').trim())
+        : indexedEntry;
+      onProgress?.(i + 1, files.length);
+      const entry: PackageIndexEntry = { filename, resourceType: def.resourceType };
+      SUMMARY_FIELDS.filter(field => parsed || field in def).forEach(
+        field => (entry[field] = def[field])
+      );
+      return entry;
+    })
+  };
+}
+
+function isPackageIndexCurrent(index: PackageIndex, files: string[]): boolean {
+  if (index['fpl-index-version'] !== FPL_INDEX_VERSION || index.files.length !== files.length) {
+    return false;
+  }
+  const indexedFiles = new Set(index.files.map(entry => entry.filename));
+  return files.every(file => indexedFiles.has(file));
+}
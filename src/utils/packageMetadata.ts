@@ -0,0 +1,112 @@
+import crypto from 'crypto';
+import fs from 'fs-extra';
+import path from 'path';
+import { FPL_INDEX_FILE } from './packageIndex';
+
+// Stored next to the "package" folder so it is never loaded as a definition
+export const PACKAGE_METADATA_FILE = '.fpl-metadata.json';
+
+/** Information about how a package in the cache was installed */
+export type PackageMetadata = {
+  // The URL the package tarball was downloaded from
+  resolved?: string;
+  // The registry the package was downloaded from, if it was downloaded from a registry
+  registry?: string;
+  // The Subresource Integrity hash of the downloaded tarball
+  integrity?: string;
+  // The SHA-1 hash (hex) of the downloaded tarball
+  shasum?: string;
+  // The hash of the files extracted from the tarball, used to detect changes to the cached package
+  contentIntegrity?: string;
+  // The date and time (ISO 8601) the package was installed
+  installed?: string;
+  // The date and time (ISO 8601) a current package was last checked for a newer build
+  checked?: string;
+};
+
+/**
+ * Reads the metadata that was stored when a package was installed in the cache
+ * @param {string} packageDirectory - The cache directory of the package (e.g., ~/.fhir/packages/hl7.fhir.r4.core#4.0.1)
+ * @returns {PackageMetadata} the package metadata, or an empty object if the package has no metadata
+ */
+export function readPackageMetadata(packageDirectory: string): PackageMetadata {
+  const metadataPath = path.join(packageDirectory, PACKAGE_METADATA_FILE);
+  if (fs.existsSync(metadataPath)) {
+    try {
+      return fs.readJSONSync(metadataPath);
+    } catch {
+      // A corrupt metadata file is treated the same as a missing one
+    }
+  }
+  return {};
+}
+
+/**
+ * Gets the directory of a package in the cache. The package is matched without regard to case, since the
+ * directory may be named with a different case than the package (e.g., hl7.fhir.us.mCODE#2.0.0).
+ * @param {string} cachePath - The path to the directory containing cached packages
+ * @param {string} fullPackageName - The package (format: packageId#version)
+ * @returns {string} the cache directory of the package, or the directory named with the package when the
+ * package is not in the cache
+ */
+export function getCachedPackageDirectory(cachePath: string, fullPackageName: string): string {
+  const cachedPackage = fs.existsSync(cachePath)
+    ? fs
+        .readdirSync(cachePath)
+        .find(directory => directory.toLowerCase() === fullPackageName.toLowerCase())
+    : undefined;
+  return path.join(cachePath, cachedPackage ?? fullPackageName);
+}
+
+/**
+ * Stores metadata about a package installed in the cache
+ * @param {string} packageDirectory - The cache directory of the package (e.g., ~/.fhir/packages/hl7.fhir.r4.core#4.0.1)
+ * @param {PackageMetadata} metadata - The metadata to store
+ */
+export function writePackageMetadata(packageDirectory: string, metadata: PackageMetadata): void {
+  fs.writeJSONSync(path.join(packageDirectory, PACKAGE_METADATA_FILE), metadata, { spaces: 2 });
+}
+
+/**
+ * Computes a hash of the files in the "package" folder of a package. The .fpl-index.json is not included
+ * since it is generated when the package is loaded.
+ * @param {string} packageDirectory - The directory containing the "package" folder
+ * @returns {string} the hash of the package contents, as a Subresource Integrity string
+ */
+export function getContentIntegrity(packageDirectory: string): string {
+  const hash = crypto.createHash('sha512');
+  const addFiles = (relativeDirectory: string) => {
+    const directory = path.join(packageDirectory, relativeDirectory);
+    if (!fs.existsSync(directory)) {
+      return;
+    }
+    fs.readdirSync(directory)
+      .sort()
+      .forEach(file => {
+        const relativePath = path.posix.join(relativeDirectory, file);
+        if (relativePath === path.posix.join('package', FPL_INDEX_FILE)) {
+          return;
+        }
+        if (fs.statSync(path.join(packageDirectory, relativePath)).isDirectory()) {
+          addFiles(relativePath);
+        } else {
+          hash.update(`${relativePath}\0`);
+          hash.update(fs.readFileSync(path.join(packageDirectory, relativePath)));
+          hash.update('\0');
+        }
+      });
+  };
+  addFiles('package');
+  return `sha512-${hash.digest('base64')}`;
+}
+
+/**
+ * Checks whether the files of a cached package still match the hash stored when it was installed
+ * @param {string} packageDirectory - The cache directory of the package (e.g., ~/.fhir/packages/hl7.fhir.r4.core#4.0.1)
+ * @returns {boolean} false if the files have changed since the package was installed, otherwise true
+ * (including when no hash was stored)
+ */
+export function verifyPackageContents(packageDirectory: string): boolean {
+  const { contentIntegrity } = readPackageMetadata(packageDirectory);
+  return contentIntegrity == null || contentIntegrity === getContentIntegrity(packageDirectory);
+}
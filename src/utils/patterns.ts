@@ -0,0 +1,12 @@
+/**
+ * Converts a package id pattern (e.g., hl7.fhir.us.*) to a case-insensitive regular expression
+ * @param {string} pattern - The pattern, where * matches any characters and ? matches a single character
+ * @returns {RegExp} a regular expression that matches the whole id
+ */
+export function patternToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .split('')
+    .map(c => (c === '*' ? '.*' : c === '?' ? '.' : c.replace(/[.+^${}()|[\]\\]/g, '\\$&')))
+    .join('');
+  return new RegExp(`^${source}$`, 'i');
+}
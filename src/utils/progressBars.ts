@@ -0,0 +1,107 @@
+import readline from 'readline';
+import { LoadProgressEvent } from '../progress';
+import { formatBytes } from './format';
+
+const BAR_WIDTH = 20;
+// Download events arrive for every chunk, so the bars are redrawn at most this often (in milliseconds)
+const RENDER_INTERVAL = 100;
+
+type PackageProgress = {
+  // The fraction of the current stage that is complete, or undefined if it is not known
+  fraction?: number;
+  status: string;
+};
+
+/**
+ * Shows a progress bar for each package that is being loaded, below any other output. Other output should
+ * be written between calls to clear() and render() so that it does not overwrite the bars.
+ */
+export class ProgressBars {
+  private packages = new Map<string, PackageProgress>();
+  private renderedLines = 0;
+  private lastRender = 0;
+
+  constructor(private stream: NodeJS.WritableStream) {}
+
+  /**
+   * Updates the progress bar of the package in a progress event and redraws the bars
+   * @param {LoadProgressEvent} event - The progress event
+   */
+  update(event: LoadProgressEvent): void {
+    switch (event.type) {
+      case 'resolve-start':
+        this.packages.set(event.package, { status: 'resolving' });
+        break;
+      case 'resolve-end':
+        if (event.resolvedPackage !== event.package) {
+          this.packages.delete(event.package);
+        }
+        this.packages.set(event.resolvedPackage, { status: 'resolved' });
+        break;
+      case 'download':
+        this.packages.set(event.package, {
+          fraction: event.totalBytes ? event.bytes / event.totalBytes : undefined,
+          status: `downloading ${formatBytes(event.bytes)}${
+            event.totalBytes ? ` / ${formatBytes(event.totalBytes)}` : ''
+          }`
+        });
+        // Only redraw downloads periodically, but always show when a download finishes
+        if (event.bytes !== event.totalBytes && Date.now() - this.lastRender < RENDER_INTERVAL) {
+          return;
+        }
+        break;
+      case 'extract':
+        this.packages.set(event.package, { fraction: 1, status: `extracted ${event.files} files` });
+        if (Date.now() - this.lastRender < RENDER_INTERVAL) {
+          return;
+        }
+        break;
+      case 'parse':
+        this.packages.set(event.package, {
+          fraction: event.totalFiles ? event.files / event.totalFiles : 1,
+          status: `indexed ${event.files} / ${event.totalFiles} files`
+        });
+        if (event.files !== event.totalFiles && Date.now() - this.lastRender < RENDER_INTERVAL) {
+          return;
+        }
+        break;
+      case 'loaded':
+        this.packages.set(event.package, { fraction: 1, status: 'loaded' });
+        break;
+    }
+    this.render();
+  }
+
+  /**
+   * Gets the text of each progress bar
+   * @returns {string[]} a line for each package, in the order the packages were first reported
+   */
+  getLines(): string[] {
+    const nameWidth = Math.max(0, ...Array.from(this.packages.keys(), name => name.length));
+    return Array.from(this.packages, ([name, progress]) => {
+      const filled = Math.round((progress.fraction ?? 0) * BAR_WIDTH);
+      const bar = `${'#'.repeat(filled)}${'-'.repeat(BAR_WIDTH - filled)}`;
+      return `${name.padEnd(nameWidth)} [${bar}] ${progress.status}`;
+    });
+  }
+
+  /** Removes the progress bars from the output */
+  clear(): void {
+    if (this.renderedLines > 0) {
+      readline.moveCursor(this.stream, 0, -this.renderedLines);
+      readline.clearScreenDown(this.stream);
+      this.renderedLines = 0;
+    }
+  }
+
+  /** Draws the progress bars, replacing any progress bars that were drawn before */
+  render(): void {
+    this.clear();
+    const lines = this.getLines();
+    if (lines.length > 0) {
+      this.stream.write(`${lines.join('\n')}\n`);
+    }
+    this.renderedLines = lines.length;
+    this.lastRender = Date.now();
+  }
+}
@@ -0,0 +1,84 @@
+import process from 'process';
+import { getHostVariableSuffix, getUrlHost } from './urls';
+
+/**
+ * Gets the proxy that a request to a URL should be sent through. The proxy is the first of these that applies:
+ * - the FPL_REGISTRY_PROXY_<HOST> environment variable, where <HOST> is the host of the URL in upper case with
+ *   every character other than a letter or digit replaced by an underscore (e.g., REGISTRY_EXAMPLE_ORG). Set
+ *   it to direct to connect to the host without a proxy.
+ * - no proxy, when the host matches an entry in the NO_PROXY environment variable
+ * - the HTTP_PROXY environment variable for an http URL, or the HTTPS_PROXY environment variable otherwise
+ * The lower case versions of the HTTP_PROXY, HTTPS_PROXY, and NO_PROXY environment variables are also used.
+ * @param {string} url - The URL of the request
+ * @returns {string} the URL of the proxy, or undefined if the request should not use a proxy
+ */
+export function getProxyForUrl(url: string): string {
+  const suffix = getHostVariableSuffix(url);
+  const registryProxy = suffix != null ? process.env[`FPL_REGISTRY_PROXY_${suffix}`] : undefined;
+  if (registryProxy) {
+    return registryProxy.toLowerCase() === 'direct' ? undefined : registryProxy;
+  }
+  if (isExcludedFromProxy(url)) {
+    return;
+  }
+  return isHttpUrl(url) ? getProxyVariable('HTTP_PROXY') : getProxyVariable('HTTPS_PROXY');
+}
+
+/**
+ * Determines if the HTTP_PROXY or HTTPS_PROXY environment variable (or its lower case version) is set
+ * @returns {boolean} true if a proxy environment variable is set
+ */
+export function hasProxyVariables(): boolean {
+  return ['HTTP_PROXY', 'HTTPS_PROXY'].some(name => getProxyVariable(name) != null);
+}
+
+/**
+ * Determines if a URL uses the http protocol. URLs without a protocol are treated as https URLs.
+ * @param {string} url - The URL
+ * @returns {boolean} true if the URL starts with http:
+ */
+export function isHttpUrl(url: string): boolean {
+  return /^http:/i.test(url);
+}
+
+/**
+ * Determines if the host of a URL matches an entry in the NO_PROXY environment variable. NO_PROXY is a list of
+ * hosts separated by commas or spaces, where an entry matches the host and all of its subdomains (e.g.,
+ * example.org or .example.org matches registry.example.org), an entry with a port only matches that port, and
+ * * matches every host.
+ * @param {string} url - The URL of the request
+ * @returns {boolean} true if the request should not use a proxy
+ */
+function isExcludedFromProxy(url: string): boolean {
+  const noProxy = getProxyVariable('NO_PROXY');
+  const host = getUrlHost(url);
+  if (!noProxy || host == null) {
+    return false;
+  }
+  const [, hostname, port = isHttpUrl(url) ? '80' : '443'] = /^(.*?)(?::(\d+))?$/.exec(
+    host.toLowerCase()
+  );
+  return noProxy
+    .split(/[,\s]+/)
+    .filter(entry => entry.length > 0)
+    .some(entry => {
+      if (entry === '*') {
+        return true;
+      }
+      const [, entryHostname, entryPort] = /^(.*?)(?::(\d+))?$/.exec(entry.toLowerCase());
+      if (entryPort != null && entryPort !== port) {
+        return false;
+      }
+      const domain = entryHostname.replace(/^\*?\./, '');
+      return hostname === domain || hostname.endsWith(`.${domain}`);
+    });
+}
+
+/**
+ * Gets the value of a proxy environment variable, using its lower case version when it is not set
+ * @param {string} name - The name of the environment variable in upper case (e.g., HTTPS_PROXY)
+ * @returns {string} the value, or undefined if neither version is set
+ */
+function getProxyVariable(name: string): string {
+  return process.env[name] || process.env[name.toLowerCase()] || undefined;
+}
@@ -1,19 +1,145 @@
+import fs from 'fs-extra';
 import path from 'path';
 import { loadFromPath, merge } from '../src/load';
 import { FHIRDefinitions, Type } from '../src/FHIRDefinitions';
-import { loggerSpy } from './testhelpers';
+import { DefinitionReadError } from '../src/errors';
+import { LazyDefinition } from '../src/LazyDefinition';
+import { copyFixtures, loggerSpy } from './testhelpers';
 
 describe('FHIRDefinitions', () => {
   let defs: FHIRDefinitions;
+  let testdefsPath: string;
   beforeAll(() => {
+    testdefsPath = copyFixtures('testdefs');
     defs = new FHIRDefinitions();
-    merge(loadFromPath(path.join(__dirname, 'testhelpers', 'testdefs'), 'r4-definitions'), defs);
+    merge(loadFromPath(testdefsPath, 'r4-definitions'), defs);
+  });
+
+  afterAll(() => {
+    fs.removeSync(testdefsPath);
   });
 
   beforeEach(() => {
     loggerSpy.reset();
   });
 
+  describe('#add()', () => {
+    it('should only read lazy definitions from their files when they are needed', () => {
+      const lazyDefs = new FHIRDefinitions();
+      const packagePath = path.join(testdefsPath, 'r4-definitions', 'package');
+      const condition = new LazyDefinition(
+        {
+          filename: 'StructureDefinition-Condition.json',
+          resourceType: 'StructureDefinition',
+          id: 'Condition',
+          url: 'http://hl7.org/fhir/StructureDefinition/Condition',
+          name: 'Condition',
+          version: '4.0.1',
+          kind: 'resource',
+          type: 'Condition',
+          derivation: 'specialization'
+        },
+        path.join(packagePath, 'StructureDefinition-Condition.json')
+      );
+      const valueSet = new LazyDefinition(
+        {
+          filename: 'ValueSet-allergyintolerance-clinical.json',
+          resourceType: 'ValueSet',
+          id: 'allergyintolerance-clinical',
+          url: 'http://hl7.org/fhir/ValueSet/allergyintolerance-clinical',
+          name: 'AllergyIntoleranceClinicalStatusCodes'
+        },
+        path.join(packagePath, 'ValueSet-allergyintolerance-clinical.json')
+      );
+      lazyDefs.add(condition);
+      lazyDefs.add(valueSet);
+      expect(condition.isLoaded()).toBe(false);
+      expect(valueSet.isLoaded()).toBe(false);
+
+      expect(lazyDefs.fishForFHIR('Condition|4.0.1', Type.Resource)).toEqual(
+        defs.fishForFHIR('Condition', Type.Resource)
+      );
+      expect(condition.isLoaded()).toBe(true);
+      expect(valueSet.isLoaded()).toBe(false);
+
+      expect(lazyDefs.fishForFHIR('Condition|1.0.0', Type.Resource)).toBeUndefined();
+      expect(lazyDefs.allValueSets()).toEqual(defs.allValueSets());
+      expect(valueSet.isLoaded()).toBe(true);
+    });
+
+    it('should only read the fields the standard index does not record when a search needs them', () => {
+      const lazyDefs = new FHIRDefinitions();
+      const packagePath = path.join(testdefsPath, 'r4-definitions', 'package');
+      // Summaries from a standard .index.json, which does not record the name, derivation, or baseDefinition
+      const vitalSigns = new LazyDefinition(
+        {
+          filename: 'StructureDefinition-vitalsigns.json',
+          resourceType: 'StructureDefinition',
+          id: 'vitalsigns',
+          url: 'http://hl7.org/fhir/StructureDefinition/vitalsigns',
+          kind: 'resource',
+          type: 'Observation'
+        },
+        path.join(packagePath, 'StructureDefinition-vitalsigns.json')
+      );
+      const valueSet = new LazyDefinition(
+        {
+          filename: 'ValueSet-allergyintolerance-clinical.json',
+          resourceType: 'ValueSet',
+          id: 'allergyintolerance-clinical',
+          url: 'http://hl7.org/fhir/ValueSet/allergyintolerance-clinical'
+        },
+        path.join(packagePath, 'ValueSet-allergyintolerance-clinical.json')
+      );
+      const readSpy = jest.spyOn(fs, 'readFileSync');
+      const reads = (file: string) =>
+        readSpy.mock.calls.filter(call => String(call[0]).endsWith(file)).length;
+      lazyDefs.add(vitalSigns);
+      lazyDefs.add(valueSet);
+      expect(reads('StructureDefinition-vitalsigns.json')).toBe(0);
+
+      // The derivation is read to classify the profile the first time the definitions are searched
+      expect(lazyDefs.fishForFHIR('allergyintolerance-clinical', Type.ValueSet)?.id).toBe(
+        'allergyintolerance-clinical'
+      );
+      expect(reads('StructureDefinition-vitalsigns.json')).toBe(1);
+      expect(vitalSigns.isLoaded()).toBe(false);
+      expect(vitalSigns.summary.derivation).toBe('constraint');
+
+      // The name is only read when a search does not find a definition by its id or url
+      expect(reads('ValueSet-allergyintolerance-clinical.json')).toBe(1);
+      expect(lazyDefs.fishForFHIR('AllergyIntoleranceClinicalStatusCodes', Type.ValueSet)?.id).toBe(
+        'allergyintolerance-clinical'
+      );
+      expect(reads('ValueSet-allergyintolerance-clinical.json')).toBe(1);
+      expect(lazyDefs.fishForFHIR('observation-vitalsigns', Type.Profile)?.id).toBe('vitalsigns');
+      expect(lazyDefs.fishForFHIR('vitalsigns', Type.Resource)).toBeUndefined();
+      readSpy.mockRestore();
+    });
+
+    it('should throw a DefinitionReadError naming the package and file when the package was removed after loading', () => {
+      // The package is copied under a name of its own, since loaded packages are cached by name
+      const removedPath = copyFixtures('testdefs');
+      fs.moveSync(path.join(removedPath, 'package2'), path.join(removedPath, 'removed-package'));
+      const removedDefs = new FHIRDefinitions();
+      merge(loadFromPath(removedPath, 'removed-package'), removedDefs);
+      fs.removeSync(removedPath);
+
+      const conditionPath = path.join(
+        removedPath,
+        'removed-package',
+        'package',
+        'StructureDefinition-Condition.json'
+      );
+      expect(() => removedDefs.fishForFHIR('Condition', Type.Resource)).toThrow(
+        DefinitionReadError
+      );
+      expect(() => removedDefs.fishForFHIR('Condition', Type.Resource)).toThrow(
+        `The definition ${conditionPath} in package removed-package could not be read`
+      );
+    });
+  });
+
   describe('#fishForFHIR()', () => {
     it('should find base FHIR resources', () => {
       const conditionByID = defs.fishForFHIR('Condition', Type.Resource);
@@ -332,17 +458,17 @@ describe('FHIRDefinitions', () => {
 
       // package1 does not contain a Condition resource
       const childDefs1 = new FHIRDefinitions();
-      merge(loadFromPath(path.join(__dirname, 'testhelpers', 'testdefs'), 'package1'), childDefs1);
+      merge(loadFromPath(testdefsPath, 'package1'), childDefs1);
       childDefs1.package = 'package1';
 
       // package2 contains a Condition resource with version 4.0.2
       const childDefs2 = new FHIRDefinitions();
-      merge(loadFromPath(path.join(__dirname, 'testhelpers', 'testdefs'), 'package2'), childDefs2);
+      merge(loadFromPath(testdefsPath, 'package2'), childDefs2);
       childDefs2.package = 'package2';
 
       // package3 contains a Condition resource with version 4.0.3
       const childDefs3 = new FHIRDefinitions();
-      merge(loadFromPath(path.join(__dirname, 'testhelpers', 'testdefs'), 'package3'), childDefs3);
+      merge(loadFromPath(testdefsPath, 'package3'), childDefs3);
       childDefs3.package = 'package3';
 
       // childDefs1 and childDefs2 are siblings, childDef3 is child of childDef1
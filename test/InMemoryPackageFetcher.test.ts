@@ -0,0 +1,160 @@
+import fs from 'fs-extra';
+import path from 'path';
+import tar from 'tar';
+import temp from 'temp';
+import { fpl } from '../src/api';
+import { InMemoryPackageFetcher } from '../src/InMemoryPackageFetcher';
+import { searchPackages } from '../src/load';
+
+describe('InMemoryPackageFetcher', () => {
+  let fixtureDirectory: string;
+  let cachePath: string;
+
+  beforeAll(() => {
+    temp.track();
+  });
+
+  beforeEach(() => {
+    fixtureDirectory = temp.mkdirSync('fpl-fetcher-fixtures');
+    cachePath = temp.mkdirSync('fpl-fetcher-cache');
+  });
+
+  const writeFixture = (file: string, packageJson: any, valueSetId?: string) => {
+    const packageDirectory = temp.mkdirSync('fpl-fetcher-package');
+    fs.outputJSONSync(path.join(packageDirectory, 'package', 'package.json'), packageJson);
+    if (valueSetId) {
+      fs.outputJSONSync(path.join(packageDirectory, 'package', `ValueSet-${valueSetId}.json`), {
+        resourceType: 'ValueSet',
+        id: valueSetId,
+        url: `http://example.org/ValueSet/${valueSetId}`
+      });
+    }
+    tar.c(
+      { gzip: true, sync: true, cwd: packageDirectory, file: path.join(fixtureDirectory, file) },
+      ['package']
+    );
+  };
+
+  it('should load packages and their dependencies from the fixture tarballs', async () => {
+    writeFixture(
+      'example.a#1.0.0.tgz',
+      { name: 'example.a', version: '1.0.0', dependencies: { 'example.b': '2.0.x' } },
+      'a'
+    );
+    writeFixture('example.a#1.1.0-ballot.tgz', { name: 'example.a', version: '1.1.0-ballot' });
+    writeFixture('example.b.tgz', { name: 'example.b', version: '2.0.1' }, 'b');
+    const fetcher = new InMemoryPackageFetcher(fixtureDirectory);
+    const { defs, failedPackages } = await fpl(['example.a@latest'], {
+      cachePath,
+      fetcher,
+      recursive: true
+    });
+    expect(failedPackages).toEqual([]);
+    expect(defs.allValueSets().map(vs => vs.id)).toEqual(['a', 'b']);
+    expect(fs.existsSync(path.join(cachePath, 'example.b#2.0.1', 'package', 'package.json'))).toBe(
+      true
+    );
+    expect(fetcher.requests).toEqual([
+      'https://packages.fhir.org/example.a',
+      'https://packages.fhir.org/example.a',
+      'https://packages.fhir.org/example.a/1.0.0',
+      'https://packages.fhir.org/example.b',
+      'https://packages.fhir.org/example.b',
+      'https://packages.fhir.org/example.b/2.0.1'
+    ]);
+  });
+
+  it('should not request the versions of a dependency that lose a conflict', async () => {
+    writeFixture('example.root#1.0.0.tgz', {
+      name: 'example.root',
+      version: '1.0.0',
+      dependencies: { 'example.shared': '2.0.0', 'example.other': '1.0.0' }
+    });
+    writeFixture('example.shared#1.0.0.tgz', { name: 'example.shared', version: '1.0.0' }, 'b1');
+    writeFixture('example.shared#2.0.0.tgz', { name: 'example.shared', version: '2.0.0' }, 'b2');
+    writeFixture('example.other#1.0.0.tgz', {
+      name: 'example.other',
+      version: '1.0.0',
+      dependencies: { 'example.shared': '1.0.0' }
+    });
+    const fetcher = new InMemoryPackageFetcher(fixtureDirectory);
+    const { defs, failedPackages } = await fpl(['example.root@1.0.0'], {
+      cachePath,
+      fetcher,
+      recursive: true,
+      conflictPolicy: 'highest'
+    });
+    expect(failedPackages).toEqual([]);
+    expect(defs.allValueSets().map(vs => vs.id)).toEqual(['b2']);
+    expect(fetcher.requests).toContain('https://packages.fhir.org/example.shared/2.0.0');
+    expect(fetcher.requests).not.toContain('https://packages.fhir.org/example.shared/1.0.0');
+  });
+
+  it('should fail to load packages that are not in the fixture directory', async () => {
+    const fetcher = new InMemoryPackageFetcher(fixtureDirectory);
+    const { failedPackages, errors } = await fpl(['example.missing@1.0.0'], {
+      cachePath,
+      fetcher
+    });
+    expect(failedPackages).toEqual(['example.missing#1.0.0']);
+    expect(errors[0]).toMatch(/Failed to load example\.missing#1\.0\.0/);
+  });
+
+  it('should serve current packages as the latest build on the build server', async () => {
+    writeFixture(
+      'example.a#current.tgz',
+      { name: 'example.a', version: '1.1.0-cibuild', date: '20240102030405' },
+      'current'
+    );
+    const fetcher = new InMemoryPackageFetcher(fixtureDirectory);
+    const { defs, failedPackages } = await fpl(['example.a@current'], { cachePath, fetcher });
+    expect(failedPackages).toEqual([]);
+    expect(defs.allValueSets().map(vs => vs.id)).toEqual(['current']);
+    expect(fetcher.requests).toEqual([
+      'https://build.fhir.org/ig/qas.json',
+      'https://build.fhir.org/ig/fixtures/example.a/branches/master/package.manifest.json',
+      'https://build.fhir.org/ig/fixtures/example.a/branches/master/package.tgz'
+    ]);
+  });
+
+  it('should serve packages requested by a tarball URL that ends with the name of the fixture', async () => {
+    writeFixture('partner-ig.tgz', { name: 'example.partner', version: '2.1.0' }, 'partner');
+    const fetcher = new InMemoryPackageFetcher(fixtureDirectory);
+    const { defs, failedPackages } = await fpl(
+      ['example.partner@https://example.org/downloads/partner-ig.tgz'],
+      { cachePath, fetcher }
+    );
+    expect(failedPackages).toEqual([]);
+    expect(defs.allValueSets().map(vs => vs.id)).toEqual(['partner']);
+    expect(fs.existsSync(path.join(cachePath, 'example.partner#2.1.0', 'package'))).toBe(true);
+    expect(fetcher.requests).toEqual(['https://example.org/downloads/partner-ig.tgz']);
+  });
+
+  it('should search the packages in the fixture directory', async () => {
+    writeFixture('example.a#1.0.0.tgz', {
+      name: 'example.a',
+      version: '1.0.0',
+      description: 'Example A',
+      fhirVersions: ['4.0.1']
+    });
+    writeFixture('example.b#1.0.0.tgz', {
+      name: 'example.b',
+      version: '1.0.0',
+      fhirVersions: ['5.0.0']
+    });
+    writeFixture('other.c#1.0.0.tgz', { name: 'other.c', version: '1.0.0' });
+    const fetcher = new InMemoryPackageFetcher(fixtureDirectory);
+    await expect(
+      searchPackages('example', undefined, { fetcher, fhirVersion: 'R4' })
+    ).resolves.toEqual([
+      { id: 'example.a', version: '1.0.0', fhirVersion: 'R4', description: 'Example A' }
+    ]);
+  });
+
+  it('should reject requests with a 404 error for packages that are not in the fixture directory', async () => {
+    const fetcher = new InMemoryPackageFetcher(fixtureDirectory);
+    await expect(
+      fetcher.fetchManifest('https://packages.fhir.org', 'example.missing', {})
+    ).rejects.toMatchObject({ response: { status: 404 } });
+  });
+});
@@ -27,12 +27,15 @@ describe('fpl (API)', () => {
       defs: new FHIRDefinitions(),
       errors: [],
       warnings: [],
-      failedPackages: []
+      failedPackages: [],
+      conflicts: [],
+      registries: {}
     });
     expect(loadSpy).toHaveBeenCalledWith(
       ['hl7.fake.test.package#1.0.0', 'hl7.fake.test.package#2.0.0'],
       cachePath,
-      expect.any(Function)
+      expect.any(Function),
+      {}
     );
   });
 
@@ -42,12 +45,15 @@ describe('fpl (API)', () => {
       defs: new FHIRDefinitions(),
       errors: [],
       warnings: [],
-      failedPackages: []
+      failedPackages: [],
+      conflicts: [],
+      registries: {}
     });
     expect(loadSpy).toHaveBeenCalledWith(
       ['hl7.fake.test.package#1.0.0', 'hl7.fake.test.package#2.0.0'],
       cachePath,
-      expect.any(Function)
+      expect.any(Function),
+      {}
     );
   });
 
@@ -58,12 +64,15 @@ describe('fpl (API)', () => {
       defs: new FHIRDefinitions(),
       errors: [],
       warnings: [],
-      failedPackages: []
+      failedPackages: [],
+      conflicts: [],
+      registries: {}
     });
     expect(loadSpy).toHaveBeenCalledWith(
       ['hl7.fake.test.package#1.0.0', 'hl7.fake.test.package#2.0.0', 'hl7.fake.test.package#3.0.0'],
       cachePath,
-      expect.any(Function)
+      expect.any(Function),
+      {}
     );
   });
 
@@ -74,12 +83,15 @@ describe('fpl (API)', () => {
       defs: new FHIRDefinitions(),
       errors: [],
       warnings: [],
-      failedPackages: []
+      failedPackages: [],
+      conflicts: [],
+      registries: {}
     });
     expect(loadSpy).toHaveBeenCalledWith(
       ['hl7.fake.test.package#1.0.0', 'hl7.fake.test.package#2.0.0', 'hl7.fake.test.package#3.0.0'],
       cachePath,
-      expect.any(Function)
+      expect.any(Function),
+      {}
     );
   });
 
@@ -90,12 +102,26 @@ describe('fpl (API)', () => {
       defs: new FHIRDefinitions(),
       errors: [],
       warnings: [],
-      failedPackages: []
+      failedPackages: [],
+      conflicts: [],
+      registries: {}
     });
     expect(loadSpy).toHaveBeenCalledWith(
       ['hl7.fake.test.package#1.0.0', 'hl7.fake.test.package#2.0.0', 'hl7.fake.test.package#3.0.0'],
       cachePath,
-      expect.any(Function)
+      expect.any(Function),
+      {}
+    );
+  });
+
+  it('should pass along load options', async () => {
+    const fhirPackages = 'hl7.fake.test.package#1.0.0';
+    await fpl(fhirPackages, { cachePath, log, recursive: true });
+    expect(loadSpy).toHaveBeenCalledWith(
+      ['hl7.fake.test.package#1.0.0'],
+      cachePath,
+      expect.any(Function),
+      { recursive: true }
     );
   });
 
@@ -109,15 +135,51 @@ describe('fpl (API)', () => {
       defs: failedFhirDefs,
       errors: [],
       warnings: [],
-      failedPackages: ['hl7.fake.test.package#1.0.0']
+      failedPackages: ['hl7.fake.test.package#1.0.0'],
+      conflicts: [],
+      registries: {}
     });
     expect(loadSpy).toHaveBeenCalledWith(
       ['hl7.fake.test.package#1.0.0'],
       cachePath,
-      expect.any(Function)
+      expect.any(Function),
+      {}
+    );
+  });
+
+  it('should return the package conflicts found while loading', async () => {
+    const conflictedFhirDefs = new FHIRDefinitions();
+    conflictedFhirDefs.packageConflicts = [
+      {
+        packageId: 'hl7.fake.test.package',
+        requests: [{ version: '1.0.0' }, { version: '2.0.0' }],
+        selectedVersion: '2.0.0'
+      }
+    ];
+    loadSpy.mockResolvedValueOnce(conflictedFhirDefs);
+    const fhirPackages = 'hl7.fake.test.package@1.0.0, hl7.fake.test.package@2.0.0';
+    const result = await fpl(fhirPackages, { cachePath, log, conflictPolicy: 'highest' });
+    expect(result.conflicts).toEqual(conflictedFhirDefs.packageConflicts);
+    expect(loadSpy).toHaveBeenCalledWith(
+      ['hl7.fake.test.package#1.0.0', 'hl7.fake.test.package#2.0.0'],
+      cachePath,
+      expect.any(Function),
+      { conflictPolicy: 'highest' }
     );
   });
 
+  it('should return the registry each package was downloaded from', async () => {
+    const registryFhirDefs = new FHIRDefinitions();
+    registryFhirDefs.packageRegistries = {
+      'hl7.fake.test.package#1.0.0': 'https://custom-registry.example.org'
+    };
+    loadSpy.mockResolvedValueOnce(registryFhirDefs);
+    const result = await fpl('hl7.fake.test.package@1.0.0', { cachePath, log });
+    expect(result.registries).toEqual({
+      'hl7.fake.test.package#1.0.0': 'https://custom-registry.example.org'
+    });
+  });
+
   it('should call wrapLogger to set up a logger that tracks errors and warnings', async () => {
     const fhirPackages = 'hl7.fake.test.package#1.0.0';
     await fpl(fhirPackages, { cachePath, log });
@@ -147,7 +209,9 @@ describe('fpl (API)', () => {
       defs: failedFhirDefs,
       errors: ['Failed to load hl7.fake.test.package#1.0.0: bad'],
       warnings: [],
-      failedPackages: ['hl7.fake.test.package#1.0.0']
+      failedPackages: ['hl7.fake.test.package#1.0.0'],
+      conflicts: [],
+      registries: {}
     });
 
     // Reset the loadSpy back so that any tests that come after this one still mock out loadDependencies
@@ -160,12 +224,15 @@ describe('fpl (API)', () => {
       defs: new FHIRDefinitions(),
       errors: [],
       warnings: [],
-      failedPackages: []
+      failedPackages: [],
+      conflicts: [],
+      registries: {}
     });
     expect(loadSpy).toHaveBeenCalledWith(
       ['hl7.fake.test.package#1.0.0'],
       undefined,
-      expect.any(Function)
+      expect.any(Function),
+      {}
     );
   });
 
@@ -175,12 +242,15 @@ describe('fpl (API)', () => {
       defs: new FHIRDefinitions(),
       errors: [],
       warnings: [],
-      failedPackages: []
+      failedPackages: [],
+      conflicts: [],
+      registries: {}
     });
     expect(loadSpy).toHaveBeenCalledWith(
       ['hl7.fake.test.package#1.0.0'],
       cachePath,
-      expect.any(Function) // A function is passed even though options.log is undefined
+      expect.any(Function), // A function is passed even though options.log is undefined
+      {}
     );
   });
 });
@@ -0,0 +1,364 @@
+import fs from 'fs-extra';
+import path from 'path';
+import temp from 'temp';
+import {
+  listCachedPackages,
+  pruneCache,
+  PruneCacheOptions,
+  removeCachedPackages
+} from '../src/cache';
+import { CacheLockTimeoutError } from '../src/errors';
+import { loadFromPath } from '../src/load';
+import { getLockPath } from '../src/utils/cacheLock';
+import { writePackageMetadata } from '../src/utils/packageMetadata';
+import { loggerSpy } from './testhelpers';
+
+describe('cache', () => {
+  const fixturesPath = path.join(__dirname, 'testhelpers', 'fixtures');
+  let cachePath: string;
+
+  beforeAll(() => {
+    temp.track();
+  });
+
+  beforeEach(() => {
+    loggerSpy.reset();
+    cachePath = temp.mkdirSync('fpl-cache-test');
+  });
+
+  const log = (level: string, message: string) => {
+    loggerSpy.log(level, message);
+  };
+
+  const writePackage = (directoryName: string, packageJSON: any) => {
+    fs.outputJSONSync(path.join(cachePath, directoryName, 'package', 'package.json'), packageJSON);
+  };
+
+  const daysAgo = (days: number) => new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+  describe('#listCachedPackages()', () => {
+    it('should list a cached package with the details from its package.json', () => {
+      fs.copySync(
+        path.join(fixturesPath, 'sushi-test#0.1.0'),
+        path.join(cachePath, 'sushi-test#0.1.0')
+      );
+      expect(listCachedPackages(cachePath)).toEqual([
+        {
+          package: 'sushi-test#0.1.0',
+          id: 'sushi-test',
+          version: '0.1.0',
+          size: expect.any(Number),
+          date: '20200413230227',
+          problems: []
+        }
+      ]);
+    });
+
+    it('should add up the size of all the files in the package', () => {
+      writePackage('hl7.fhir.us.example#1.0.0', { name: 'hl7.fhir.us.example', version: '1.0.0' });
+      fs.outputFileSync(
+        path.join(cachePath, 'hl7.fhir.us.example#1.0.0', 'package', 'a.json'),
+        '1234'
+      );
+      fs.outputFileSync(
+        path.join(cachePath, 'hl7.fhir.us.example#1.0.0', 'package', 'example', 'b.json'),
+        '123456'
+      );
+      const packageJSONSize = fs.statSync(
+        path.join(cachePath, 'hl7.fhir.us.example#1.0.0', 'package', 'package.json')
+      ).size;
+      expect(listCachedPackages(cachePath)[0].size).toBe(packageJSONSize + 10);
+    });
+
+    it('should read the FHIR versions and type from the package.json', () => {
+      writePackage('hl7.fhir.r4.core#4.0.1', {
+        name: 'hl7.fhir.r4.core',
+        version: '4.0.1',
+        type: 'Core',
+        fhirVersions: ['4.0.1']
+      });
+      writePackage('hl7.fhir.us.core#3.1.0', {
+        name: 'hl7.fhir.us.core',
+        version: '3.1.0',
+        type: 'fhir.ig',
+        'fhir-version-list': ['4.0.1']
+      });
+      writePackage('hl7.fhir.us.old#1.0.0', {
+        name: 'hl7.fhir.us.old',
+        version: '1.0.0',
+        fhirVersion: '3.0.2'
+      });
+      const cachedPackages = listCachedPackages(cachePath);
+      expect(cachedPackages.map(p => [p.package, p.fhirVersions, p.type])).toEqual([
+        ['hl7.fhir.r4.core#4.0.1', ['4.0.1'], 'Core'],
+        ['hl7.fhir.us.core#3.1.0', ['4.0.1'], 'fhir.ig'],
+        ['hl7.fhir.us.old#1.0.0', ['3.0.2'], undefined]
+      ]);
+    });
+
+    it('should include the date a package was installed by FPL', () => {
+      writePackage('sushi-test#0.1.0', { name: 'sushi-test', version: '0.1.0' });
+      writePackageMetadata(path.join(cachePath, 'sushi-test#0.1.0'), {
+        installed: '2026-10-01T12:00:00.000Z'
+      });
+      expect(listCachedPackages(cachePath)[0].installed).toBe('2026-10-01T12:00:00.000Z');
+    });
+
+    it('should sort packages by id and then by version', () => {
+      writePackage('sushi-test#0.10.0', { name: 'sushi-test', version: '0.10.0' });
+      writePackage('sushi-test#0.2.0', { name: 'sushi-test', version: '0.2.0' });
+      writePackage('hl7.fhir.r4.core#4.0.1', { name: 'hl7.fhir.r4.core', version: '4.0.1' });
+      expect(listCachedPackages(cachePath).map(p => p.package)).toEqual([
+        'hl7.fhir.r4.core#4.0.1',
+        'sushi-test#0.2.0',
+        'sushi-test#0.10.0'
+      ]);
+    });
+
+    it('should only list packages with ids that match the filter', () => {
+      writePackage('hl7.fhir.us.core#3.1.0', { name: 'hl7.fhir.us.core', version: '3.1.0' });
+      writePackage('hl7.fhir.us.mcode#2.0.0', { name: 'hl7.fhir.us.mcode', version: '2.0.0' });
+      writePackage('hl7.fhir.r4.core#4.0.1', { name: 'hl7.fhir.r4.core', version: '4.0.1' });
+      expect(listCachedPackages(cachePath, { filter: 'HL7.fhir.us.*' }).map(p => p.id)).toEqual([
+        'hl7.fhir.us.core',
+        'hl7.fhir.us.mcode'
+      ]);
+      expect(listCachedPackages(cachePath, { filter: 'hl7.fhir.r?.core' }).map(p => p.id)).toEqual([
+        'hl7.fhir.r4.core'
+      ]);
+      // Periods in the filter only match periods
+      expect(listCachedPackages(cachePath, { filter: 'hl7xfhir*' })).toEqual([]);
+    });
+
+    it('should not list lock files or temporary install directories', () => {
+      writePackage('sushi-test#0.1.0', { name: 'sushi-test', version: '0.1.0' });
+      fs.writeFileSync(path.join(cachePath, 'sushi-test#0.2.0.lock'), '{}');
+      fs.ensureDirSync(path.join(cachePath, '.fpl-install-123'));
+      expect(listCachedPackages(cachePath).map(p => p.package)).toEqual(['sushi-test#0.1.0']);
+    });
+
+    it('should not flag the version of current and dev packages', () => {
+      writePackage('sushi-test#current', { name: 'sushi-test', version: '0.2.0' });
+      writePackage('sushi-test#current$testbranch', { name: 'sushi-test', version: '0.2.0' });
+      writePackage('sushi-test#dev', { name: 'sushi-test', version: '0.2.0' });
+      expect(listCachedPackages(cachePath).map(p => p.problems)).toEqual([[], [], []]);
+    });
+
+    it('should flag malformed cache entries', () => {
+      fs.copySync(
+        path.join(fixturesPath, 'sushi-test-no-package#current'),
+        path.join(cachePath, 'sushi-test-no-package#current')
+      );
+      fs.ensureDirSync(path.join(cachePath, 'sushi-test-no-json#0.1.0', 'package'));
+      fs.outputFileSync(
+        path.join(cachePath, 'sushi-test-bad-json#0.1.0', 'package', 'package.json'),
+        '{ "name": '
+      );
+      writePackage('sushi-test-wrong-name#0.1.0', { name: 'sushi-test', version: '0.1.0' });
+      writePackage('sushi-test-wrong-version#0.1.0', {
+        name: 'sushi-test-wrong-version',
+        version: '0.2.0'
+      });
+      writePackage('sushi-test', { name: 'sushi-test', version: '0.1.0' });
+      expect(listCachedPackages(cachePath).map(p => [p.package, p.problems])).toEqual([
+        ['sushi-test', ['the directory name is not in the format packageId#version']],
+        ['sushi-test-bad-json#0.1.0', ['its package.json is not valid JSON']],
+        ['sushi-test-no-json#0.1.0', ['its package folder does not have a package.json']],
+        ['sushi-test-no-package#current', ['it does not have a package folder']],
+        ['sushi-test-wrong-name#0.1.0', ['its package.json is for sushi-test']],
+        ['sushi-test-wrong-version#0.1.0', ['its package.json is for version 0.2.0']]
+      ]);
+    });
+
+    it('should return an empty list when the cache does not exist', () => {
+      expect(listCachedPackages(path.join(cachePath, 'missing'))).toEqual([]);
+    });
+  });
+
+  describe('#removeCachedPackages()', () => {
+    beforeEach(() => {
+      writePackage('sushi-test#0.1.0', { name: 'sushi-test', version: '0.1.0' });
+      writePackage('sushi-test#0.2.0', { name: 'sushi-test', version: '0.2.0' });
+    });
+
+    it('should remove the packages from the cache and return them', async () => {
+      const removedPackages = await removeCachedPackages(['sushi-test#0.1.0'], cachePath, {}, log);
+      expect(removedPackages.map(p => p.package)).toEqual(['sushi-test#0.1.0']);
+      expect(fs.readdirSync(cachePath)).toEqual(['sushi-test#0.2.0']);
+      expect(loggerSpy.getLastMessage('info')).toMatch(
+        /^Removed sushi-test#0\.1\.0 \(\d+ B\) from .*\.$/
+      );
+    });
+
+    it('should not remove anything in a dry run', async () => {
+      const removedPackages = await removeCachedPackages(
+        ['sushi-test#0.1.0', 'sushi-test#0.2.0'],
+        cachePath,
+        { dryRun: true },
+        log
+      );
+      expect(removedPackages.map(p => p.package)).toEqual(['sushi-test#0.1.0', 'sushi-test#0.2.0']);
+      expect(fs.readdirSync(cachePath)).toEqual(['sushi-test#0.1.0', 'sushi-test#0.2.0']);
+      expect(loggerSpy.getLastMessage('info')).toMatch(/^Would remove sushi-test#0\.2\.0/);
+    });
+
+    it('should warn about packages that are not in the cache', async () => {
+      const removedPackages = await removeCachedPackages(['sushi-test#9.9.9'], cachePath, {}, log);
+      expect(removedPackages).toEqual([]);
+      expect(loggerSpy.getLastMessage('warn')).toBe(`sushi-test#9.9.9 is not in ${cachePath}.`);
+      expect(fs.readdirSync(cachePath)).toEqual(['sushi-test#0.1.0', 'sushi-test#0.2.0']);
+    });
+
+    it('should find packages regardless of case', async () => {
+      writePackage('sUshI-tESt-CaPs#0.1.0', { name: 'sUshI-tESt-CaPs', version: '0.1.0' });
+      const removedPackages = await removeCachedPackages(['sushi-test-caps#0.1.0'], cachePath);
+      expect(removedPackages.map(p => p.package)).toEqual(['sUshI-tESt-CaPs#0.1.0']);
+      expect(fs.existsSync(path.join(cachePath, 'sUshI-tESt-CaPs#0.1.0'))).toBe(false);
+    });
+
+    it('should not remove a package while another process holds its lock', async () => {
+      fs.writeJSONSync(getLockPath(cachePath, 'sushi-test#0.1.0'), {
+        pid: process.pid,
+        hostname: 'another-machine',
+        created: new Date().toISOString()
+      });
+      await expect(
+        removeCachedPackages(['sushi-test#0.1.0'], cachePath, { lockTimeout: 200 })
+      ).rejects.toThrow(CacheLockTimeoutError);
+      expect(fs.existsSync(path.join(cachePath, 'sushi-test#0.1.0'))).toBe(true);
+    });
+
+    it('should forget the definitions this process loaded from a removed package', async () => {
+      writePackage('hl7.fhir.us.removed#1.0.0', { name: 'hl7.fhir.us.removed', version: '1.0.0' });
+      expect(loadFromPath(cachePath, 'hl7.fhir.us.removed#1.0.0')).not.toBeNull();
+      await removeCachedPackages(['hl7.fhir.us.removed#1.0.0'], cachePath);
+      expect(loadFromPath(cachePath, 'hl7.fhir.us.removed#1.0.0')).toBeNull();
+    });
+  });
+
+  describe('#pruneCache()', () => {
+    const prunedPackages = async (options: PruneCacheOptions) =>
+      (await pruneCache(cachePath, options, log)).map(p => p.package);
+
+    it('should remove packages that were installed before the given number of days', async () => {
+      writePackage('sushi-test#0.1.0', { name: 'sushi-test', version: '0.1.0' });
+      writePackageMetadata(path.join(cachePath, 'sushi-test#0.1.0'), {
+        installed: daysAgo(40).toISOString()
+      });
+      writePackage('sushi-test#0.2.0', { name: 'sushi-test', version: '0.2.0' });
+      writePackageMetadata(path.join(cachePath, 'sushi-test#0.2.0'), {
+        installed: daysAgo(10).toISOString()
+      });
+      // Packages that were not installed by FPL use the time their directory was modified
+      writePackage('sushi-test#0.3.0', { name: 'sushi-test', version: '0.3.0' });
+      fs.utimesSync(path.join(cachePath, 'sushi-test#0.3.0'), daysAgo(60), daysAgo(60));
+      expect(await prunedPackages({ olderThan: 30 })).toEqual([
+        'sushi-test#0.1.0',
+        'sushi-test#0.3.0'
+      ]);
+      expect(fs.readdirSync(cachePath)).toEqual(['sushi-test#0.2.0']);
+    });
+
+    it('should remove all but the newest patch version of each minor version', async () => {
+      ['3.1.0', '3.1.1', '3.2.0', '4.0.0-ballot', '4.0.0', 'current'].forEach(version =>
+        writePackage(`hl7.fhir.us.core#${version}`, { name: 'hl7.fhir.us.core', version })
+      );
+      writePackage('hl7.fhir.us.mcode#3.1.0', { name: 'hl7.fhir.us.mcode', version: '3.1.0' });
+      expect(await prunedPackages({ keepLatestPatch: true })).toEqual([
+        'hl7.fhir.us.core#3.1.0',
+        'hl7.fhir.us.core#4.0.0-ballot'
+      ]);
+    });
+
+    it('should remove current$branch builds that have not been loaded recently', async () => {
+      ['current', 'current$old', 'current$checked', 'current$new'].forEach(version =>
+        writePackage(`sushi-test#${version}`, { name: 'sushi-test', version: '0.1.0' })
+      );
+      writePackageMetadata(path.join(cachePath, 'sushi-test#current'), {
+        installed: daysAgo(40).toISOString()
+      });
+      writePackageMetadata(path.join(cachePath, 'sushi-test#current$old'), {
+        installed: daysAgo(40).toISOString(),
+        checked: daysAgo(20).toISOString()
+      });
+      writePackageMetadata(path.join(cachePath, 'sushi-test#current$checked'), {
+        installed: daysAgo(40).toISOString(),
+        checked: daysAgo(2).toISOString()
+      });
+      writePackageMetadata(path.join(cachePath, 'sushi-test#current$new'), {
+        installed: daysAgo(1).toISOString()
+      });
+      expect(await prunedPackages({ unusedBranches: 14 })).toEqual(['sushi-test#current$old']);
+    });
+
+    it('should remove packages that are not listed in a lockfile or project', async () => {
+      ['3.1.0', '3.1.1', '4.0.0', '5.0.1', '6.1.0'].forEach(version =>
+        writePackage(`hl7.fhir.us.core#${version}`, { name: 'hl7.fhir.us.core', version })
+      );
+      writePackage('hl7.fhir.r4.core#4.0.1', { name: 'hl7.fhir.r4.core', version: '4.0.1' });
+      writePackage('sushi-test#current', { name: 'sushi-test', version: '0.1.0' });
+      writePackage('sushi-test#dev', { name: 'sushi-test', version: '0.1.0' });
+      const projectDirectory = temp.mkdirSync('fpl-project');
+      const lockfilePath = path.join(projectDirectory, 'fpl-lock.json');
+      fs.writeJSONSync(lockfilePath, {
+        lockfileVersion: 1,
+        packages: {
+          'hl7.fhir.us.core#latest': { version: '6.1.0' },
+          'sushi-test#current': { version: 'current' },
+          'file:../my-ig/output/package.tgz': { version: '0.1.0' }
+        }
+      });
+      const projectPath = path.join(projectDirectory, 'package.json');
+      fs.writeJSONSync(projectPath, {
+        name: 'my-ig',
+        dependencies: { 'hl7.fhir.r4.core': '4.0.1', 'hl7.fhir.us.core': '3.1.x' }
+      });
+      expect(await prunedPackages({ notIn: [lockfilePath, projectPath] })).toEqual([
+        'hl7.fhir.us.core#3.1.0',
+        'hl7.fhir.us.core#4.0.0',
+        'hl7.fhir.us.core#5.0.1',
+        'sushi-test#dev'
+      ]);
+    });
+
+    it('should throw when a file in notIn is not a lockfile or project', async () => {
+      writePackage('sushi-test#0.1.0', { name: 'sushi-test', version: '0.1.0' });
+      const otherPath = path.join(cachePath, 'other.json');
+      fs.writeJSONSync(otherPath, { name: 'other' });
+      await expect(pruneCache(cachePath, { notIn: [otherPath] })).rejects.toThrow(
+        `${otherPath} is not a lockfile or a package.json with dependencies`
+      );
+      expect(fs.existsSync(path.join(cachePath, 'sushi-test#0.1.0'))).toBe(true);
+    });
+
+    it('should remove packages that match any of the policies', async () => {
+      writePackage('sushi-test#0.1.0', { name: 'sushi-test', version: '0.1.0' });
+      writePackage('sushi-test#0.1.1', { name: 'sushi-test', version: '0.1.1' });
+      writePackage('sushi-test#0.2.0', { name: 'sushi-test', version: '0.2.0' });
+      fs.utimesSync(path.join(cachePath, 'sushi-test#0.2.0'), daysAgo(60), daysAgo(60));
+      expect(await prunedPackages({ olderThan: 30, keepLatestPatch: true })).toEqual([
+        'sushi-test#0.1.0',
+        'sushi-test#0.2.0'
+      ]);
+    });
+
+    it('should only report the packages that would be removed in a dry run', async () => {
+      writePackage('sushi-test#0.1.0', { name: 'sushi-test', version: '0.1.0' });
+      writePackage('sushi-test#0.1.1', { name: 'sushi-test', version: '0.1.1' });
+      expect(await prunedPackages({ keepLatestPatch: true, dryRun: true })).toEqual([
+        'sushi-test#0.1.0'
+      ]);
+      expect(fs.readdirSync(cachePath)).toEqual(['sushi-test#0.1.0', 'sushi-test#0.1.1']);
+      expect(loggerSpy.getLastMessage('info')).toMatch(/^Would remove sushi-test#0\.1\.0/);
+    });
+
+    it('should not remove anything when no policy is given', async () => {
+      writePackage('sushi-test#0.1.0', { name: 'sushi-test', version: '0.1.0' });
+      expect(await prunedPackages({})).toEqual([]);
+      expect(loggerSpy.getLastMessage('info')).toBe(
+        `There are no packages to prune from ${cachePath}.`
+      );
+      expect(fs.readdirSync(cachePath)).toEqual(['sushi-test#0.1.0']);
+    });
+  });
+});
@@ -0,0 +1,150 @@
+import {
+  DependencyResolution,
+  findDependencyCycles,
+  findPackageConflicts,
+  findSelectedPackages,
+  isVersionRange,
+  selectConflictVersion
+} from '../src/dependencies';
+
+describe('dependencies', () => {
+  let resolution: DependencyResolution;
+
+  beforeEach(() => {
+    resolution = {
+      roots: ['hl7.fhir.us.core#6.1.0', 'hl7.fhir.us.mcode#latest'],
+      resolved: new Map([
+        ['hl7.fhir.us.core#6.1.0', 'hl7.fhir.us.core#6.1.0'],
+        ['hl7.fhir.us.mcode#latest', 'hl7.fhir.us.mcode#3.0.0'],
+        ['hl7.terminology.r4#5.0.0', 'hl7.terminology.r4#5.0.0'],
+        ['hl7.terminology.r4#5.3.0', 'hl7.terminology.r4#5.3.0'],
+        ['hl7.terminology.r4#5.x', 'hl7.terminology.r4#5.3.0'],
+        ['hl7.fhir.uv.extensions.r4#1.0.0', 'hl7.fhir.uv.extensions.r4#1.0.0']
+      ]),
+      dependencies: new Map([
+        ['hl7.fhir.us.core#6.1.0', ['hl7.terminology.r4#5.0.0']],
+        ['hl7.fhir.us.mcode#3.0.0', ['hl7.terminology.r4#5.3.0', 'hl7.terminology.r4#5.x']],
+        ['hl7.terminology.r4#5.0.0', ['hl7.fhir.uv.extensions.r4#1.0.0']],
+        ['hl7.terminology.r4#5.3.0', []],
+        ['hl7.fhir.uv.extensions.r4#1.0.0', ['hl7.terminology.r4#5.0.0']]
+      ])
+    };
+  });
+
+  describe('#findPackageConflicts', () => {
+    it('should find each package that was requested with more than one resolved version', () => {
+      expect(findPackageConflicts(resolution)).toEqual([
+        {
+          packageId: 'hl7.terminology.r4',
+          requests: [
+            { version: '5.0.0', requestedBy: 'hl7.fhir.us.core#6.1.0' },
+            { version: '5.3.0', requestedBy: 'hl7.fhir.us.mcode#3.0.0' },
+            { version: '5.3.0', requestedBy: 'hl7.fhir.us.mcode#3.0.0' },
+            { version: '5.0.0', requestedBy: 'hl7.fhir.uv.extensions.r4#1.0.0' }
+          ]
+        }
+      ]);
+    });
+
+    it('should include packages that were requested directly', () => {
+      resolution.roots.push('hl7.fhir.us.core#5.0.1');
+      resolution.resolved.set('hl7.fhir.us.core#5.0.1', 'hl7.fhir.us.core#5.0.1');
+      const conflicts = findPackageConflicts(resolution);
+      expect(conflicts).toHaveLength(2);
+      expect(conflicts[0]).toEqual({
+        packageId: 'hl7.fhir.us.core',
+        requests: [{ version: '6.1.0' }, { version: '5.0.1' }]
+      });
+    });
+
+    it('should not report packages whose requests resolve to the same version', () => {
+      resolution.dependencies.set('hl7.fhir.us.core#6.1.0', ['hl7.terminology.r4#5.3.0']);
+      resolution.dependencies.set('hl7.fhir.uv.extensions.r4#1.0.0', []);
+      expect(findPackageConflicts(resolution)).toEqual([]);
+    });
+  });
+
+  describe('#selectConflictVersion', () => {
+    it('should select the highest version with the highest policy', () => {
+      const [conflict] = findPackageConflicts(resolution);
+      expect(selectConflictVersion(conflict, 'highest')).toBe('5.3.0');
+    });
+
+    it('should select the first declared version with the first policy', () => {
+      const [conflict] = findPackageConflicts(resolution);
+      expect(selectConflictVersion(conflict, 'first')).toBe('5.0.0');
+    });
+
+    it('should treat versions that are not semantic versions as the highest version', () => {
+      const conflict = {
+        packageId: 'hl7.terminology.r4',
+        requests: [{ version: '5.0.0' }, { version: 'current' }, { version: '5.3.0' }]
+      };
+      expect(selectConflictVersion(conflict, 'highest')).toBe('current');
+    });
+  });
+
+  describe('#findSelectedPackages', () => {
+    it('should only follow the selected version of each conflicting package', () => {
+      const conflicts = findPackageConflicts(resolution);
+      conflicts[0].selectedVersion = '5.3.0';
+      expect(Array.from(findSelectedPackages(resolution, conflicts))).toEqual([
+        'hl7.fhir.us.core#6.1.0',
+        'hl7.fhir.us.mcode#3.0.0',
+        'hl7.terminology.r4#5.3.0'
+      ]);
+    });
+
+    it('should keep the dependencies of the selected version', () => {
+      const conflicts = findPackageConflicts(resolution);
+      conflicts[0].selectedVersion = '5.0.0';
+      expect(Array.from(findSelectedPackages(resolution, conflicts))).toEqual([
+        'hl7.fhir.us.core#6.1.0',
+        'hl7.fhir.us.mcode#3.0.0',
+        'hl7.terminology.r4#5.0.0',
+        'hl7.fhir.uv.extensions.r4#1.0.0'
+      ]);
+    });
+  });
+
+  describe('#findDependencyCycles', () => {
+    it('should find each cycle in the dependency graph', () => {
+      expect(findDependencyCycles(resolution)).toEqual([
+        ['hl7.terminology.r4#5.0.0', 'hl7.fhir.uv.extensions.r4#1.0.0', 'hl7.terminology.r4#5.0.0']
+      ]);
+    });
+
+    it('should not find cycles in a graph without cycles', () => {
+      resolution.dependencies.set('hl7.fhir.uv.extensions.r4#1.0.0', []);
+      expect(findDependencyCycles(resolution)).toEqual([]);
+    });
+  });
+
+  describe('#isVersionRange', () => {
+    it('should treat versions with explicit range syntax as ranges', () => {
+      [
+        '^6.1.0',
+        '~3.1.0',
+        '>=4.0.0 <5',
+        '4.x',
+        '4.0.X',
+        '*',
+        '1.0.0 - 2.0.0',
+        '1.0.0 || 2.0.0'
+      ].forEach(version => expect(isVersionRange(version)).toBe(true));
+    });
+
+    it('should not treat exact or special versions as ranges', () => {
+      [
+        '6.1.0',
+        '1.0',
+        '4',
+        '1.0.0-ballot',
+        'latest',
+        'current',
+        'current$my-branch',
+        'dev'
+      ].forEach(version => expect(isVersionRange(version)).toBe(false));
+    });
+  });
+});
@@ -1,11 +1,18 @@
 import axios from 'axios';
+import crypto from 'crypto';
 import { cloneDeep } from 'lodash';
 import fs from 'fs-extra';
 import os from 'os';
 import process from 'process';
 import path from 'path';
 import tar from 'tar';
+import temp from 'temp';
+import { Readable, Writable } from 'stream';
+import zlib from 'zlib';
 import * as loadModule from '../src/load';
+import * as lockfileModule from '../src/lockfile';
+import * as cacheLockModule from '../src/utils/cacheLock';
+import * as packageMetadataModule from '../src/utils/packageMetadata';
 import {
   cleanCachedPackage,
   loadFromPath,
@@ -13,16 +20,35 @@ import {
   merge,
   loadDependencies,
   loadDependency,
+  mergeLocalDependency,
+  mergeLockedDependency,
   lookUpLatestVersion,
-  lookUpLatestPatchVersion
+  lookUpLatestPatchVersion,
+  lookUpLatestSatisfyingVersion,
+  getPackageInfo,
+  searchPackages
 } from '../src/load';
 import { FHIRDefinitions, Type } from '../src/FHIRDefinitions';
+import { LazyDefinition } from '../src/LazyDefinition';
+import { defaultPackageFetcher, PackageFetcher } from '../src/fetcher';
+import { LoadProgressEvent } from '../src/progress';
+import { FPL_INDEX_FILE } from '../src/utils/packageIndex';
 import {
+  CacheLockTimeoutError,
   IncorrectWildcardVersionFormatError,
   LatestVersionUnavailableError,
-  PackageLoadError
+  LoadCancelledError,
+  LocalPackageLoadError,
+  LockfileMismatchError,
+  OfflinePackageLoadError,
+  PackageConflictError,
+  PackageIdMismatchError,
+  PackageInfoUnavailableError,
+  PackageIntegrityError,
+  PackageLoadError,
+  PackageSearchUnavailableError
 } from '../src/errors';
-import { loggerSpy } from './testhelpers';
+import { copyFixtures, loggerSpy } from './testhelpers';
 
 // Represents a typical response from packages.fhir.org
 const TERM_PKG_RESPONSE = {
@@ -130,13 +156,42 @@ const EXT_PKG_RESPONSE = {
   }
 };
 
+// Package tarballs are streamed through gunzip and tar, so the mocked downloads are gzipped streams
+// and the mocked tar extraction is a stream that discards whatever is written to it
+const TARBALL = zlib.gzipSync('zipfile');
+const createTarballStream = () => Readable.from([TARBALL]);
+const createTarSink = (): any =>
+  new Writable({
+    write(chunk, encoding, callback) {
+      callback();
+    }
+  });
+// Packages are loaded from copies of the test packages, since loading a package writes its .fpl-index.json
+const fixturesPath = copyFixtures('fixtures');
+const testdefsPath = copyFixtures('testdefs');
+
+afterAll(() => {
+  fs.removeSync(fixturesPath);
+  fs.removeSync(testdefsPath);
+});
+
+// When the functions that write to the file system are mocked, packages are never really installed, so
+// the cache is not locked and the temporary directory that packages are extracted to is never created
+const mockCacheInstall = (): jest.SpyInstance[] => [
+  jest
+    .spyOn(cacheLockModule, 'withCacheLock')
+    .mockImplementation((cachePath, fullPackageName, fn) => fn(false)),
+  jest.spyOn(temp, 'mkdirSync').mockImplementation(() => path.join(os.tmpdir(), 'fpl-install')),
+  jest.spyOn(fs, 'ensureDirSync').mockImplementation(() => {})
+];
+
 describe('#loadFromPath()', () => {
   let defsWithChildDefs: FHIRDefinitions;
   let defs: FHIRDefinitions;
   beforeAll(() => {
     defs = new FHIRDefinitions();
     defsWithChildDefs = new FHIRDefinitions();
-    const pkg = loadFromPath(path.join(__dirname, 'testhelpers', 'testdefs'), 'r4-definitions');
+    const pkg = loadFromPath(testdefsPath, 'r4-definitions');
     pkg.defs.forEach(d => defs.add(d));
     defs.addPackageJson(pkg.package, pkg.packageJson);
     defs.package = pkg.package;
@@ -156,6 +211,15 @@ describe('#loadFromPath()', () => {
     defsWithChildDefs.childFHIRDefs.push(otherChildDef);
   });
 
+  it('should load definitions lazily from the package index', () => {
+    const pkg = loadFromPath(testdefsPath, 'package1');
+    expect(pkg.defs.length).toBeGreaterThan(0);
+    pkg.defs.forEach(d => expect(d).toBeInstanceOf(LazyDefinition));
+    expect(fs.existsSync(path.join(testdefsPath, 'package1', 'package', FPL_INDEX_FILE))).toBe(
+      true
+    );
+  });
+
   it('should load base FHIR resources from FHIRDefs with no children', () => {
     expect(defs.allResources().filter(r => r.id === 'Condition')).toHaveLength(1);
   });
@@ -391,6 +455,8 @@ describe('#loadDependencies()', () => {
             return Promise.resolve(FHIRDefs);
           } else if (/^self-signed.package$/.test(packageName)) {
             throw new Error('self signed certificate in certificate chain');
+          } else if (/^uncached\./.test(packageName)) {
+            throw new OfflinePackageLoadError(`${packageName}#${version}`, 'cache');
           } else {
             throw new PackageLoadError(`${packageName}#${version}`);
           }
@@ -422,7 +488,11 @@ describe('#loadDependencies()', () => {
       expect(defs.childFHIRDefs).toHaveLength(2);
       expect(defs.childFHIRDefs[0].package).toEqual('hl7.fhir.us.core#4.0.1');
       expect(defs.childFHIRDefs[1].package).toEqual('hl7.fhir.us.core#3.0.1');
-      expect(loggerSpy.getAllLogs('warn')).toHaveLength(0);
+      // Both versions are still loaded, but the conflict is reported
+      expect(loggerSpy.getAllMessages('warn')).toEqual([
+        'Multiple versions of hl7.fhir.us.core were requested: 4.0.1 (requested directly), 3.0.1 (requested directly).'
+      ]);
+      expect(defs.packageConflicts).toHaveLength(1);
       expect(loggerSpy.getAllLogs('error')).toHaveLength(0);
     });
   });
@@ -453,6 +523,312 @@ describe('#loadDependencies()', () => {
       );
     });
   });
+
+  it('should list the packages that are not in the cache when loading in offline mode', async () => {
+    const defs = await loadDependencies(
+      ['uncached.first#1.0.0', 'hl7.fhir.us.core#4.0.1', 'uncached.second#latest'],
+      'cache',
+      log,
+      { offline: true }
+    );
+    expect(defs.allUnsuccessfulPackageLoads()).toEqual([
+      'uncached.first#1.0.0',
+      'uncached.second#latest'
+    ]);
+    expect(loadModule.mergeDependency).toHaveBeenCalledWith(
+      'hl7.fhir.us.core',
+      '4.0.1',
+      expect.any(FHIRDefinitions),
+      'cache',
+      expect.any(Function),
+      { offline: true }
+    );
+    expect(loggerSpy.getLastMessage('error')).toBe(
+      'The following packages are not in cache and cannot be downloaded in offline mode: uncached.first#1.0.0, uncached.second#latest. Load them without the offline option to add them to the cache.'
+    );
+  });
+
+  it('should reject with a LoadCancelledError when a package load is cancelled', async () => {
+    jestSpy.mockImplementationOnce(async () => {
+      throw new LoadCancelledError();
+    });
+    await expect(
+      loadDependencies(['hl7.fhir.r4.core#4.0.1', 'hl7.fhir.us.core#6.1.0'], undefined, log)
+    ).rejects.toThrow(LoadCancelledError);
+    expect(loggerSpy.getAllLogs('error')).toHaveLength(0);
+  });
+
+  it('should not load any packages when the signal is already aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    jestSpy.mockClear();
+    await expect(
+      loadDependencies(['hl7.fhir.r4.core#4.0.1'], undefined, log, { signal: controller.signal })
+    ).rejects.toThrow(LoadCancelledError);
+    expect(jestSpy).not.toHaveBeenCalled();
+  });
+});
+
+describe('#loadDependencies() with recursive option', () => {
+  const log = (level: string, message: string) => {
+    loggerSpy.log(level, message);
+  };
+  // The dependencies declared in the package.json of each package the mock loader can find
+  const mockDependencies: { [pkg: string]: { [id: string]: string } } = {
+    'hl7.fhir.us.core#6.1.0': {
+      'hl7.fhir.r4.core': '4.0.1',
+      'hl7.terminology.r4': '5.0.0',
+      'hl7.fhir.uv.extensions.r4': '1.0.0'
+    },
+    'hl7.fhir.us.mcode#3.0.0': {
+      'hl7.fhir.r4.core': '4.0.1',
+      'hl7.fhir.us.core': '6.1.0'
+    },
+    'hl7.fhir.r4.core#4.0.1': {},
+    'hl7.terminology.r4#5.0.0': {
+      'hl7.fhir.r4.core': '4.0.1',
+      'hl7.fhir.uv.extensions.r4': '1.0.0'
+    },
+    'hl7.fhir.uv.extensions.r4#1.0.0': {
+      'hl7.fhir.r4.core': '4.0.1',
+      'hl7.terminology.r4': '5.0.0'
+    },
+    'hl7.terminology.r4#5.3.0': {
+      'hl7.fhir.r4.core': '4.0.1'
+    },
+    'hl7.fhir.us.newer#1.0.0': {
+      'hl7.terminology.r4': '5.3.0'
+    },
+    'hl7.fhir.us.broken#1.0.0': {
+      'hl7.does.not.exist': '1.0.0'
+    }
+  };
+  let jestSpy: jest.SpyInstance;
+  beforeAll(() => {
+    jestSpy = jest
+      .spyOn(loadModule, 'mergeDependency')
+      .mockImplementation(
+        async (packageName: string, version: string, FHIRDefs: FHIRDefinitions) => {
+          const fullPackageName = `${packageName}#${version}`;
+          if (mockDependencies[fullPackageName] == null) {
+            throw new PackageLoadError(fullPackageName);
+          }
+          FHIRDefs.package = fullPackageName;
+          FHIRDefs.addPackageJson(fullPackageName, {
+            name: packageName,
+            version,
+            dependencies: mockDependencies[fullPackageName]
+          });
+          return FHIRDefs;
+        }
+      );
+  });
+
+  beforeEach(() => {
+    loggerSpy.reset();
+    jestSpy.mockClear();
+  });
+
+  afterAll(() => {
+    jestSpy.mockRestore();
+  });
+
+  it('should not load dependencies declared in package.json when the recursive option is not set', async () => {
+    const defs = await loadDependencies(['hl7.fhir.us.core#6.1.0'], undefined, log);
+    expect(defs.allPackages()).toEqual(['hl7.fhir.us.core#6.1.0']);
+    expect(jestSpy).toHaveBeenCalledTimes(1);
+  });
+
+  it('should load each transitive dependency as a child FHIRDefinitions', async () => {
+    const defs = await loadDependencies(['hl7.fhir.us.core#6.1.0'], undefined, log, {
+      recursive: true
+    });
+    expect(defs.package).toEqual('');
+    expect(defs.childFHIRDefs.map(d => d.package)).toEqual([
+      'hl7.fhir.us.core#6.1.0',
+      'hl7.fhir.r4.core#4.0.1',
+      'hl7.terminology.r4#5.0.0',
+      'hl7.fhir.uv.extensions.r4#1.0.0'
+    ]);
+    expect(loggerSpy.getAllLogs('error')).toHaveLength(0);
+  });
+
+  it('should load a dependency shared by several packages only once', async () => {
+    const defs = await loadDependencies(
+      ['hl7.fhir.us.mcode#3.0.0', 'hl7.fhir.us.core#6.1.0'],
+      undefined,
+      log,
+      { recursive: true }
+    );
+    expect(defs.childFHIRDefs.map(d => d.package)).toEqual([
+      'hl7.fhir.us.mcode#3.0.0',
+      'hl7.fhir.us.core#6.1.0',
+      'hl7.fhir.r4.core#4.0.1',
+      'hl7.terminology.r4#5.0.0',
+      'hl7.fhir.uv.extensions.r4#1.0.0'
+    ]);
+    expect(jestSpy).toHaveBeenCalledTimes(5);
+  });
+
+  it('should report circular dependencies without loading them again', async () => {
+    const defs = await loadDependencies(['hl7.terminology.r4#5.0.0'], undefined, log, {
+      recursive: true
+    });
+    expect(defs.childFHIRDefs.map(d => d.package)).toEqual([
+      'hl7.terminology.r4#5.0.0',
+      'hl7.fhir.r4.core#4.0.1',
+      'hl7.fhir.uv.extensions.r4#1.0.0'
+    ]);
+    expect(jestSpy).toHaveBeenCalledTimes(3);
+    expect(loggerSpy.getAllMessages('info')).toContain(
+      'Circular dependency detected: hl7.terminology.r4#5.0.0 -> hl7.fhir.uv.extensions.r4#1.0.0 -> hl7.terminology.r4#5.0.0'
+    );
+  });
+
+  it('should report conflicting versions without a conflict policy and load every version', async () => {
+    const defs = await loadDependencies(
+      ['hl7.fhir.us.core#6.1.0', 'hl7.fhir.us.newer#1.0.0'],
+      undefined,
+      log,
+      { recursive: true }
+    );
+    expect(defs.allPackages()).toContain('hl7.terminology.r4#5.0.0');
+    expect(defs.allPackages()).toContain('hl7.terminology.r4#5.3.0');
+    expect(defs.packageConflicts).toEqual([
+      {
+        packageId: 'hl7.terminology.r4',
+        requests: [
+          { version: '5.0.0', requestedBy: 'hl7.fhir.us.core#6.1.0' },
+          { version: '5.3.0', requestedBy: 'hl7.fhir.us.newer#1.0.0' },
+          { version: '5.0.0', requestedBy: 'hl7.fhir.uv.extensions.r4#1.0.0' }
+        ]
+      }
+    ]);
+    expect(loggerSpy.getLastMessage('warn')).toBe(
+      'Multiple versions of hl7.terminology.r4 were requested: 5.0.0 (required by hl7.fhir.us.core#6.1.0), 5.3.0 (required by hl7.fhir.us.newer#1.0.0), 5.0.0 (required by hl7.fhir.uv.extensions.r4#1.0.0).'
+    );
+  });
+
+  it('should only keep the highest version of a conflicting package with the highest conflict policy', async () => {
+    const defs = await loadDependencies(
+      ['hl7.fhir.us.core#6.1.0', 'hl7.fhir.us.newer#1.0.0'],
+      undefined,
+      log,
+      { recursive: true, conflictPolicy: 'highest' }
+    );
+    expect(defs.childFHIRDefs.map(d => d.package)).toEqual([
+      'hl7.fhir.us.core#6.1.0',
+      'hl7.fhir.us.newer#1.0.0',
+      'hl7.fhir.r4.core#4.0.1',
+      'hl7.fhir.uv.extensions.r4#1.0.0',
+      'hl7.terminology.r4#5.3.0'
+    ]);
+    expect(defs.packageConflicts[0].selectedVersion).toBe('5.3.0');
+    expect(jestSpy.mock.calls.map(call => call.slice(0, 2))).not.toContainEqual([
+      'hl7.terminology.r4',
+      '5.0.0'
+    ]);
+    expect(loggerSpy.getLastMessage('warn')).toMatch(
+      /Only hl7\.terminology\.r4#5\.3\.0 will be loaded\.$/
+    );
+  });
+
+  it('should only keep the first declared version of a conflicting package with the first conflict policy', async () => {
+    const defs = await loadDependencies(
+      ['hl7.fhir.us.newer#1.0.0', 'hl7.fhir.us.core#6.1.0'],
+      undefined,
+      log,
+      { recursive: true, conflictPolicy: 'first' }
+    );
+    expect(defs.childFHIRDefs.map(d => d.package)).toEqual([
+      'hl7.fhir.us.newer#1.0.0',
+      'hl7.fhir.us.core#6.1.0',
+      'hl7.terminology.r4#5.3.0',
+      'hl7.fhir.r4.core#4.0.1',
+      'hl7.fhir.uv.extensions.r4#1.0.0'
+    ]);
+    expect(defs.packageConflicts[0].selectedVersion).toBe('5.3.0');
+    expect(jestSpy.mock.calls.map(call => call.slice(0, 2))).not.toContainEqual([
+      'hl7.terminology.r4',
+      '5.0.0'
+    ]);
+  });
+
+  it('should detect conflicts between packages that were requested directly', async () => {
+    const defs = await loadDependencies(
+      ['hl7.terminology.r4#5.0.0', 'hl7.terminology.r4#5.3.0'],
+      undefined,
+      log,
+      { conflictPolicy: 'highest' }
+    );
+    expect(defs.package).toBe('hl7.terminology.r4#5.3.0');
+    expect(defs.packageConflicts).toEqual([
+      {
+        packageId: 'hl7.terminology.r4',
+        requests: [{ version: '5.0.0' }, { version: '5.3.0' }],
+        selectedVersion: '5.3.0'
+      }
+    ]);
+  });
+
+  it('should throw a PackageConflictError with the fail conflict policy', async () => {
+    await expect(
+      loadDependencies(['hl7.fhir.us.core#6.1.0', 'hl7.fhir.us.newer#1.0.0'], undefined, log, {
+        recursive: true,
+        conflictPolicy: 'fail'
+      })
+    ).rejects.toThrow(
+      new PackageConflictError([
+        {
+          packageId: 'hl7.terminology.r4',
+          requests: [{ version: '5.0.0' }, { version: '5.3.0' }]
+        }
+      ])
+    );
+  });
+
+  it('should throw a PackageConflictError before loading conflicting dependencies with the fail conflict policy', async () => {
+    await expect(
+      loadDependencies(['hl7.fhir.us.core#6.1.0', 'hl7.fhir.us.newer#1.0.0'], undefined, log, {
+        recursive: true,
+        conflictPolicy: 'fail'
+      })
+    ).rejects.toThrow(PackageConflictError);
+    expect(jestSpy.mock.calls.map(call => `${call[0]}#${call[1]}`)).toEqual([
+      'hl7.fhir.us.core#6.1.0',
+      'hl7.fhir.us.newer#1.0.0'
+    ]);
+  });
+
+  it('should throw a PackageConflictError without loading any packages when conflicting versions are requested directly with the fail conflict policy', async () => {
+    await expect(
+      loadDependencies(['hl7.terminology.r4#5.0.0', 'hl7.terminology.r4#5.3.0'], undefined, log, {
+        conflictPolicy: 'fail'
+      })
+    ).rejects.toThrow(
+      new PackageConflictError([
+        {
+          packageId: 'hl7.terminology.r4',
+          requests: [{ version: '5.0.0' }, { version: '5.3.0' }]
+        }
+      ])
+    );
+    expect(jestSpy).not.toHaveBeenCalled();
+  });
+
+  it('should include transitive dependencies that fail to load in the unsuccessful package loads', async () => {
+    const defs = await loadDependencies(['hl7.fhir.us.broken#1.0.0'], undefined, log, {
+      recursive: true
+    });
+    expect(defs.childFHIRDefs.map(d => d.package)).toEqual([
+      'hl7.fhir.us.broken#1.0.0',
+      'hl7.does.not.exist#1.0.0'
+    ]);
+    expect(defs.allUnsuccessfulPackageLoads()).toEqual(['hl7.does.not.exist#1.0.0']);
+    expect(loggerSpy.getLastMessage('error')).toMatch(
+      /Failed to load hl7\.does\.not\.exist#1\.0\.0/s
+    );
+  });
 });
 
 describe('#loadDependency()', () => {
@@ -471,6 +847,8 @@ describe('#loadDependency()', () => {
             return Promise.resolve(FHIRDefs);
           } else if (/^self-signed.package$/.test(packageName)) {
             throw new Error('self signed certificate in certificate chain');
+          } else if (/^uncached\./.test(packageName)) {
+            throw new OfflinePackageLoadError(`${packageName}#${version}`, 'cache');
           } else {
             throw new PackageLoadError(`${packageName}#${version}`);
           }
@@ -541,7 +919,7 @@ describe('#mergeDependency()', () => {
   let tarSpy: jest.SpyInstance;
   let removeSpy: jest.SpyInstance;
   let moveSpy: jest.SpyInstance;
-  let writeSpy: jest.SpyInstance;
+  let writeMetadataSpy: jest.SpyInstance;
   let cachePath: string;
 
   // Many tests check that the right package was downloaded to the right place.
@@ -562,12 +940,12 @@ describe('#mergeDependency()', () => {
         if (typeof sources[0] === 'string') {
           mockCalls.push(
             [sources[0].replace(/package\.tgz$/, 'package.manifest.json')],
-            [sources[0], { responseType: 'arraybuffer' }]
+            [sources[0], { responseType: 'stream' }]
           );
         } else {
           mockCalls.push([sources[0].source.replace(/package\.tgz$/, 'package.manifest.json')]);
           if (sources[0].omitResponseType !== true) {
-            mockCalls.push([sources[0].source, { responseType: 'arraybuffer' }]);
+            mockCalls.push([sources[0].source, { responseType: 'stream' }]);
           }
         }
       }
@@ -576,25 +954,22 @@ describe('#mergeDependency()', () => {
       expect(axiosSpy.mock.calls).toEqual(
         sources.map(s => {
           if (typeof s === 'string') {
-            return [s, { responseType: 'arraybuffer' }];
+            return [s, { responseType: 'stream' }];
           } else {
             if (s.omitResponseType === true) {
               return [s.source];
             } else {
-              return [s.source, { responseType: 'arraybuffer' }];
+              return [s.source, { responseType: 'stream' }];
             }
           }
         })
       );
     }
     if (destination != null) {
-      const tempTarFile = writeSpy.mock.calls[0][0];
       const tempTarDirectory = tarSpy.mock.calls[0][0].cwd;
-      expect(tarSpy.mock.calls[0][0].file).toBe(tempTarFile);
       expect(moveSpy.mock.calls[0][0]).toBe(tempTarDirectory);
       expect(moveSpy.mock.calls[0][1]).toBe(destination);
     } else {
-      expect(writeSpy).toHaveBeenCalledTimes(0);
       expect(tarSpy).toHaveBeenCalledTimes(0);
       expect(moveSpy).toHaveBeenCalledTimes(0);
     }
@@ -697,7 +1072,7 @@ describe('#mergeDependency()', () => {
                 description:
                   'Definitions (API, structures and terminologies) for the R4 version of the FHIR standard',
                 dist: {
-                  shasum: '0e4b8d99f7918587557682c8b47df605424547a5',
+                  shasum: crypto.createHash('sha1').update(TARBALL).digest('hex'),
                   tarball: 'https://packages.fhir.org/hl7.fhir.r4.core/4.0.1'
                 },
                 fhirVersion: 'R4',
@@ -718,12 +1093,11 @@ describe('#mergeDependency()', () => {
         uri === 'https://packages2.fhir.org/packages/hl7.fhir.r5.core/4.5.0' ||
         uri === 'https://packages.fhir.org/hl7.fhir.r4.core/4.0.1' ||
         uri === 'https://packages2.fhir.org/packages/fhir.dicom/2021.4.20210910' ||
-        uri === 'https://custom-registry.example.org/good-thing/0.3.6'
+        uri === 'https://custom-registry.example.org/good-thing/0.3.6' ||
+        uri === 'https://example.org/pkg.tgz'
       ) {
         return {
-          data: {
-            some: 'zipfile'
-          }
+          data: createTarballStream()
         };
       } else if (
         uri === 'https://packages.fhir.org/hl7.fhir.r4b.core/4.1.0' ||
@@ -738,11 +1112,14 @@ describe('#mergeDependency()', () => {
     axiosHeadSpy = jest.spyOn(axios, 'head').mockImplementation((): any => {
       throw 'Method Not Allowed';
     });
-    tarSpy = jest.spyOn(tar, 'x').mockImplementation(() => {});
-    writeSpy = jest.spyOn(fs, 'writeFileSync').mockImplementation(() => {});
+    tarSpy = jest.spyOn(tar, 'x').mockImplementation(createTarSink);
     removeSpy = jest.spyOn(fs, 'removeSync').mockImplementation(() => {});
     moveSpy = jest.spyOn(fs, 'moveSync').mockImplementation(() => {});
-    cachePath = path.join(__dirname, 'testhelpers', 'fixtures');
+    writeMetadataSpy = jest
+      .spyOn(packageMetadataModule, 'writePackageMetadata')
+      .mockImplementation(() => {});
+    mockCacheInstall();
+    cachePath = fixturesPath;
     delete process.env.FPL_REGISTRY;
   });
 
@@ -752,9 +1129,9 @@ describe('#mergeDependency()', () => {
     axiosSpy.mockClear();
     axiosHeadSpy.mockClear();
     tarSpy.mockClear();
-    writeSpy.mockClear();
     moveSpy.mockClear();
     removeSpy.mockClear();
+    writeMetadataSpy.mockClear();
   });
 
   afterEach(() => {
@@ -785,7 +1162,10 @@ describe('#mergeDependency()', () => {
       'The package sushi-test#0.2.0 could not be loaded locally or from the FHIR package registry'
     ); // the package is never actually added to the cache, since tar is mocked
     expectDownloadSequence(
-      'https://packages.fhir.org/sushi-test/0.2.0',
+      [
+        { source: 'https://packages.fhir.org/sushi-test', omitResponseType: true },
+        { source: 'https://packages.fhir.org/sushi-test/0.2.0' }
+      ],
       path.join('foo', 'sushi-test#0.2.0')
     );
   });
@@ -795,7 +1175,10 @@ describe('#mergeDependency()', () => {
       'The package hl7.fhir.r4.core#4.0.1 could not be loaded locally or from the FHIR package registry'
     ); // the package is never actually added to the cache, since tar is mocked
     expectDownloadSequence(
-      'https://packages.fhir.org/hl7.fhir.r4.core/4.0.1',
+      [
+        { source: 'https://packages.fhir.org/hl7.fhir.r4.core', omitResponseType: true },
+        { source: 'https://packages.fhir.org/hl7.fhir.r4.core/4.0.1' }
+      ],
       path.join('foo', 'hl7.fhir.r4.core#4.0.1')
     );
   });
@@ -806,8 +1189,10 @@ describe('#mergeDependency()', () => {
     ); // the package is never actually added to the cache, since tar is mocked
     expectDownloadSequence(
       [
-        'https://packages.fhir.org/hl7.fhir.r4b.core/4.1.0',
-        'https://packages2.fhir.org/packages/hl7.fhir.r4b.core/4.1.0'
+        { source: 'https://packages.fhir.org/hl7.fhir.r4b.core', omitResponseType: true },
+        { source: 'https://packages.fhir.org/hl7.fhir.r4b.core/4.1.0' },
+        { source: 'https://packages2.fhir.org/packages/hl7.fhir.r4b.core', omitResponseType: true },
+        { source: 'https://packages2.fhir.org/packages/hl7.fhir.r4b.core/4.1.0' }
       ],
       path.join('foo', 'hl7.fhir.r4b.core#4.1.0')
     );
@@ -818,7 +1203,10 @@ describe('#mergeDependency()', () => {
       'The package hl7.fhir.r4b.core#4.3.0 could not be loaded locally or from the FHIR package registry'
     ); // the package is never actually added to the cache, since tar is mocked
     expectDownloadSequence(
-      'https://packages.fhir.org/hl7.fhir.r4b.core/4.3.0',
+      [
+        { source: 'https://packages.fhir.org/hl7.fhir.r4b.core', omitResponseType: true },
+        { source: 'https://packages.fhir.org/hl7.fhir.r4b.core/4.3.0' }
+      ],
       path.join('foo', 'hl7.fhir.r4b.core#4.3.0')
     );
   });
@@ -829,8 +1217,10 @@ describe('#mergeDependency()', () => {
     ); // the package is never actually added to the cache, since tar is mocked
     expectDownloadSequence(
       [
-        'https://packages.fhir.org/hl7.fhir.r5.core/4.5.0',
-        'https://packages2.fhir.org/packages/hl7.fhir.r5.core/4.5.0'
+        { source: 'https://packages.fhir.org/hl7.fhir.r5.core', omitResponseType: true },
+        { source: 'https://packages.fhir.org/hl7.fhir.r5.core/4.5.0' },
+        { source: 'https://packages2.fhir.org/packages/hl7.fhir.r5.core', omitResponseType: true },
+        { source: 'https://packages2.fhir.org/packages/hl7.fhir.r5.core/4.5.0' }
       ],
       path.join('foo', 'hl7.fhir.r5.core#4.5.0')
     );
@@ -844,8 +1234,10 @@ describe('#mergeDependency()', () => {
     ); // the package is never actually added to the cache, since tar is mocked
     expectDownloadSequence(
       [
-        'https://packages.fhir.org/fhir.dicom/2021.4.20210910',
-        'https://packages2.fhir.org/packages/fhir.dicom/2021.4.20210910'
+        { source: 'https://packages.fhir.org/fhir.dicom', omitResponseType: true },
+        { source: 'https://packages.fhir.org/fhir.dicom/2021.4.20210910' },
+        { source: 'https://packages2.fhir.org/packages/fhir.dicom', omitResponseType: true },
+        { source: 'https://packages2.fhir.org/packages/fhir.dicom/2021.4.20210910' }
       ],
       path.join('foo', 'fhir.dicom#2021.4.20210910')
     );
@@ -894,6 +1286,78 @@ describe('#mergeDependency()', () => {
     );
   });
 
+  it('should try the next custom registry when a custom registry does not have a package', async () => {
+    process.env.FPL_REGISTRY = 'https://internal.example.org, https://custom-registry.example.org/';
+    axiosSpy.mockImplementationOnce((): any => {
+      throw { response: { status: 404 } };
+    });
+    await expect(mergeDependency('good-thing', '0.3.6', defs, 'foo', log)).rejects.toThrow(
+      'The package good-thing#0.3.6 could not be loaded locally or from the custom FHIR package registry https://internal.example.org, https://custom-registry.example.org/'
+    ); // the package is never actually added to the cache, since tar is mocked
+    expectDownloadSequence(
+      [
+        { source: 'https://internal.example.org/good-thing', omitResponseType: true },
+        { source: 'https://custom-registry.example.org/good-thing', omitResponseType: true },
+        { source: 'https://custom-registry.example.org/good-thing/0.3.6' }
+      ],
+      path.join('foo', 'good-thing#0.3.6')
+    );
+    expect(loggerSpy.getAllMessages('info')).toContain(
+      'good-thing#0.3.6 was not found in https://internal.example.org, so https://custom-registry.example.org/ will be tried.'
+    );
+    expect(loggerSpy.getAllMessages('info')).toContain(
+      'Using registry https://custom-registry.example.org/ for good-thing#0.3.6.'
+    );
+  });
+
+  it('should try the public registries when none of the custom registries have a package', async () => {
+    process.env.FPL_REGISTRY = 'https://internal.example.org';
+    axiosSpy.mockImplementationOnce((): any => {
+      throw { response: { status: 404 } };
+    });
+    await expect(mergeDependency('good-thing', '0.3.6', defs, 'foo', log)).rejects.toThrow(
+      'The package good-thing#0.3.6 could not be loaded locally or from the FHIR package registry.'
+    ); // packages.fhir.org does not return the package in this test
+    expectDownloadSequence(
+      [
+        { source: 'https://internal.example.org/good-thing', omitResponseType: true },
+        { source: 'https://packages.fhir.org/good-thing', omitResponseType: true },
+        { source: 'https://packages.fhir.org/good-thing/0.3.6' }
+      ],
+      null
+    );
+    expect(loggerSpy.getAllMessages('info')).toContain(
+      'good-thing#0.3.6 was not found in https://internal.example.org, so https://packages.fhir.org will be tried.'
+    );
+  });
+
+  it('should not try the next custom registry when a custom registry fails for another reason', async () => {
+    process.env.FPL_REGISTRY = 'https://internal.example.org,https://custom-registry.example.org/';
+    axiosSpy.mockImplementationOnce((): any => {
+      throw { response: { status: 401 } };
+    });
+    await expect(mergeDependency('good-thing', '0.3.6', defs, 'foo', log)).rejects.toThrow(
+      'The package good-thing#0.3.6 could not be loaded locally or from the custom FHIR package registry https://internal.example.org, https://custom-registry.example.org/'
+    );
+    expect(axiosSpy.mock.calls).toEqual([['https://internal.example.org/good-thing']]);
+  });
+
+  it('should only load packages that match the scope of a custom registry from that registry', async () => {
+    process.env.FPL_REGISTRY = 'good-*=https://custom-registry.example.org/';
+    await expect(mergeDependency('good-thing', '0.3.6', defs, 'foo', log)).rejects.toThrow(
+      'The package good-thing#0.3.6 could not be loaded locally or from the custom FHIR package registry https://custom-registry.example.org/'
+    ); // the package is never actually added to the cache, since tar is mocked
+    await expect(mergeDependency('sushi-test', '0.2.0', defs, 'foo', log)).rejects.toThrow(
+      'The package sushi-test#0.2.0 could not be loaded locally or from the FHIR package registry'
+    ); // the package is never actually added to the cache, since tar is mocked
+    expect(axiosSpy.mock.calls.map(call => call[0])).toEqual([
+      'https://custom-registry.example.org/good-thing',
+      'https://custom-registry.example.org/good-thing/0.3.6',
+      'https://packages.fhir.org/sushi-test',
+      'https://packages.fhir.org/sushi-test/0.2.0'
+    ]);
+  });
+
   it('should throw PackageLoadError when a package with a non-current version is not cached or available on packages.fhir.org', async () => {
     await expect(mergeDependency('sushi-test', '0.3.0', defs, 'foo', log)).rejects.toThrow(
       'The package sushi-test#0.3.0 could not be loaded locally or from the FHIR package registry'
@@ -901,17 +1365,29 @@ describe('#mergeDependency()', () => {
     expect(loggerSpy.getLastMessage('info')).toMatch(
       /Unable to download most current version of sushi-test#0.3.0/
     );
-    expectDownloadSequence('https://packages.fhir.org/sushi-test/0.3.0', null);
+    expectDownloadSequence(
+      [
+        { source: 'https://packages.fhir.org/sushi-test', omitResponseType: true },
+        { source: 'https://packages.fhir.org/sushi-test/0.3.0' }
+      ],
+      null
+    );
   });
 
   it('should throw PackageLoadError when a package cannot be loaded from packages2.fhir.org', async () => {
     axiosSpy = jest
       .spyOn(axios, 'get')
+      .mockImplementationOnce((): any => {
+        throw 'Not Found';
+      })
       .mockImplementationOnce((uri: string): any => {
         if (uri === 'https://packages.fhir.org/fhir.fake/2022.1.01') {
           throw 'Not Found';
         }
       })
+      .mockImplementationOnce((): any => {
+        throw 'Not Found';
+      })
       .mockImplementationOnce((uri: string): any => {
         if (uri === 'https://packages2.fhir.org/packages/fhir.fake/2022.1.01') {
           throw 'Not Found';
@@ -922,13 +1398,30 @@ describe('#mergeDependency()', () => {
     ); // the package is never actually added to the cache, since tar is mocked
     expectDownloadSequence(
       [
-        'https://packages.fhir.org/fhir.fake/2022.1.01',
-        'https://packages2.fhir.org/packages/fhir.fake/2022.1.01'
+        { source: 'https://packages.fhir.org/fhir.fake', omitResponseType: true },
+        { source: 'https://packages.fhir.org/fhir.fake/2022.1.01' },
+        { source: 'https://packages2.fhir.org/packages/fhir.fake', omitResponseType: true },
+        { source: 'https://packages2.fhir.org/packages/fhir.fake/2022.1.01' }
       ],
       null
     );
   });
 
+  it('should store the location and integrity of a downloaded package with the cached package', async () => {
+    await expect(mergeDependency('sushi-test', '0.2.0', defs, 'foo', log)).rejects.toThrow(
+      'The package sushi-test#0.2.0 could not be loaded locally or from the FHIR package registry'
+    ); // the package is never actually added to the cache, since tar is mocked
+    expect(writeMetadataSpy).toHaveBeenCalledTimes(1);
+    expect(writeMetadataSpy).toHaveBeenCalledWith(path.join('foo', 'sushi-test#0.2.0'), {
+      resolved: 'https://packages.fhir.org/sushi-test/0.2.0',
+      registry: 'https://packages.fhir.org',
+      integrity: `sha512-${crypto.createHash('sha512').update(TARBALL).digest('base64')}`,
+      shasum: crypto.createHash('sha1').update(TARBALL).digest('hex'),
+      contentIntegrity: expect.stringMatching(/^sha512-/),
+      installed: expect.any(String)
+    });
+  });
+
   // Packages with current versions
   it('should not try to download a current package that is already in the cache and up to date', async () => {
     const expectedDefs = new FHIRDefinitions();
@@ -942,6 +1435,75 @@ describe('#mergeDependency()', () => {
     ]);
   });
 
+  it('should record when a current package that is already in the cache was checked', async () => {
+    await mergeDependency('sushi-test', 'current', defs, cachePath, log);
+    expect(writeMetadataSpy).toHaveBeenCalledTimes(1);
+    expect(writeMetadataSpy).toHaveBeenCalledWith(path.join(cachePath, 'sushi-test#current'), {
+      checked: expect.any(String)
+    });
+  });
+
+  describe('when a current package was checked before', () => {
+    let readMetadataSpy: jest.SpyInstance;
+    const hoursAgo = (hours: number) => new Date(Date.now() - hours * 60 * 60 * 1000).toISOString();
+
+    beforeEach(() => {
+      readMetadataSpy = jest.spyOn(packageMetadataModule, 'readPackageMetadata');
+    });
+
+    afterEach(() => {
+      readMetadataSpy.mockRestore();
+    });
+
+    it('should not check for a newer build of a current package that was checked within the last day', async () => {
+      readMetadataSpy.mockReturnValue({ checked: hoursAgo(23) });
+      const expectedDefs = new FHIRDefinitions();
+      merge(loadFromPath(cachePath, 'sushi-test#current'), expectedDefs);
+      await expect(mergeDependency('sushi-test', 'current', defs, cachePath, log)).resolves.toEqual(
+        expectedDefs
+      );
+      expect(axiosSpy).not.toHaveBeenCalled();
+      expect(writeMetadataSpy).not.toHaveBeenCalled();
+    });
+
+    it('should check for a newer build of a current package that was last checked over a day ago', async () => {
+      readMetadataSpy.mockReturnValue({ checked: hoursAgo(25) });
+      await mergeDependency('sushi-test', 'current', defs, cachePath, log);
+      expect(axiosSpy.mock.calls).toEqual([
+        ['https://build.fhir.org/ig/qas.json'],
+        ['https://build.fhir.org/ig/sushi/sushi-test/branches/master/package.manifest.json']
+      ]);
+    });
+
+    it('should check for a newer build of a current package that was checked before an invalid time', async () => {
+      readMetadataSpy.mockReturnValue({ checked: 'yesterday' });
+      await mergeDependency('sushi-test', 'current', defs, cachePath, log);
+      expect(axiosSpy.mock.calls[0]).toEqual(['https://build.fhir.org/ig/qas.json']);
+    });
+
+    it('should use the currentPackageTTL option to determine when to check for a newer build', async () => {
+      readMetadataSpy.mockReturnValue({ checked: hoursAgo(2) });
+      await mergeDependency('sushi-test', 'current', defs, cachePath, log, {
+        currentPackageTTL: 60 * 60 * 1000
+      });
+      expect(axiosSpy.mock.calls[0]).toEqual(['https://build.fhir.org/ig/qas.json']);
+      axiosSpy.mockClear();
+      await mergeDependency('sushi-test', 'current', defs, cachePath, log, {
+        currentPackageTTL: 3 * 60 * 60 * 1000
+      });
+      expect(axiosSpy).not.toHaveBeenCalled();
+    });
+
+    it('should check for a newer build of a current package that was checked recently when the refresh option is set', async () => {
+      readMetadataSpy.mockReturnValue({ checked: hoursAgo(0) });
+      await mergeDependency('sushi-test', 'current', defs, cachePath, log, { refresh: true });
+      expect(axiosSpy.mock.calls).toEqual([
+        ['https://build.fhir.org/ig/qas.json'],
+        ['https://build.fhir.org/ig/sushi/sushi-test/branches/master/package.manifest.json']
+      ]);
+    });
+  });
+
   it('should not try to download a current$branch package that is already in the cache and up to date', async () => {
     const expectedDefs = new FHIRDefinitions();
     merge(loadFromPath(cachePath, 'sushi-test#current$testbranch'), expectedDefs);
@@ -1052,7 +1614,7 @@ describe('#mergeDependency()', () => {
 
   it('should revert to an old locally cached current version when a newer current version is not available for download', async () => {
     const expectedDefs = new FHIRDefinitions();
-    loadFromPath(cachePath, 'sushi-test-no-download#current');
+    merge(loadFromPath(cachePath, 'sushi-test-no-download#current'), expectedDefs);
     await expect(
       mergeDependency('sushi-test-no-download', 'current', defs, cachePath, log)
     ).resolves.toEqual(expectedDefs);
@@ -1067,7 +1629,7 @@ describe('#mergeDependency()', () => {
   // Packages with dev versions
   it('should not try to download a dev package that is already in the cache', async () => {
     const expectedDefs = new FHIRDefinitions();
-    loadFromPath(cachePath, 'sushi-test#dev');
+    merge(loadFromPath(cachePath, 'sushi-test#dev'), expectedDefs);
     await expect(mergeDependency('sushi-test', 'dev', defs, cachePath, log)).resolves.toEqual(
       expectedDefs
     );
@@ -1101,7 +1663,10 @@ describe('#mergeDependency()', () => {
       'The package sushi-test#0.2.0 could not be loaded locally or from the FHIR package registry'
     ); // the package is never actually added to the cache, since tar is mocked
     expectDownloadSequence(
-      'https://packages.fhir.org/sushi-test/0.2.0',
+      [
+        { source: 'https://packages.fhir.org/sushi-test', omitResponseType: true },
+        { source: 'https://packages.fhir.org/sushi-test/0.2.0' }
+      ],
       path.join('foo', 'sushi-test#0.2.0')
     );
   });
@@ -1112,43 +1677,564 @@ describe('#mergeDependency()', () => {
       'The package sushi-test#0.2.0 could not be loaded locally or from the FHIR package registry'
     ); // the package is never actually added to the cache, since tar is mocked
     expectDownloadSequence(
-      'https://packages.fhir.org/sushi-test/0.2.0',
+      [
+        { source: 'https://packages.fhir.org/sushi-test', omitResponseType: true },
+        { source: 'https://packages.fhir.org/sushi-test/0.2.0' }
+      ],
       path.join('foo', 'sushi-test#0.2.0')
     );
   });
 
-  it('should throw IncorrectWildcardVersionFormatError when the given version uses a non-patch wildcard', async () => {
+  it('should load the latest satisfying version when the given version uses a non-patch wildcard', async () => {
+    const lookUpSpy = jest
+      .spyOn(loadModule, 'lookUpLatestSatisfyingVersion')
+      .mockResolvedValueOnce('0.2.0');
     await expect(mergeDependency('sushi-test', '0.x', defs, 'foo', log)).rejects.toThrow(
-      'Incorrect version format for package sushi-test: 0.x. Wildcard should only be used to specify patch versions.'
+      'The package sushi-test#0.2.0 could not be loaded locally or from the FHIR package registry'
+    ); // the package is never actually added to the cache, since tar is mocked
+    expect(lookUpSpy).toHaveBeenCalledWith('sushi-test', '0.x', expect.any(Function), {});
+    expectDownloadSequence(
+      [
+        { source: 'https://packages.fhir.org/sushi-test', omitResponseType: true },
+        { source: 'https://packages.fhir.org/sushi-test/0.2.0' }
+      ],
+      path.join('foo', 'sushi-test#0.2.0')
     );
-    expect(axiosSpy.mock.calls.length).toBe(0);
+    lookUpSpy.mockRestore();
   });
 
-  it('should throw CurrentPackageLoadError when a current package is not listed', async () => {
-    await expect(mergeDependency('hl7.fhir.us.core', 'current', defs, 'foo', log)).rejects.toThrow(
-      'The package hl7.fhir.us.core#current is not available on https://build.fhir.org/ig/qas.json, so no current version can be loaded'
+  it('should load the latest satisfying version when the given version is a semver range', async () => {
+    const lookUpSpy = jest
+      .spyOn(loadModule, 'lookUpLatestSatisfyingVersion')
+      .mockResolvedValueOnce('4.0.1');
+    await expect(
+      mergeDependency('hl7.fhir.r4.core', '>=4.0.0 <5', defs, 'foo', log)
+    ).rejects.toThrow(
+      'The package hl7.fhir.r4.core#4.0.1 could not be loaded locally or from the FHIR package registry'
+    ); // the package is never actually added to the cache, since tar is mocked
+    expect(lookUpSpy).toHaveBeenCalledWith(
+      'hl7.fhir.r4.core',
+      '>=4.0.0 <5',
+      expect.any(Function),
+      {}
     );
-    expect(axiosSpy.mock.calls.length).toBe(1);
-    expect(axiosSpy.mock.calls[0][0]).toBe('https://build.fhir.org/ig/qas.json');
+    expectDownloadSequence(
+      [
+        { source: 'https://packages.fhir.org/hl7.fhir.r4.core', omitResponseType: true },
+        { source: 'https://packages.fhir.org/hl7.fhir.r4.core/4.0.1' }
+      ],
+      path.join('foo', 'hl7.fhir.r4.core#4.0.1')
+    );
+    lookUpSpy.mockRestore();
   });
 
-  it('should throw CurrentPackageLoadError when https://build.fhir.org/ig/qas.json gives a bad response', async () => {
-    axiosSpy.mockImplementationOnce(() => {});
-    await expect(mergeDependency('bad.response', 'current', defs, 'foo', log)).rejects.toThrow(
-      'The package bad.response#current is not available on https://build.fhir.org/ig/qas.json, so no current version can be loaded'
+  it('should load an exact FHIR version that is not a semantic version without looking up versions', async () => {
+    const lookUpSpy = jest.spyOn(loadModule, 'lookUpLatestSatisfyingVersion');
+    lookUpSpy.mockClear();
+    await expect(mergeDependency('hl7.fhir.us.core', '1.0', defs, 'foo', log)).rejects.toThrow(
+      'The package hl7.fhir.us.core#1.0 could not be loaded locally or from the FHIR package registry'
+    ); // the registry does not return the package in this test
+    expect(lookUpSpy).not.toHaveBeenCalled();
+    expectDownloadSequence(
+      [
+        { source: 'https://packages.fhir.org/hl7.fhir.us.core', omitResponseType: true },
+        { source: 'https://packages.fhir.org/hl7.fhir.us.core/1.0' }
+      ],
+      null
     );
-    expect(axiosSpy.mock.calls.length).toBe(1);
-    expect(axiosSpy.mock.calls[0][0]).toBe('https://build.fhir.org/ig/qas.json');
+    lookUpSpy.mockRestore();
   });
-});
-
-describe('#cleanCachedPackage', () => {
-  let renameSpy: jest.SpyInstance;
-  let cachePath: string;
 
-  beforeAll(() => {
-    renameSpy = jest.spyOn(fs, 'renameSync').mockImplementation(() => {});
-    cachePath = path.join(__dirname, 'testhelpers', 'fixtures');
+  it('should look up the latest version that satisfies a semver range even when a cached version satisfies it', async () => {
+    const lookUpSpy = jest
+      .spyOn(loadModule, 'lookUpLatestSatisfyingVersion')
+      .mockResolvedValueOnce('0.1.0');
+    const expectedDefs = new FHIRDefinitions();
+    merge(loadFromPath(cachePath, 'sushi-test#0.1.0'), expectedDefs);
+    await expect(mergeDependency('sushi-test', '^0.1.0', defs, cachePath, log)).resolves.toEqual(
+      expectedDefs
+    );
+    expect(lookUpSpy).toHaveBeenCalledWith('sushi-test', '^0.1.0', expect.any(Function), {});
+    expect(loggerSpy.getAllMessages('info')).toContain(`Found sushi-test#0.1.0 in ${cachePath}.`);
+    lookUpSpy.mockRestore();
+  });
+
+  it('should use a cached version that satisfies a semver range when the registry cannot be reached', async () => {
+    const lookUpSpy = jest
+      .spyOn(loadModule, 'lookUpLatestSatisfyingVersion')
+      .mockRejectedValueOnce(
+        new LatestVersionUnavailableError('sushi-test', undefined, false, '^0.1.0')
+      );
+    const expectedDefs = new FHIRDefinitions();
+    merge(loadFromPath(cachePath, 'sushi-test#0.1.0'), expectedDefs);
+    await expect(mergeDependency('sushi-test', '^0.1.0', defs, cachePath, log)).resolves.toEqual(
+      expectedDefs
+    );
+    expect(axiosSpy.mock.calls.length).toBe(0);
+    expect(loggerSpy.getLastMessage('warn')).toBe(
+      `Latest version of package sushi-test satisfying ^0.1.0 could not be determined from the FHIR package registry, so sushi-test#0.1.0, the latest version of sushi-test in ${cachePath} that satisfies ^0.1.0, will be used.`
+    );
+    lookUpSpy.mockRestore();
+  });
+
+  it('should use a cached version that satisfies a patch wildcard when the registry cannot be reached', async () => {
+    const lookUpSpy = jest
+      .spyOn(loadModule, 'lookUpLatestPatchVersion')
+      .mockRejectedValueOnce(new LatestVersionUnavailableError('sushi-test', undefined, true));
+    const expectedDefs = new FHIRDefinitions();
+    merge(loadFromPath(cachePath, 'sushi-test#0.1.0'), expectedDefs);
+    await expect(mergeDependency('sushi-test', '0.1.x', defs, cachePath, log)).resolves.toEqual(
+      expectedDefs
+    );
+    expect(lookUpSpy).toHaveBeenCalledWith('sushi-test', '0.1.x', expect.any(Function), {});
+    expect(axiosSpy.mock.calls.length).toBe(0);
+    lookUpSpy.mockRestore();
+  });
+
+  it('should throw LatestVersionUnavailableError when the registry cannot be reached and no cached version satisfies a range', async () => {
+    const error = new LatestVersionUnavailableError('sushi-test', undefined, false, '^2.0.0');
+    const lookUpSpy = jest
+      .spyOn(loadModule, 'lookUpLatestSatisfyingVersion')
+      .mockRejectedValueOnce(error);
+    await expect(mergeDependency('sushi-test', '^2.0.0', defs, cachePath, log)).rejects.toBe(error);
+    lookUpSpy.mockRestore();
+  });
+
+  it('should load a package from a tarball URL using the version from its package.json', async () => {
+    const readJSONSpy = jest
+      .spyOn(fs, 'readJSONSync')
+      .mockReturnValueOnce({ name: 'my.partner.ig', version: '1.0.0' });
+    await expect(
+      mergeDependency('my.partner.ig', 'https://example.org/pkg.tgz', defs, 'foo', log)
+    ).rejects.toThrow(
+      'The package my.partner.ig#1.0.0 could not be loaded locally or from the FHIR package registry'
+    ); // the package is never actually added to the cache, since tar is mocked
+    expectDownloadSequence('https://example.org/pkg.tgz', path.join('foo', 'my.partner.ig#1.0.0'));
+    expect(writeMetadataSpy).toHaveBeenCalledWith(path.join('foo', 'my.partner.ig#1.0.0'), {
+      resolved: 'https://example.org/pkg.tgz',
+      integrity: expect.stringMatching(/^sha512-/),
+      shasum: expect.any(String),
+      contentIntegrity: expect.stringMatching(/^sha512-/),
+      installed: expect.any(String)
+    });
+    expect(loggerSpy.getAllMessages('info')).toContain(
+      'Package downloaded from https://example.org/pkg.tgz is my.partner.ig#1.0.0'
+    );
+    readJSONSpy.mockRestore();
+  });
+
+  it('should throw PackageIdMismatchError when a package from a tarball URL has a different id', async () => {
+    const readJSONSpy = jest
+      .spyOn(fs, 'readJSONSync')
+      .mockReturnValueOnce({ name: 'other.ig', version: '1.0.0' });
+    await expect(
+      mergeDependency('my.partner.ig', 'https://example.org/pkg.tgz', defs, 'foo', log)
+    ).rejects.toThrow(
+      new PackageIdMismatchError('my.partner.ig', 'https://example.org/pkg.tgz', 'other.ig')
+    );
+    expect(moveSpy).toHaveBeenCalledTimes(0);
+    expect(writeMetadataSpy).toHaveBeenCalledTimes(0);
+    readJSONSpy.mockRestore();
+  });
+
+  it('should throw CurrentPackageLoadError when a current package is not listed', async () => {
+    await expect(mergeDependency('hl7.fhir.us.core', 'current', defs, 'foo', log)).rejects.toThrow(
+      'The package hl7.fhir.us.core#current is not available on https://build.fhir.org/ig/qas.json, so no current version can be loaded'
+    );
+    expect(axiosSpy.mock.calls.length).toBe(1);
+    expect(axiosSpy.mock.calls[0][0]).toBe('https://build.fhir.org/ig/qas.json');
+  });
+
+  it('should throw CurrentPackageLoadError when https://build.fhir.org/ig/qas.json gives a bad response', async () => {
+    axiosSpy.mockImplementationOnce(() => {});
+    await expect(mergeDependency('bad.response', 'current', defs, 'foo', log)).rejects.toThrow(
+      'The package bad.response#current is not available on https://build.fhir.org/ig/qas.json, so no current version can be loaded'
+    );
+    expect(axiosSpy.mock.calls.length).toBe(1);
+    expect(axiosSpy.mock.calls[0][0]).toBe('https://build.fhir.org/ig/qas.json');
+  });
+
+  describe('in offline mode', () => {
+    it('should load the latest version of a package that is in the cache', async () => {
+      const expectedDefs = new FHIRDefinitions();
+      merge(loadFromPath(cachePath, 'sushi-test#0.1.0'), expectedDefs);
+      await expect(
+        mergeDependency('sushi-test', 'latest', defs, cachePath, log, { offline: true })
+      ).resolves.toEqual(expectedDefs);
+      expect(axiosSpy).not.toHaveBeenCalled();
+      expect(loggerSpy.getAllMessages('info')).toContain(
+        `Using sushi-test#0.1.0, the latest version of sushi-test in ${cachePath}, since packages cannot be downloaded in offline mode.`
+      );
+    });
+
+    it('should throw OfflinePackageLoadError when no version of a latest package is in the cache', async () => {
+      await expect(
+        mergeDependency('hl7.fhir.us.core', 'latest', defs, cachePath, log, { offline: true })
+      ).rejects.toThrow(new OfflinePackageLoadError('hl7.fhir.us.core#latest', cachePath));
+      expect(axiosSpy).not.toHaveBeenCalled();
+    });
+
+    it('should load a version in the cache that satisfies a range', async () => {
+      await mergeDependency('sushi-test', '0.x', defs, cachePath, log, { offline: true });
+      expect(defs.package).toBe('sushi-test#0.1.0');
+      expect(axiosSpy).not.toHaveBeenCalled();
+    });
+
+    it('should throw OfflinePackageLoadError when no version in the cache satisfies a range', async () => {
+      await expect(
+        mergeDependency('sushi-test', '^2.0.0', defs, cachePath, log, { offline: true })
+      ).rejects.toThrow(new OfflinePackageLoadError('sushi-test#^2.0.0', cachePath));
+      expect(axiosSpy).not.toHaveBeenCalled();
+    });
+
+    it('should load a cached current package without checking for a newer build', async () => {
+      const expectedDefs = new FHIRDefinitions();
+      merge(loadFromPath(cachePath, 'sushi-test#current'), expectedDefs);
+      await expect(
+        mergeDependency('sushi-test', 'current', defs, cachePath, log, { offline: true })
+      ).resolves.toEqual(expectedDefs);
+      expect(axiosSpy).not.toHaveBeenCalled();
+      expect(writeMetadataSpy).not.toHaveBeenCalled();
+    });
+
+    it('should throw OfflinePackageLoadError instead of downloading a package that is not in the cache', async () => {
+      await expect(
+        mergeDependency('hl7.fhir.r5.core', 'current', defs, cachePath, log, { offline: true })
+      ).rejects.toThrow(new OfflinePackageLoadError('hl7.fhir.r5.core#current', cachePath));
+      await expect(
+        mergeDependency('sushi-test', '0.2.0', defs, cachePath, log, { offline: true })
+      ).rejects.toThrow(new OfflinePackageLoadError('sushi-test#0.2.0', cachePath));
+      expect(axiosSpy).not.toHaveBeenCalled();
+      expect(tarSpy).not.toHaveBeenCalled();
+    });
+  });
+});
+
+describe('#loadDependencies() with lockfile option', () => {
+  const log = (level: string, message: string) => {
+    loggerSpy.log(level, message);
+  };
+  let lockfilePath: string;
+  let mergeSpy: jest.SpyInstance;
+  let mergeLockedSpy: jest.SpyInstance;
+  let readLockfileSpy: jest.SpyInstance;
+  let writeLockfileSpy: jest.SpyInstance;
+  beforeAll(() => {
+    // The lockfile must exist to be frozen, but its contents are provided by the readLockfile mock
+    lockfilePath = path.join(
+      fs.mkdtempSync(path.join(os.tmpdir(), 'fpl-project-')),
+      'fpl-lock.json'
+    );
+    fs.writeJSONSync(lockfilePath, { lockfileVersion: 1, packages: {} });
+    mergeSpy = jest
+      .spyOn(loadModule, 'mergeDependency')
+      .mockImplementation(
+        async (packageName: string, version: string, FHIRDefs: FHIRDefinitions) => {
+          FHIRDefs.package = `${packageName}#${version === 'latest' ? '6.1.0' : version}`;
+          return FHIRDefs;
+        }
+      );
+    mergeLockedSpy = jest
+      .spyOn(loadModule, 'mergeLockedDependency')
+      .mockImplementation(
+        async (packageName: string, lockedPackage: any, FHIRDefs: FHIRDefinitions) => {
+          FHIRDefs.package = `${packageName}#${lockedPackage.version}`;
+          return FHIRDefs;
+        }
+      );
+    readLockfileSpy = jest.spyOn(lockfileModule, 'readLockfile').mockReturnValue({
+      lockfileVersion: 1,
+      packages: {
+        'hl7.fhir.us.core#latest': {
+          version: '6.1.0',
+          resolved: 'https://packages.fhir.org/hl7.fhir.us.core/6.1.0'
+        }
+      }
+    });
+    writeLockfileSpy = jest.spyOn(lockfileModule, 'writeLockfile').mockImplementation(() => {});
+  });
+
+  beforeEach(() => {
+    loggerSpy.reset();
+    mergeSpy.mockClear();
+    mergeLockedSpy.mockClear();
+    readLockfileSpy.mockClear();
+    writeLockfileSpy.mockClear();
+  });
+
+  afterAll(() => {
+    fs.removeSync(path.dirname(lockfilePath));
+    mergeSpy.mockRestore();
+    mergeLockedSpy.mockRestore();
+    readLockfileSpy.mockRestore();
+    writeLockfileSpy.mockRestore();
+  });
+
+  // A registry that lists the integrity of us.core, but only the shasum of r4.core
+  const fetcher: PackageFetcher = {
+    fetchManifest: jest.fn(async (registry: string, packageName: string) => ({
+      versions:
+        packageName === 'hl7.fhir.us.core'
+          ? { '6.1.0': { dist: { tarball: `${registry}/us-core.tgz`, integrity: 'sha512-abc' } } }
+          : { '4.0.1': { dist: { shasum: 'abc' } } }
+    })),
+    fetchTarball: jest.fn(async () => ({ stream: Readable.from([TARBALL]) })),
+    fetchQAs: jest.fn(),
+    fetchBuildManifest: jest.fn()
+  };
+
+  it('should write a lockfile with the version, location, and integrity loaded for each requested package', async () => {
+    await loadDependencies(['hl7.fhir.us.core#latest', 'hl7.fhir.r4.core#4.0.1'], 'foo', log, {
+      lockfile: lockfilePath,
+      fetcher
+    });
+    expect(mergeSpy).toHaveBeenCalledTimes(2);
+    expect(readLockfileSpy).not.toHaveBeenCalled();
+    // Neither package has stored metadata, so they are located in the registry and r4.core is downloaded
+    // to compute its integrity
+    expect(writeLockfileSpy).toHaveBeenCalledWith(lockfilePath, {
+      lockfileVersion: 1,
+      packages: {
+        'hl7.fhir.r4.core#4.0.1': {
+          version: '4.0.1',
+          resolved: 'https://packages.fhir.org/hl7.fhir.r4.core/4.0.1',
+          registry: 'https://packages.fhir.org',
+          integrity: `sha512-${crypto.createHash('sha512').update(TARBALL).digest('base64')}`
+        },
+        'hl7.fhir.us.core#latest': {
+          version: '6.1.0',
+          resolved: 'https://packages.fhir.org/us-core.tgz',
+          registry: 'https://packages.fhir.org',
+          integrity: 'sha512-abc'
+        }
+      }
+    });
+    expect(fetcher.fetchTarball).toHaveBeenCalledTimes(1);
+    expect(loggerSpy.getLastMessage('info')).toBe(`Wrote lockfile ${lockfilePath}`);
+  });
+
+  it('should only record the location of packages without stored metadata in offline mode', async () => {
+    await loadDependencies(['hl7.fhir.r4.core#4.0.1'], 'foo', log, {
+      lockfile: lockfilePath,
+      offline: true
+    });
+    expect(writeLockfileSpy).toHaveBeenCalledWith(lockfilePath, {
+      lockfileVersion: 1,
+      packages: {
+        'hl7.fhir.r4.core#4.0.1': {
+          version: '4.0.1',
+          resolved: 'https://packages.fhir.org/hl7.fhir.r4.core/4.0.1'
+        }
+      }
+    });
+  });
+
+  it('should load the locked packages and not write the lockfile when the lockfile is frozen', async () => {
+    const defs = await loadDependencies(['hl7.fhir.us.core#latest'], 'foo', log, {
+      lockfile: lockfilePath,
+      frozenLockfile: true
+    });
+    expect(defs.package).toBe('hl7.fhir.us.core#6.1.0');
+    expect(readLockfileSpy).toHaveBeenCalledWith(lockfilePath);
+    expect(mergeSpy).not.toHaveBeenCalled();
+    expect(mergeLockedSpy).toHaveBeenCalledWith(
+      'hl7.fhir.us.core',
+      {
+        version: '6.1.0',
+        resolved: 'https://packages.fhir.org/hl7.fhir.us.core/6.1.0'
+      },
+      expect.any(FHIRDefinitions),
+      'foo',
+      expect.any(Function),
+      expect.objectContaining({ frozenLockfile: true })
+    );
+    expect(writeLockfileSpy).not.toHaveBeenCalled();
+  });
+
+  it('should throw a clear error when a frozen lockfile does not exist', async () => {
+    const missingLockfile = path.join(os.tmpdir(), 'fpl-missing', 'fpl-lock.json');
+    await expect(
+      loadDependencies(['hl7.fhir.us.core#latest'], 'foo', log, {
+        lockfile: missingLockfile,
+        frozenLockfile: true
+      })
+    ).rejects.toThrow(
+      `The lockfile ${missingLockfile} does not exist, so the packages cannot be loaded from a frozen lockfile. Load them without the frozen lockfile option to create it.`
+    );
+    expect(readLockfileSpy).not.toHaveBeenCalled();
+    expect(mergeLockedSpy).not.toHaveBeenCalled();
+  });
+
+  it('should fail to load a package that is not in a frozen lockfile', async () => {
+    const defs = await loadDependencies(['hl7.fhir.r4.core#4.0.1'], 'foo', log, {
+      lockfile: lockfilePath,
+      frozenLockfile: true
+    });
+    expect(defs.allUnsuccessfulPackageLoads()).toEqual(['hl7.fhir.r4.core#4.0.1']);
+    expect(mergeLockedSpy).not.toHaveBeenCalled();
+    expect(loggerSpy.getLastMessage('error')).toBe(
+      `Failed to load hl7.fhir.r4.core#4.0.1: The package hl7.fhir.r4.core#4.0.1 does not match the lockfile: the package is not in ${lockfilePath}`
+    );
+  });
+});
+
+describe('#mergeLockedDependency()', () => {
+  const log = (level: string, message: string) => {
+    loggerSpy.log(level, message);
+  };
+  const integrity = `sha512-${crypto.createHash('sha512').update(TARBALL).digest('base64')}`;
+  let defs: FHIRDefinitions;
+  let cachePath: string;
+  let axiosSpy: jest.SpyInstance;
+  let tarSpy: jest.SpyInstance;
+  let moveSpy: jest.SpyInstance;
+  let writeMetadataSpy: jest.SpyInstance;
+  let readMetadataSpy: jest.SpyInstance;
+  let cacheInstallSpies: jest.SpyInstance[];
+
+  beforeAll(() => {
+    cachePath = fixturesPath;
+    axiosSpy = jest.spyOn(axios, 'get');
+    axiosSpy.mockReset().mockImplementation((): any => ({ data: createTarballStream() }));
+    tarSpy = jest.spyOn(tar, 'x').mockImplementation(createTarSink);
+    moveSpy = jest.spyOn(fs, 'moveSync').mockImplementation(() => {});
+    writeMetadataSpy = jest
+      .spyOn(packageMetadataModule, 'writePackageMetadata')
+      .mockImplementation(() => {});
+    readMetadataSpy = jest.spyOn(packageMetadataModule, 'readPackageMetadata');
+    cacheInstallSpies = mockCacheInstall();
+  });
+
+  beforeEach(() => {
+    loggerSpy.reset();
+    defs = new FHIRDefinitions();
+    axiosSpy.mockClear();
+    tarSpy.mockClear();
+    moveSpy.mockClear();
+    writeMetadataSpy.mockClear();
+    readMetadataSpy.mockReset();
+    readMetadataSpy.mockReturnValue({});
+  });
+
+  afterAll(() => {
+    axiosSpy.mockRestore();
+    tarSpy.mockRestore();
+    moveSpy.mockRestore();
+    writeMetadataSpy.mockRestore();
+    readMetadataSpy.mockRestore();
+    cacheInstallSpies.forEach(spy => spy.mockRestore());
+  });
+
+  it('should load a locked package that is already in the cache without downloading it', async () => {
+    const expectedDefs = new FHIRDefinitions();
+    merge(loadFromPath(cachePath, 'sushi-test#0.1.0'), expectedDefs);
+    await expect(
+      mergeLockedDependency('sushi-test', { version: '0.1.0' }, defs, cachePath, log)
+    ).resolves.toEqual(expectedDefs);
+    expect(axiosSpy).not.toHaveBeenCalled();
+  });
+
+  it('should load a locked current package that is in the cache with the locked build date', async () => {
+    await expect(
+      mergeLockedDependency(
+        'sushi-test',
+        { version: 'current', date: '20200413230227' },
+        defs,
+        cachePath,
+        log
+      )
+    ).resolves.toBeTruthy();
+    expect(axiosSpy).not.toHaveBeenCalled();
+  });
+
+  it('should throw LockfileMismatchError when a locked current package has a different build date', async () => {
+    await expect(
+      mergeLockedDependency(
+        'sushi-test',
+        { version: 'current', date: '20230101120000' },
+        defs,
+        cachePath,
+        log
+      )
+    ).rejects.toThrow(
+      'The package sushi-test#current does not match the lockfile: package build date 2020-04-13T23:02:27 does not match locked build date 2023-01-01T12:00:00'
+    );
+    expect(axiosSpy).not.toHaveBeenCalled();
+  });
+
+  it('should throw LockfileMismatchError when a cached package has a different integrity', async () => {
+    readMetadataSpy.mockReturnValue({ integrity: 'sha512-other' });
+    await expect(
+      mergeLockedDependency('sushi-test', { version: '0.1.0', integrity }, defs, cachePath, log)
+    ).rejects.toThrow(LockfileMismatchError);
+  });
+
+  it('should download a locked package that is not in the cache from the locked location', async () => {
+    await expect(
+      mergeLockedDependency(
+        'sushi-test',
+        { version: '0.2.0', resolved: 'https://example.org/sushi-test-0.2.0.tgz', integrity },
+        defs,
+        'foo',
+        log
+      )
+    ).rejects.toThrow(PackageLoadError); // the package is never actually added to the cache, since tar is mocked
+    expect(axiosSpy.mock.calls).toEqual([
+      ['https://example.org/sushi-test-0.2.0.tgz', { responseType: 'stream' }]
+    ]);
+    expect(moveSpy.mock.calls[0][1]).toBe(path.join('foo', 'sushi-test#0.2.0'));
+  });
+
+  it('should throw LockfileMismatchError and not cache a downloaded package with a different integrity', async () => {
+    await expect(
+      mergeLockedDependency(
+        'sushi-test',
+        {
+          version: '0.2.0',
+          resolved: 'https://example.org/sushi-test-0.2.0.tgz',
+          integrity: 'sha512-other'
+        },
+        defs,
+        'foo',
+        log
+      )
+    ).rejects.toThrow(
+      `The package sushi-test#0.2.0 does not match the lockfile: downloaded package integrity ${integrity} does not match locked integrity sha512-other`
+    );
+    expect(moveSpy).not.toHaveBeenCalled();
+  });
+
+  it('should throw LockfileMismatchError when a locked package is not cached and has no locked location', async () => {
+    await expect(
+      mergeLockedDependency('sushi-test', { version: '0.2.0' }, defs, 'foo', log)
+    ).rejects.toThrow(
+      'The package sushi-test#0.2.0 does not match the lockfile: the package is not cached and the lockfile does not record where to download it from'
+    );
+    expect(axiosSpy).not.toHaveBeenCalled();
+  });
+
+  it('should throw OfflinePackageLoadError instead of downloading a locked package in offline mode', async () => {
+    await expect(
+      mergeLockedDependency(
+        'sushi-test',
+        { version: '0.2.0', resolved: 'https://packages.fhir.org/sushi-test/0.2.0' },
+        defs,
+        'foo',
+        log,
+        { offline: true }
+      )
+    ).rejects.toThrow(new OfflinePackageLoadError('sushi-test#0.2.0', 'foo'));
+    expect(axiosSpy).not.toHaveBeenCalled();
+  });
+});
+
+describe('#cleanCachedPackage', () => {
+  let renameSpy: jest.SpyInstance;
+  let cachePath: string;
+
+  beforeAll(() => {
+    renameSpy = jest.spyOn(fs, 'renameSync').mockImplementation(() => {});
+    cachePath = fixturesPath;
   });
 
   beforeEach(() => {
@@ -1218,6 +2304,14 @@ describe('#lookUpLatestVersion', () => {
     axiosSpy.mockRestore();
   });
 
+  it('should reject with a LoadCancelledError when the signal is aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    await expect(
+      lookUpLatestVersion('hl7.terminology.r4', undefined, { signal: controller.signal })
+    ).rejects.toThrow(LoadCancelledError);
+  });
+
   it('should get the latest version for a package on the packages server', async () => {
     const latest = await lookUpLatestVersion('hl7.terminology.r4');
     expect(latest).toBe('1.2.3-test');
@@ -1234,6 +2328,19 @@ describe('#lookUpLatestVersion', () => {
     expect(latest).toBe('1.2.3-test');
   });
 
+  it('should get the latest version for a package from the next custom server when a custom server does not have it', async () => {
+    process.env.FPL_REGISTRY = 'https://internal.example.org,https://custom-registry.example.org/';
+    axiosSpy.mockImplementationOnce((): any => {
+      throw { response: { status: 404 } };
+    });
+    const latest = await lookUpLatestVersion('hl7.terminology.r4');
+    expect(latest).toBe('1.2.3-test');
+    expect(axiosSpy.mock.calls.slice(-2).map(call => call[0])).toEqual([
+      'https://internal.example.org/hl7.terminology.r4',
+      'https://custom-registry.example.org/hl7.terminology.r4'
+    ]);
+  });
+
   it('should throw LatestVersionUnavailableError when the request to get package information fails', async () => {
     await expect(lookUpLatestVersion('hl7.bogus.package')).rejects.toThrow(
       LatestVersionUnavailableError
@@ -1364,3 +2471,907 @@ describe('#lookUpLatestPatchVersion', () => {
     );
   });
 });
+
+describe('#lookUpLatestSatisfyingVersion', () => {
+  let axiosSpy: jest.SpyInstance;
+
+  beforeAll(() => {
+    axiosSpy = jest.spyOn(axios, 'get').mockImplementation((uri: string): any => {
+      if (
+        uri === 'https://custom-registry.example.org/hl7.terminology.r4' ||
+        uri === 'https://packages.fhir.org/hl7.terminology.r4'
+      ) {
+        return { data: TERM_PKG_RESPONSE };
+      } else if (uri === 'https://packages2.fhir.org/packages/hl7.fhir.uv.extensions') {
+        return { data: EXT_PKG_RESPONSE };
+      } else if (uri === 'https://packages.fhir.org/hl7.no.versions') {
+        return {
+          data: {
+            name: 'hl7.no.versions',
+            'dist-tags': {
+              v1: '1.5.1'
+            }
+          }
+        };
+      } else {
+        throw new Error('Not found');
+      }
+    });
+  });
+
+  afterEach(() => {
+    delete process.env.FPL_REGISTRY;
+  });
+
+  afterAll(() => {
+    axiosSpy.mockRestore();
+  });
+
+  it('should get the latest version that satisfies a caret range', async () => {
+    await expect(lookUpLatestSatisfyingVersion('hl7.terminology.r4', '^1.1.0')).resolves.toBe(
+      '1.1.2'
+    );
+  });
+
+  it('should get the latest version that satisfies a tilde range', async () => {
+    await expect(lookUpLatestSatisfyingVersion('hl7.fhir.uv.extensions', '~2.0.0')).resolves.toBe(
+      '2.0.2'
+    );
+  });
+
+  it('should get the latest version that satisfies a comparison range', async () => {
+    await expect(
+      lookUpLatestSatisfyingVersion('hl7.terminology.r4', '>=1.0.0 <1.1.2')
+    ).resolves.toBe('1.1.1');
+  });
+
+  it('should get the latest version that satisfies a minor wildcard or any version', async () => {
+    await expect(lookUpLatestSatisfyingVersion('hl7.terminology.r4', '1.x')).resolves.toBe('1.1.2');
+    await expect(lookUpLatestSatisfyingVersion('hl7.fhir.uv.extensions', '*')).resolves.toBe(
+      '2.0.2'
+    );
+  });
+
+  it('should get the latest version from a custom registry', async () => {
+    process.env.FPL_REGISTRY = 'https://custom-registry.example.org/';
+    await expect(lookUpLatestSatisfyingVersion('hl7.terminology.r4', '^1.1.0')).resolves.toBe(
+      '1.1.2'
+    );
+  });
+
+  it('should get the latest version from the public registries when the custom registries do not have the package', async () => {
+    process.env.FPL_REGISTRY = 'https://internal.example.org, https://other.example.org';
+    axiosSpy.mockClear();
+    axiosSpy
+      .mockImplementationOnce((): any => {
+        throw { response: { status: 404 } };
+      })
+      .mockImplementationOnce((): any => {
+        throw { response: { status: 404 } };
+      });
+    await expect(lookUpLatestSatisfyingVersion('hl7.fhir.uv.extensions', '~2.0.0')).resolves.toBe(
+      '2.0.2'
+    );
+    expect(axiosSpy.mock.calls.map(call => call[0])).toEqual([
+      'https://internal.example.org/hl7.fhir.uv.extensions',
+      'https://other.example.org/hl7.fhir.uv.extensions',
+      'https://packages.fhir.org/hl7.fhir.uv.extensions',
+      'https://packages2.fhir.org/packages/hl7.fhir.uv.extensions'
+    ]);
+  });
+
+  it('should exclude pre-release versions unless the range includes a pre-release version', async () => {
+    await expect(lookUpLatestSatisfyingVersion('hl7.terminology.r4', '>=1.2.0')).rejects.toThrow(
+      'Latest version of package hl7.terminology.r4 satisfying >=1.2.0 could not be determined from the FHIR package registry'
+    );
+    await expect(
+      lookUpLatestSatisfyingVersion('hl7.terminology.r4', '>=1.2.3-alpha')
+    ).resolves.toBe('1.2.3-test');
+  });
+
+  it('should throw LatestVersionUnavailableError when the request to get package information fails', async () => {
+    await expect(lookUpLatestSatisfyingVersion('hl7.bogus.package', '^1.0.0')).rejects.toThrow(
+      LatestVersionUnavailableError
+    );
+  });
+
+  it('should throw LatestVersionUnavailableError when the package exists, but has no versions listed', async () => {
+    await expect(lookUpLatestSatisfyingVersion('hl7.no.versions', '^1.0.0')).rejects.toThrow(
+      LatestVersionUnavailableError
+    );
+  });
+});
+
+describe('#getPackageInfo', () => {
+  let axiosSpy: jest.SpyInstance;
+  let cachePath: string;
+
+  beforeAll(() => {
+    temp.track();
+    axiosSpy = jest.spyOn(axios, 'get').mockImplementation((uri: string): any => {
+      if (
+        uri === 'https://custom-registry.example.org/hl7.terminology.r4' ||
+        uri === 'https://packages.fhir.org/hl7.terminology.r4'
+      ) {
+        return { data: TERM_PKG_RESPONSE };
+      } else if (uri === 'https://packages2.fhir.org/packages/hl7.fhir.us.example') {
+        return {
+          data: {
+            name: 'hl7.fhir.us.example',
+            description: 'An example IG',
+            'dist-tags': { latest: '2.0.0' },
+            versions: {
+              '1.0.0': {
+                version: '1.0.0',
+                date: '2022-01-15T12:00:00Z',
+                fhirVersion: '4.0.1',
+                canonical: 'http://hl7.org/fhir/us/example'
+              },
+              '2.0.0': {
+                version: '2.0.0',
+                fhirVersions: ['4.0.1'],
+                canonical: 'http://hl7.org/fhir/us/example',
+                dependencies: { 'hl7.fhir.r4.core': '4.0.1', 'hl7.fhir.us.core': '6.1.0' }
+              },
+              '2.1.0-ballot': { version: '2.1.0-ballot', 'fhir-version-list': ['4.0.1', '5.0.0'] }
+            },
+            time: { '2.0.0': '2023-06-01T12:00:00Z' }
+          }
+        };
+      } else if (uri === 'https://packages.fhir.org/hl7.no.versions') {
+        return { data: { name: 'hl7.no.versions' } };
+      } else {
+        throw new Error('Not found');
+      }
+    });
+  });
+
+  beforeEach(() => {
+    cachePath = temp.mkdirSync('fpl-info-test');
+  });
+
+  afterEach(() => {
+    delete process.env.FPL_REGISTRY;
+  });
+
+  afterAll(() => {
+    axiosSpy.mockRestore();
+  });
+
+  it('should get the versions and dist-tags of a package on the packages server', async () => {
+    const info = await getPackageInfo('hl7.terminology.r4', cachePath);
+    expect(info.name).toBe('hl7.terminology.r4');
+    expect(info.description).toBe('None.');
+    expect(info.distTags).toEqual({ latest: '1.2.3-test' });
+    expect(info.versions.map(v => v.version)).toEqual(['1.2.3-test', '1.1.2', '1.1.1', '1.1.0']);
+    expect(info.versions[0]).toEqual({
+      version: '1.2.3-test',
+      fhirVersions: ['R4'],
+      cached: false
+    });
+  });
+
+  it('should get the dates, FHIR versions, dependencies, and canonical of a package on the packages2 server', async () => {
+    const info = await getPackageInfo('hl7.fhir.us.example', cachePath);
+    expect(info).toEqual({
+      name: 'hl7.fhir.us.example',
+      description: 'An example IG',
+      canonical: 'http://hl7.org/fhir/us/example',
+      distTags: { latest: '2.0.0' },
+      versions: [
+        { version: '2.1.0-ballot', fhirVersions: ['4.0.1', '5.0.0'], cached: false },
+        {
+          version: '2.0.0',
+          date: '2023-06-01T12:00:00Z',
+          fhirVersions: ['4.0.1'],
+          canonical: 'http://hl7.org/fhir/us/example',
+          dependencies: { 'hl7.fhir.r4.core': '4.0.1', 'hl7.fhir.us.core': '6.1.0' },
+          cached: false
+        },
+        {
+          version: '1.0.0',
+          date: '2022-01-15T12:00:00Z',
+          fhirVersions: ['4.0.1'],
+          canonical: 'http://hl7.org/fhir/us/example',
+          cached: false
+        }
+      ]
+    });
+  });
+
+  it('should show which versions are in the cache', async () => {
+    fs.ensureDirSync(path.join(cachePath, 'hl7.terminology.r4#1.1.0', 'package'));
+    fs.ensureDirSync(path.join(cachePath, 'hl7.terminology.r4#current', 'package'));
+    fs.writeFileSync(path.join(cachePath, 'hl7.terminology.r4#1.1.2.lock'), '{}');
+    const info = await getPackageInfo('hl7.terminology.r4', cachePath);
+    expect(info.versions.filter(v => v.cached).map(v => v.version)).toEqual(['1.1.0']);
+  });
+
+  it('should get the information from a custom server', async () => {
+    process.env.FPL_REGISTRY = 'https://custom-registry.example.org/';
+    const info = await getPackageInfo('hl7.terminology.r4', cachePath);
+    expect(info.distTags).toEqual({ latest: '1.2.3-test' });
+    expect(axiosSpy).toHaveBeenLastCalledWith(
+      'https://custom-registry.example.org/hl7.terminology.r4'
+    );
+  });
+
+  it('should throw PackageInfoUnavailableError when the request to get package information fails', async () => {
+    await expect(getPackageInfo('hl7.bogus.package', cachePath)).rejects.toThrow(
+      new PackageInfoUnavailableError('hl7.bogus.package')
+    );
+  });
+
+  it('should throw PackageInfoUnavailableError when the registry does not list any versions', async () => {
+    await expect(getPackageInfo('hl7.no.versions', cachePath)).rejects.toThrow(
+      PackageInfoUnavailableError
+    );
+  });
+
+  it('should reject with a LoadCancelledError when the signal is aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    await expect(
+      getPackageInfo('hl7.terminology.r4', cachePath, undefined, { signal: controller.signal })
+    ).rejects.toThrow(LoadCancelledError);
+  });
+});
+
+describe('#searchPackages', () => {
+  let axiosSpy: jest.SpyInstance;
+
+  beforeAll(() => {
+    axiosSpy = jest.spyOn(axios, 'get').mockImplementation((uri: string): any => {
+      if (uri === 'https://packages.fhir.org/catalog?name=us.core') {
+        // packages.fhir.org capitalizes the property names and does not list versions
+        return {
+          data: [
+            { Name: 'hl7.fhir.us.core', Description: 'US Core', FhirVersion: 'R4' },
+            { Name: 'hl7.fhir.us.core.r4b', Description: 'US Core for R4B', FhirVersion: 'R4B' }
+          ]
+        };
+      } else if (uri === 'https://packages.fhir.org/hl7.fhir.us.core') {
+        return { data: { name: 'hl7.fhir.us.core', 'dist-tags': { latest: '6.1.0' } } };
+      } else if (uri === 'https://packages2.fhir.org/packages/catalog?name=example') {
+        return {
+          data: [
+            {
+              name: 'hl7.fhir.us.example',
+              version: '2.0.0',
+              fhirVersion: 'R4',
+              description: 'An example IG',
+              canonical: 'http://hl7.org/fhir/us/example'
+            },
+            { name: 'hl7.fhir.uv.example', version: '1.0.0', fhirVersion: 'R5' },
+            { name: 'hl7.fhir.au.example', version: '0.1.0', fhirVersion: 'R4' }
+          ]
+        };
+      } else if (
+        uri ===
+        'https://custom-registry.example.org/catalog?canonical=http%3A%2F%2Fhl7.org%2Ffhir%2Fus%2Fexample&fhirversion=R4'
+      ) {
+        return { data: [{ name: 'hl7.fhir.us.example', version: '2.0.0', fhirVersion: 'R4' }] };
+      } else if (uri === 'https://packages.fhir.org/catalog?name=broken') {
+        return { data: 'Not a catalog' };
+      } else {
+        throw new Error('Not found');
+      }
+    });
+  });
+
+  afterEach(() => {
+    delete process.env.FPL_REGISTRY;
+  });
+
+  afterAll(() => {
+    axiosSpy.mockRestore();
+  });
+
+  it('should find packages in the catalog and look up their latest versions', async () => {
+    const results = await searchPackages('us.core');
+    expect(results).toEqual([
+      { id: 'hl7.fhir.us.core', version: '6.1.0', fhirVersion: 'R4', description: 'US Core' },
+      { id: 'hl7.fhir.us.core.r4b', fhirVersion: 'R4B', description: 'US Core for R4B' }
+    ]);
+  });
+
+  it('should find packages in the packages2 catalog', async () => {
+    const results = await searchPackages('example');
+    expect(results[0]).toEqual({
+      id: 'hl7.fhir.us.example',
+      version: '2.0.0',
+      fhirVersion: 'R4',
+      description: 'An example IG',
+      canonical: 'http://hl7.org/fhir/us/example'
+    });
+    // The catalog listed the versions, so they were not looked up
+    expect(axiosSpy).not.toHaveBeenCalledWith(
+      'https://packages.fhir.org/hl7.fhir.us.example',
+      expect.anything()
+    );
+  });
+
+  it('should only return the number of packages in the limit', async () => {
+    expect((await searchPackages('example', undefined, { limit: 2 })).map(r => r.id)).toEqual([
+      'hl7.fhir.us.example',
+      'hl7.fhir.uv.example'
+    ]);
+    expect(await searchPackages('example', undefined, { limit: 0 })).toHaveLength(3);
+  });
+
+  it('should search the catalog of a custom server by canonical and FHIR version', async () => {
+    process.env.FPL_REGISTRY = 'https://custom-registry.example.org/';
+    const results = await searchPackages(undefined, undefined, {
+      canonical: 'http://hl7.org/fhir/us/example',
+      fhirVersion: 'R4'
+    });
+    expect(results).toEqual([{ id: 'hl7.fhir.us.example', version: '2.0.0', fhirVersion: 'R4' }]);
+  });
+
+  it('should throw PackageSearchUnavailableError when the catalog cannot be searched', async () => {
+    await expect(searchPackages('bogus')).rejects.toThrow(
+      new PackageSearchUnavailableError('bogus')
+    );
+    await expect(searchPackages('broken')).rejects.toThrow(PackageSearchUnavailableError);
+  });
+
+  it('should reject with a LoadCancelledError when the signal is aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    await expect(
+      searchPackages('us.core', undefined, { signal: controller.signal })
+    ).rejects.toThrow(LoadCancelledError);
+  });
+});
+
+describe('#mergeLocalDependency()', () => {
+  const log = (level: string, message: string) => {
+    loggerSpy.log(level, message);
+  };
+  const fixturePath = path.join(fixturesPath, 'sushi-test#0.1.0');
+  let expectedDefs: FHIRDefinitions;
+  let tempDir: string;
+  let tgzPath: string;
+
+  beforeAll(() => {
+    // Earlier tests mock the functions that write to the file system, but local packages are read from disk
+    [
+      jest.spyOn(tar, 'x'),
+      jest.spyOn(fs, 'removeSync'),
+      jest.spyOn(fs, 'moveSync'),
+      jest.spyOn(packageMetadataModule, 'writePackageMetadata'),
+      ...mockCacheInstall()
+    ].forEach(spy => spy.mockRestore());
+    temp.track();
+    expectedDefs = new FHIRDefinitions();
+    merge(loadFromPath(fixturesPath, 'sushi-test#0.1.0'), expectedDefs);
+  });
+
+  // Local packages are read lazily from wherever they are extracted, so compare the loaded definitions
+  const expectSushiTestDefs = (defs: FHIRDefinitions) => {
+    expect(defs.package).toBe('sushi-test#0.1.0');
+    expect(defs.allProfiles()).toEqual(expectedDefs.allProfiles());
+    expect(defs.getPackageJson('sushi-test#0.1.0')).toEqual(
+      expectedDefs.getPackageJson('sushi-test#0.1.0')
+    );
+  };
+
+  beforeEach(() => {
+    loggerSpy.reset();
+    tempDir = temp.mkdirSync('fpl-local-test');
+    tgzPath = path.join(tempDir, 'package.tgz');
+    // Published packages do not ship the index that FPL writes when the fixtures are loaded
+    tar.c(
+      {
+        gzip: true,
+        file: tgzPath,
+        cwd: fixturePath,
+        sync: true,
+        filter: entryPath => !entryPath.endsWith(FPL_INDEX_FILE)
+      },
+      ['package']
+    );
+  });
+
+  it('should load a package from a directory containing a package folder', async () => {
+    const defs = new FHIRDefinitions();
+    await expect(mergeLocalDependency(fixturePath, defs, tempDir, log)).resolves.toBe(defs);
+    expectSushiTestDefs(defs);
+    expect(loggerSpy.getLastMessage('info')).toBe(
+      `Loaded package sushi-test#0.1.0 from ${fixturePath}`
+    );
+    expect(fs.readdirSync(tempDir)).toEqual(['package.tgz']);
+  });
+
+  it('should load a package from a directory containing the package.json directly', async () => {
+    const defs = new FHIRDefinitions();
+    await expect(
+      mergeLocalDependency(path.join(fixturePath, 'package'), defs, tempDir, log)
+    ).resolves.toBe(defs);
+    expectSushiTestDefs(defs);
+  });
+
+  it('should load a package from a .tgz file', async () => {
+    const defs = new FHIRDefinitions();
+    await expect(mergeLocalDependency(tgzPath, defs, tempDir, log)).resolves.toBe(defs);
+    expectSushiTestDefs(defs);
+    expect(fs.readdirSync(tempDir)).toEqual(['package.tgz']);
+  });
+
+  it('should copy a package from a .tgz file into the cache when requested', async () => {
+    const defs = new FHIRDefinitions();
+    const cachePath = path.join(tempDir, 'cache');
+    await expect(
+      mergeLocalDependency(tgzPath, defs, cachePath, log, { cacheLocalPackages: true })
+    ).resolves.toBe(defs);
+    expectSushiTestDefs(defs);
+    const cachedPackage = path.join(cachePath, 'sushi-test#0.1.0');
+    expect(fs.readdirSync(path.join(cachedPackage, 'package')).sort()).toEqual([
+      'StructureDefinition-MyPatient.json',
+      'package.json'
+    ]);
+    const integrity = `sha512-${crypto
+      .createHash('sha512')
+      .update(fs.readFileSync(tgzPath))
+      .digest('base64')}`;
+    expect(packageMetadataModule.readPackageMetadata(cachedPackage)).toEqual({
+      resolved: `file:${tgzPath}`,
+      integrity,
+      installed: expect.any(String)
+    });
+    expect(loggerSpy.getAllMessages('info')).toContain(
+      `Copied sushi-test#0.1.0 from ${tgzPath} to ${cachePath}`
+    );
+  });
+
+  it('should remove the extracted files when a .tgz file is not a valid package', async () => {
+    const invalidPath = path.join(tempDir, 'invalid.tgz');
+    fs.writeFileSync(invalidPath, 'not a tarball');
+    await expect(
+      mergeLocalDependency(invalidPath, new FHIRDefinitions(), tempDir, log)
+    ).rejects.toThrow(
+      `The local package ${invalidPath} could not be loaded: the file is not a valid package`
+    );
+    expect(fs.readdirSync(tempDir).sort()).toEqual(['invalid.tgz', 'package.tgz']);
+  });
+
+  it('should reject with a LoadCancelledError and remove the extracted files when the signal is aborted', async () => {
+    const controller = new AbortController();
+    const cachePath = path.join(tempDir, 'cache');
+    const onProgress = jest.fn(() => controller.abort());
+    await expect(
+      mergeLocalDependency(tgzPath, new FHIRDefinitions(), cachePath, log, {
+        cacheLocalPackages: true,
+        signal: controller.signal,
+        onProgress
+      })
+    ).rejects.toThrow(LoadCancelledError);
+    expect(onProgress).toHaveBeenCalledWith(expect.objectContaining({ type: 'extract' }));
+    expect(fs.readdirSync(cachePath)).toEqual([]);
+  });
+
+  it('should throw LocalPackageLoadError when the path does not exist', async () => {
+    const missingPath = path.join(tempDir, 'missing.tgz');
+    await expect(
+      mergeLocalDependency(missingPath, new FHIRDefinitions(), tempDir, log)
+    ).rejects.toThrow(
+      `The local package ${missingPath} could not be loaded: the file or directory does not exist.`
+    );
+  });
+
+  it('should throw LocalPackageLoadError when the directory does not contain a package.json', async () => {
+    await expect(
+      mergeLocalDependency(tempDir, new FHIRDefinitions(), tempDir, log)
+    ).rejects.toThrow(LocalPackageLoadError);
+  });
+
+  it('should throw LocalPackageLoadError when the package.json does not have a name and version', async () => {
+    fs.writeJSONSync(path.join(tempDir, 'package.json'), { name: 'no-version' });
+    await expect(
+      mergeLocalDependency(tempDir, new FHIRDefinitions(), tempDir, log)
+    ).rejects.toThrow(
+      `The local package ${tempDir} could not be loaded: its package.json does not have a name and version.`
+    );
+  });
+
+  it('should load local packages from file: specs in loadDependencies', async () => {
+    const defs = await loadDependencies(
+      [`file:${tgzPath}`, `file:${path.join(tempDir, 'missing')}`],
+      tempDir,
+      log
+    );
+    expect(defs.childFHIRDefs).toHaveLength(2);
+    expect(defs.childFHIRDefs[0].package).toBe('sushi-test#0.1.0');
+    expect(defs.allUnsuccessfulPackageLoads()).toEqual([`file:${path.join(tempDir, 'missing')}`]);
+    expect(loggerSpy.getLastMessage('error')).toMatch(
+      `Failed to load file:${path.join(tempDir, 'missing')}: The local package`
+    );
+  });
+});
+
+describe('#mergeDependency() with a streamed download', () => {
+  const log = (level: string, message: string) => {
+    loggerSpy.log(level, message);
+  };
+  const fixturePath = path.join(fixturesPath, 'sushi-test#0.1.0');
+  let axiosSpy: jest.SpyInstance;
+  let cachePath: string;
+  let tgzPath: string;
+  let dist: { shasum?: string; integrity?: string };
+
+  beforeAll(() => {
+    temp.track();
+    axiosSpy = jest.spyOn(axios, 'get');
+  });
+
+  beforeEach(() => {
+    loggerSpy.reset();
+    cachePath = temp.mkdirSync('fpl-stream-test');
+    // Package the fixture the same way packages are published, with the contents in a "package" folder
+    tgzPath = path.join(temp.mkdirSync('fpl-stream-tgz'), 'package.tgz');
+    // Published packages do not ship the index that FPL writes when the fixtures are loaded
+    tar.c(
+      {
+        gzip: true,
+        file: tgzPath,
+        cwd: fixturePath,
+        sync: true,
+        filter: entryPath => !entryPath.endsWith(FPL_INDEX_FILE)
+      },
+      ['package']
+    );
+    const tgz = fs.readFileSync(tgzPath);
+    dist = {
+      shasum: crypto.createHash('sha1').update(tgz).digest('hex'),
+      integrity: `sha512-${crypto.createHash('sha512').update(tgz).digest('base64')}`
+    };
+    // The registry manifest lists the hashes of the tarball for every version
+    axiosSpy
+      .mockReset()
+      .mockImplementation((uri: string): any =>
+        /^https:\/\/packages\.fhir\.org\/[^/]+$/.test(uri)
+          ? { data: { versions: { '0.1.0': { dist }, '1.0.0': { dist } } } }
+          : { data: fs.createReadStream(tgzPath) }
+      );
+  });
+
+  afterAll(() => {
+    axiosSpy.mockRestore();
+  });
+
+  it('should extract a streamed package into the cache', async () => {
+    const defs = new FHIRDefinitions();
+    await expect(mergeDependency('sushi-test', '0.1.0', defs, cachePath, log)).resolves.toBe(defs);
+    expect(axiosSpy.mock.calls).toEqual([
+      ['https://packages.fhir.org/sushi-test'],
+      ['https://packages.fhir.org/sushi-test/0.1.0', { responseType: 'stream' }]
+    ]);
+    expect(fs.readdirSync(path.join(cachePath, 'sushi-test#0.1.0', 'package')).sort()).toEqual([
+      '.fpl-index.json',
+      'StructureDefinition-MyPatient.json',
+      'package.json'
+    ]);
+    expect(defs.fishForFHIR('MyPatient', Type.Profile)?.id).toBe('MyPatient');
+  });
+
+  it('should not leave a lock file or temporary directory in the cache', async () => {
+    await mergeDependency('hl7.fhir.us.locked', '1.0.0', new FHIRDefinitions(), cachePath, log);
+    expect(fs.readdirSync(cachePath)).toEqual(['hl7.fhir.us.locked#1.0.0']);
+  });
+
+  it('should use a package that another process installed while waiting for it', async () => {
+    // Another process is installing the package
+    const lockPath = cacheLockModule.getLockPath(cachePath, 'hl7.fhir.us.reused#1.0.0');
+    fs.writeJSONSync(lockPath, {
+      pid: process.pid,
+      hostname: os.hostname(),
+      created: new Date().toISOString()
+    });
+    setTimeout(() => {
+      const packageDirectory = path.join(cachePath, 'hl7.fhir.us.reused#1.0.0');
+      fs.copySync(path.join(fixturePath, 'package'), path.join(packageDirectory, 'package'));
+      packageMetadataModule.writePackageMetadata(packageDirectory, {
+        installed: new Date().toISOString()
+      });
+      fs.removeSync(lockPath);
+    }, 200);
+    const defs = new FHIRDefinitions();
+    await expect(
+      mergeDependency('hl7.fhir.us.reused', '1.0.0', defs, cachePath, log)
+    ).resolves.toBe(defs);
+    expect(axiosSpy.mock.calls).toEqual([['https://packages.fhir.org/hl7.fhir.us.reused']]);
+    expect(loggerSpy.getAllMessages('info')).toContain(
+      `Using hl7.fhir.us.reused#1.0.0, which another process installed in ${cachePath}.`
+    );
+    expect(defs.fishForFHIR('MyPatient', Type.Profile)?.id).toBe('MyPatient');
+    expect(fs.readdirSync(cachePath)).toEqual(['hl7.fhir.us.reused#1.0.0']);
+  });
+
+  it('should download no more than maxParallelDownloads packages at once without delaying cached packages', async () => {
+    const cachedDirectory = path.join(cachePath, 'hl7.fhir.us.cached#1.0.0');
+    fs.copySync(path.join(fixturePath, 'package'), path.join(cachedDirectory, 'package'));
+    const events: string[] = [];
+    let running = 0;
+    let maxRunning = 0;
+    const fetcher: PackageFetcher = {
+      ...defaultPackageFetcher,
+      async fetchTarball(url, fhirPackage, options, log) {
+        running++;
+        maxRunning = Math.max(maxRunning, running);
+        events.push(`download ${fhirPackage}`);
+        await new Promise(resolve => setTimeout(resolve, 50));
+        const tarball = await defaultPackageFetcher.fetchTarball(url, fhirPackage, options, log);
+        tarball.stream.on('close', () => running--);
+        return tarball;
+      }
+    };
+    const fhirPackages = [
+      'hl7.fhir.us.parallel1#1.0.0',
+      'hl7.fhir.us.parallel2#1.0.0',
+      'hl7.fhir.us.cached#1.0.0'
+    ];
+    const defs = await loadDependencies(fhirPackages, cachePath, log, {
+      fetcher,
+      maxParallelDownloads: 1,
+      onProgress: event => {
+        if (event.type === 'loaded') {
+          events.push(`loaded ${event.package}`);
+        }
+      }
+    });
+    expect(defs.childFHIRDefs.map(d => d.package)).toEqual(fhirPackages);
+    expect(maxRunning).toBe(1);
+    // The cached package does not wait for the downloads
+    expect(events[0]).toBe('loaded hl7.fhir.us.cached#1.0.0');
+    expect(events.filter(e => e.startsWith('download'))).toEqual([
+      'download hl7.fhir.us.parallel1#1.0.0',
+      'download hl7.fhir.us.parallel2#1.0.0'
+    ]);
+  });
+
+  it('should report a package as failed when loadDependencies times out waiting for its lock', async () => {
+    // Another process is installing the package and does not finish in time
+    const lockPath = cacheLockModule.getLockPath(cachePath, 'hl7.fhir.us.busy#1.0.0');
+    fs.writeJSONSync(lockPath, {
+      pid: process.pid,
+      hostname: os.hostname(),
+      created: new Date().toISOString()
+    });
+    const defs = await loadDependencies(['hl7.fhir.us.busy#1.0.0'], cachePath, log, {
+      lockTimeout: 200
+    });
+    expect(defs.unsuccessfulPackageLoad).toBe(true);
+    expect(defs.package).toBe('hl7.fhir.us.busy#1.0.0');
+    expect(loggerSpy.getLastMessage('error')).toBe(
+      `Failed to load hl7.fhir.us.busy#1.0.0: ${
+        new CacheLockTimeoutError('hl7.fhir.us.busy#1.0.0', lockPath, 200).message
+      }`
+    );
+    // The package is not requested from packages2.fhir.org, which would only wait for the lock again
+    expect(axiosSpy.mock.calls).toEqual([['https://packages.fhir.org/hl7.fhir.us.busy']]);
+    expect(fs.readdirSync(cachePath)).toEqual(['hl7.fhir.us.busy#1.0.0.lock']);
+  });
+
+  it('should report the progress of resolving, downloading, extracting, and indexing a package', async () => {
+    const onProgress = jest.fn();
+    await mergeDependency('hl7.fhir.us.progress', '1.0.0', new FHIRDefinitions(), cachePath, log, {
+      onProgress
+    });
+    const events: LoadProgressEvent[] = onProgress.mock.calls.map(call => call[0]);
+    // Only check the last event of each type, since download and extract are reported repeatedly
+    const types = events.map(e => e.type).filter((type, i, all) => type !== all[i + 1]);
+    expect(types).toEqual([
+      'resolve-start',
+      'resolve-end',
+      'download',
+      'extract',
+      'parse',
+      'loaded'
+    ]);
+    const tgzSize = fs.statSync(tgzPath).size;
+    expect(events).toContainEqual({
+      type: 'resolve-end',
+      package: 'hl7.fhir.us.progress#1.0.0',
+      resolvedPackage: 'hl7.fhir.us.progress#1.0.0'
+    });
+    expect(events.filter(e => e.type === 'download').pop()).toEqual({
+      type: 'download',
+      package: 'hl7.fhir.us.progress#1.0.0',
+      bytes: tgzSize,
+      totalBytes: undefined
+    });
+    expect(events.filter(e => e.type === 'extract').pop()).toEqual({
+      type: 'extract',
+      package: 'hl7.fhir.us.progress#1.0.0',
+      files: 3 // the package folder, package.json, and StructureDefinition-MyPatient.json
+    });
+    expect(events.filter(e => e.type === 'parse')).toEqual([
+      { type: 'parse', package: 'hl7.fhir.us.progress#1.0.0', files: 1, totalFiles: 1 }
+    ]);
+  });
+
+  it('should store the verified hashes of a downloaded package with the cached package', async () => {
+    await mergeDependency('hl7.fhir.us.verified', '1.0.0', new FHIRDefinitions(), cachePath, log);
+    const packageDirectory = path.join(cachePath, 'hl7.fhir.us.verified#1.0.0');
+    const metadata = packageMetadataModule.readPackageMetadata(packageDirectory);
+    expect(metadata.integrity).toBe(dist.integrity);
+    expect(metadata.shasum).toBe(dist.shasum);
+    expect(metadata.contentIntegrity).toBe(
+      packageMetadataModule.getContentIntegrity(packageDirectory)
+    );
+  });
+
+  it('should not add a package to the cache when it does not match the integrity in the registry', async () => {
+    dist.integrity = `sha512-${crypto.createHash('sha512').update('tampered').digest('base64')}`;
+    await expect(
+      mergeDependency('hl7.fhir.us.tampered', '1.0.0', new FHIRDefinitions(), cachePath, log)
+    ).rejects.toThrow(PackageIntegrityError);
+    expect(fs.readdirSync(cachePath)).toEqual([]);
+  });
+
+  it('should not add a package to the cache when it does not match the shasum in the registry', async () => {
+    dist = { shasum: crypto.createHash('sha1').update('tampered').digest('hex') };
+    await expect(
+      mergeDependency('hl7.fhir.us.tampered', '1.0.0', new FHIRDefinitions(), cachePath, log)
+    ).rejects.toThrow(
+      `The package hl7.fhir.us.tampered#1.0.0 downloaded from https://packages.fhir.org/hl7.fhir.us.tampered/1.0.0 failed integrity verification: the registry lists shasum ${dist.shasum}`
+    );
+    expect(fs.readdirSync(cachePath)).toEqual([]);
+  });
+
+  it('should not leave a temporary directory in the cache when a package from a tarball URL has a different id', async () => {
+    await expect(
+      mergeDependency(
+        'other.ig',
+        'https://example.org/pkg.tgz',
+        new FHIRDefinitions(),
+        cachePath,
+        log
+      )
+    ).rejects.toThrow(
+      new PackageIdMismatchError('other.ig', 'https://example.org/pkg.tgz', 'sushi-test')
+    );
+    expect(fs.readdirSync(cachePath)).toEqual([]);
+  });
+
+  it('should report the registry each loaded package was downloaded from', async () => {
+    const defs = await loadDependencies(['hl7.fhir.us.registered#1.0.0'], cachePath, log);
+    expect(defs.packageRegistries).toEqual({
+      'hl7.fhir.us.registered#1.0.0': 'https://packages.fhir.org'
+    });
+
+    // The registry is recorded in the cache, so it is reported when the package is loaded from the cache
+    axiosSpy.mockClear();
+    const cachedDefs = await loadDependencies(
+      ['hl7.fhir.us.registered#1.0.0', 'file:missing-package.tgz'],
+      cachePath,
+      log
+    );
+    expect(axiosSpy).not.toHaveBeenCalled();
+    expect(cachedDefs.packageRegistries).toEqual({
+      'hl7.fhir.us.registered#1.0.0': 'https://packages.fhir.org'
+    });
+  });
+
+  it('should not leave a temporary directory in the cache when a package from a tarball URL has no package.json', async () => {
+    const contentsPath = temp.mkdirSync('fpl-stream-contents');
+    fs.outputJSONSync(path.join(contentsPath, 'package', 'ValueSet-example.json'), {
+      resourceType: 'ValueSet',
+      id: 'example'
+    });
+    tar.c({ gzip: true, file: tgzPath, cwd: contentsPath, sync: true }, ['package']);
+    await expect(
+      mergeDependency(
+        'sushi-test',
+        'https://example.org/no-package-json.tgz',
+        new FHIRDefinitions(),
+        cachePath,
+        log
+      )
+    ).rejects.toThrow(PackageLoadError);
+    expect(fs.readdirSync(cachePath)).toEqual([]);
+  });
+
+  it('should not download a package from a tarball URL again once it is in the cache', async () => {
+    await mergeDependency(
+      'sushi-test',
+      'https://example.org/pkg.tgz',
+      new FHIRDefinitions(),
+      cachePath,
+      log
+    );
+    expect(axiosSpy).toHaveBeenCalledWith('https://example.org/pkg.tgz', expect.anything());
+    axiosSpy.mockClear();
+    loggerSpy.reset();
+
+    const defs = new FHIRDefinitions();
+    await mergeDependency('sushi-test', 'https://example.org/pkg.tgz', defs, cachePath, log);
+    expect(axiosSpy).not.toHaveBeenCalled();
+    expect(defs.package).toBe('sushi-test#0.1.0');
+    expect(loggerSpy.getAllMessages('info')).toContain(
+      `Found sushi-test#0.1.0 in ${cachePath}, which was downloaded from https://example.org/pkg.tgz.`
+    );
+
+    // A different URL is downloaded, even though it names the same package
+    await mergeDependency(
+      'sushi-test',
+      'https://example.org/other.tgz',
+      new FHIRDefinitions(),
+      cachePath,
+      log
+    );
+    expect(axiosSpy).toHaveBeenCalledWith('https://example.org/other.tgz', expect.anything());
+  });
+
+  it('should download a cached package again when its files have changed and verifyCache is set', async () => {
+    await mergeDependency('hl7.fhir.us.changed', '1.0.0', new FHIRDefinitions(), cachePath, log);
+    const profilePath = path.join(
+      cachePath,
+      'hl7.fhir.us.changed#1.0.0',
+      'package',
+      'StructureDefinition-MyPatient.json'
+    );
+    const profile = fs.readFileSync(profilePath, 'utf8');
+    fs.writeFileSync(profilePath, '{}');
+    axiosSpy.mockClear();
+
+    const defs = new FHIRDefinitions();
+    await mergeDependency('hl7.fhir.us.changed', '1.0.0', defs, cachePath, log, {
+      verifyCache: true
+    });
+    expect(loggerSpy.getLastMessage('warn')).toMatch(
+      /have changed since hl7\.fhir\.us\.changed#1\.0\.0 was installed, so it will be downloaded again/
+    );
+    expect(axiosSpy).toHaveBeenCalledWith('https://packages.fhir.org/hl7.fhir.us.changed/1.0.0', {
+      responseType: 'stream'
+    });
+    expect(fs.readFileSync(profilePath, 'utf8')).toBe(profile);
+    expect(defs.fishForFHIR('MyPatient', Type.Profile)?.id).toBe('MyPatient');
+  });
+
+  it('should not check the files of a cached package when verifyCache is not set', async () => {
+    await mergeDependency('hl7.fhir.us.unchecked', '1.0.0', new FHIRDefinitions(), cachePath, log);
+    fs.writeFileSync(
+      path.join(cachePath, 'hl7.fhir.us.unchecked#1.0.0', 'package', 'package.json'),
+      JSON.stringify({ name: 'hl7.fhir.us.unchecked', version: '1.0.0' })
+    );
+    axiosSpy.mockClear();
+    await mergeDependency('hl7.fhir.us.unchecked', '1.0.0', new FHIRDefinitions(), cachePath, log);
+    expect(axiosSpy).not.toHaveBeenCalled();
+  });
+
+  it('should stop the download and remove the partial extraction when the load is cancelled', async () => {
+    const tempSpy = jest.spyOn(temp, 'mkdirSync');
+    const tgz = fs.readFileSync(tgzPath);
+    // Send part of the tarball, then cancel the load before the rest arrives
+    const controller = new AbortController();
+    const download = new Readable({ read() {} });
+    download.push(tgz.slice(0, tgz.length / 2));
+    axiosSpy.mockImplementation((uri: string): any => {
+      if (uri.endsWith('/1.0.0')) {
+        setImmediate(() => controller.abort());
+        return { data: download };
+      }
+      return { data: {} };
+    });
+    tempSpy.mockClear();
+    await expect(
+      mergeDependency('hl7.fhir.us.cancelled', '1.0.0', new FHIRDefinitions(), cachePath, log, {
+        signal: controller.signal
+      })
+    ).rejects.toThrow(LoadCancelledError);
+    expect(download.destroyed).toBe(true);
+    expect(tempSpy).toHaveBeenCalledTimes(1);
+    expect(fs.existsSync(tempSpy.mock.results[0].value)).toBe(false);
+    expect(fs.readdirSync(cachePath)).toEqual([]);
+    tempSpy.mockRestore();
+  });
+
+  it('should not add a package to the cache when the download is not a valid package', async () => {
+    axiosSpy.mockReset().mockImplementation((): any => ({ data: Readable.from(['not a tgz']) }));
+    await expect(
+      mergeDependency('hl7.fhir.us.example', '1.0.0', new FHIRDefinitions(), cachePath, log)
+    ).rejects.toThrow(PackageLoadError);
+    expect(fs.readdirSync(cachePath)).toEqual([]);
+  });
+});
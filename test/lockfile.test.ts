@@ -0,0 +1,181 @@
+import fs from 'fs-extra';
+import path from 'path';
+import temp from 'temp';
+import { createLockfile, readLockfile, writeLockfile } from '../src/lockfile';
+import { FHIRDefinitions } from '../src/FHIRDefinitions';
+import { DependencyResolution } from '../src/dependencies';
+import { writePackageMetadata } from '../src/utils/packageMetadata';
+
+describe('lockfile', () => {
+  let tempDir: string;
+
+  beforeAll(() => {
+    temp.track();
+  });
+
+  beforeEach(() => {
+    tempDir = temp.mkdirSync('fpl-lockfile-test');
+  });
+
+  const createDefs = (fhirPackage: string, packageJson?: any): FHIRDefinitions => {
+    const defs = new FHIRDefinitions();
+    defs.package = fhirPackage;
+    if (packageJson) {
+      defs.addPackageJson(fhirPackage, packageJson);
+    }
+    return defs;
+  };
+
+  describe('#createLockfile', () => {
+    it('should record the loaded version, location, registry, and integrity of each requested package', async () => {
+      fs.mkdirSync(path.join(tempDir, 'hl7.fhir.us.core#6.1.0'));
+      writePackageMetadata(path.join(tempDir, 'hl7.fhir.us.core#6.1.0'), {
+        resolved: 'https://packages.fhir.org/hl7.fhir.us.core/6.1.0',
+        registry: 'https://packages.fhir.org',
+        integrity: 'sha512-abc',
+        installed: '2023-09-01T12:00:00.000Z'
+      });
+      const resolution: DependencyResolution = {
+        roots: ['hl7.fhir.us.core#latest', 'hl7.fhir.r4.core#4.0.1'],
+        resolved: new Map([
+          ['hl7.fhir.us.core#latest', 'hl7.fhir.us.core#6.1.0'],
+          ['hl7.fhir.r4.core#4.0.1', 'hl7.fhir.r4.core#4.0.1']
+        ]),
+        dependencies: new Map()
+      };
+      const fhirDefs = [createDefs('hl7.fhir.us.core#6.1.0'), createDefs('hl7.fhir.r4.core#4.0.1')];
+      const locatePackage = jest.fn(async (fullPackageName: string) => ({
+        resolved: `https://packages.fhir.org/${fullPackageName.replace('#', '/')}`,
+        registry: 'https://packages.fhir.org',
+        integrity: 'sha512-def'
+      }));
+      await expect(createLockfile(resolution, fhirDefs, tempDir, locatePackage)).resolves.toEqual({
+        lockfileVersion: 1,
+        packages: {
+          'hl7.fhir.r4.core#4.0.1': {
+            version: '4.0.1',
+            resolved: 'https://packages.fhir.org/hl7.fhir.r4.core/4.0.1',
+            registry: 'https://packages.fhir.org',
+            integrity: 'sha512-def'
+          },
+          'hl7.fhir.us.core#latest': {
+            version: '6.1.0',
+            resolved: 'https://packages.fhir.org/hl7.fhir.us.core/6.1.0',
+            registry: 'https://packages.fhir.org',
+            integrity: 'sha512-abc'
+          }
+        }
+      });
+      // Only the package without stored metadata needs to be located
+      expect(locatePackage.mock.calls).toEqual([['hl7.fhir.r4.core#4.0.1']]);
+    });
+
+    it('should only record the version of a package without stored metadata when it is not located', async () => {
+      const resolution: DependencyResolution = {
+        roots: ['hl7.fhir.r4.core#4.0.1'],
+        resolved: new Map([['hl7.fhir.r4.core#4.0.1', 'hl7.fhir.r4.core#4.0.1']]),
+        dependencies: new Map()
+      };
+      const fhirDefs = [createDefs('hl7.fhir.r4.core#4.0.1')];
+      await expect(createLockfile(resolution, fhirDefs, tempDir)).resolves.toEqual({
+        lockfileVersion: 1,
+        packages: { 'hl7.fhir.r4.core#4.0.1': { version: '4.0.1' } }
+      });
+    });
+
+    it('should read the metadata of a package whose cache directory is named with a different case', async () => {
+      fs.mkdirSync(path.join(tempDir, 'hl7.fhir.us.mCODE#2.0.0'));
+      writePackageMetadata(path.join(tempDir, 'hl7.fhir.us.mCODE#2.0.0'), {
+        resolved: 'https://packages.fhir.org/hl7.fhir.us.mcode/2.0.0',
+        integrity: 'sha512-abc'
+      });
+      const resolution: DependencyResolution = {
+        roots: ['hl7.fhir.us.mcode#2.0.0'],
+        resolved: new Map([['hl7.fhir.us.mcode#2.0.0', 'hl7.fhir.us.mcode#2.0.0']]),
+        dependencies: new Map()
+      };
+      const locatePackage = jest.fn();
+      const fhirDefs = [createDefs('hl7.fhir.us.mcode#2.0.0')];
+      await expect(
+        createLockfile(resolution, fhirDefs, tempDir, locatePackage)
+      ).resolves.toMatchObject({
+        packages: {
+          'hl7.fhir.us.mcode#2.0.0': {
+            version: '2.0.0',
+            resolved: 'https://packages.fhir.org/hl7.fhir.us.mcode/2.0.0',
+            integrity: 'sha512-abc'
+          }
+        }
+      });
+      expect(locatePackage).not.toHaveBeenCalled();
+    });
+
+    it('should record the build date of current packages', async () => {
+      const resolution: DependencyResolution = {
+        roots: ['sushi-test#dev'],
+        resolved: new Map([['sushi-test#dev', 'sushi-test#current']]),
+        dependencies: new Map()
+      };
+      const fhirDefs = [createDefs('sushi-test#current', { date: '20200413230227' })];
+      const locatePackage = jest.fn();
+      expect((await createLockfile(resolution, fhirDefs, tempDir, locatePackage)).packages).toEqual(
+        {
+          'sushi-test#dev': { version: 'current', date: '20200413230227' }
+        }
+      );
+      expect(locatePackage).not.toHaveBeenCalled();
+    });
+
+    it('should record the path of local packages instead of the cached package location', async () => {
+      fs.mkdirSync(path.join(tempDir, 'sushi-test#0.1.0'));
+      writePackageMetadata(path.join(tempDir, 'sushi-test#0.1.0'), {
+        resolved: 'https://packages.fhir.org/sushi-test/0.1.0',
+        integrity: 'sha512-abc'
+      });
+      const resolution: DependencyResolution = {
+        roots: ['file:../my-ig/output/package.tgz'],
+        resolved: new Map([['file:../my-ig/output/package.tgz', 'sushi-test#0.1.0']]),
+        dependencies: new Map()
+      };
+      const fhirDefs = [createDefs('sushi-test#0.1.0')];
+      expect((await createLockfile(resolution, fhirDefs, tempDir)).packages).toEqual({
+        'file:../my-ig/output/package.tgz': {
+          version: '0.1.0',
+          resolved: 'file:../my-ig/output/package.tgz'
+        }
+      });
+    });
+
+    it('should not record packages that failed to load or were not kept', async () => {
+      const failedDefs = createDefs('hl7.does.not.exist#1.0.0');
+      failedDefs.unsuccessfulPackageLoad = true;
+      const resolution: DependencyResolution = {
+        roots: ['hl7.does.not.exist#1.0.0', 'hl7.fhir.r4.core#4.0.1'],
+        resolved: new Map([
+          ['hl7.does.not.exist#1.0.0', 'hl7.does.not.exist#1.0.0'],
+          ['hl7.fhir.r4.core#4.0.1', 'hl7.fhir.r4.core#4.0.1']
+        ]),
+        dependencies: new Map()
+      };
+      expect((await createLockfile(resolution, [failedDefs], tempDir)).packages).toEqual({});
+    });
+  });
+
+  describe('#readLockfile and #writeLockfile', () => {
+    it('should read a lockfile that was written', () => {
+      const lockfilePath = path.join(tempDir, 'fpl-lock.json');
+      const lockfile = {
+        lockfileVersion: 1,
+        packages: { 'hl7.fhir.r4.core#4.0.1': { version: '4.0.1' } }
+      };
+      writeLockfile(lockfilePath, lockfile);
+      expect(readLockfile(lockfilePath)).toEqual(lockfile);
+    });
+
+    it('should throw when reading a file that is not a lockfile', () => {
+      const lockfilePath = path.join(tempDir, 'not-a-lockfile.json');
+      fs.writeJSONSync(lockfilePath, { name: 'my-package' });
+      expect(() => readLockfile(lockfilePath)).toThrow(`${lockfilePath} is not a valid lockfile`);
+    });
+  });
+});
@@ -0,0 +1,220 @@
+import fs from 'fs-extra';
+import path from 'path';
+import temp from 'temp';
+import * as loadModule from '../src/load';
+import { findOutdatedPackages, updatePackages } from '../src/outdated';
+import { FHIRDefinitions } from '../src/FHIRDefinitions';
+import { LoadCancelledError, PackageInfoUnavailableError } from '../src/errors';
+import { loggerSpy } from './testhelpers';
+
+describe('outdated', () => {
+  let cachePath: string;
+  let packageInfoSpy: jest.SpyInstance;
+  let loadDependenciesSpy: jest.SpyInstance;
+  const log = (level: string, message: string) => {
+    loggerSpy.log(level, message);
+  };
+
+  const packageInfo = (
+    name: string,
+    versions: string[],
+    latest?: string
+  ): loadModule.PackageInfo => ({
+    name,
+    distTags: latest ? { latest } : {},
+    versions: versions.map(version => ({ version, cached: false }))
+  });
+
+  beforeAll(() => {
+    temp.track();
+    packageInfoSpy = jest
+      .spyOn(loadModule, 'getPackageInfo')
+      .mockImplementation(async (packageName: string) => {
+        if (packageName === 'hl7.fhir.us.core') {
+          return packageInfo(
+            'hl7.fhir.us.core',
+            ['3.1.0', '3.1.1', '3.2.0', '4.0.0', '5.0.1', '6.1.0', '7.0.0-ballot'],
+            '6.1.0'
+          );
+        } else if (packageName === 'hl7.fhir.us.mcode') {
+          return packageInfo('hl7.fhir.us.mcode', ['1.0.0', '2.0.0', '2.1.0'], '2.1.0');
+        } else if (packageName === 'hl7.fhir.r4.core') {
+          return packageInfo('hl7.fhir.r4.core', ['4.0.0', '4.0.1'], '4.0.1');
+        } else if (packageName === 'hl7.fhir.no.tags') {
+          return packageInfo('hl7.fhir.no.tags', ['1.0.0', '1.1.0', '2.0.0']);
+        }
+        throw new PackageInfoUnavailableError(packageName);
+      });
+    loadDependenciesSpy = jest
+      .spyOn(loadModule, 'loadDependencies')
+      .mockImplementation(async (fhirPackages: string[]) => {
+        const defs = new FHIRDefinitions();
+        fhirPackages.forEach(fhirPackage => {
+          const childDefs = new FHIRDefinitions();
+          childDefs.package = fhirPackage;
+          if (fhirPackage.startsWith('hl7.fhir.us.mcode')) {
+            childDefs.unsuccessfulPackageLoad = true;
+          }
+          defs.childFHIRDefs.push(childDefs);
+        });
+        return defs;
+      });
+  });
+
+  beforeEach(() => {
+    loggerSpy.reset();
+    packageInfoSpy.mockClear();
+    loadDependenciesSpy.mockClear();
+    cachePath = temp.mkdirSync('fpl-outdated-test');
+  });
+
+  afterAll(() => {
+    packageInfoSpy.mockRestore();
+    loadDependenciesSpy.mockRestore();
+  });
+
+  const writePackage = (id: string, version: string) => {
+    fs.outputJSONSync(path.join(cachePath, `${id}#${version}`, 'package', 'package.json'), {
+      name: id,
+      version
+    });
+  };
+
+  describe('#findOutdatedPackages', () => {
+    it('should find the newest patch, minor, and latest releases of outdated packages', async () => {
+      const outdatedPackages = await findOutdatedPackages(
+        ['hl7.fhir.us.core#3.1.0', 'hl7.fhir.us.mcode#2.0.0', 'hl7.fhir.r4.core#4.0.1'],
+        cachePath,
+        log
+      );
+      expect(outdatedPackages).toEqual([
+        {
+          id: 'hl7.fhir.us.core',
+          current: '3.1.0',
+          patch: '3.1.1',
+          minor: '3.2.0',
+          latest: '6.1.0'
+        },
+        { id: 'hl7.fhir.us.mcode', current: '2.0.0', minor: '2.1.0', latest: '2.1.0' }
+      ]);
+    });
+
+    it('should use the newest release as the latest release when there is no latest tag', async () => {
+      const outdatedPackages = await findOutdatedPackages(['hl7.fhir.no.tags#1.0.0'], cachePath);
+      expect(outdatedPackages).toEqual([
+        { id: 'hl7.fhir.no.tags', current: '1.0.0', minor: '1.1.0', latest: '2.0.0' }
+      ]);
+    });
+
+    it('should check the newest cached release of each package when no packages are given', async () => {
+      writePackage('hl7.fhir.us.core', '3.1.0');
+      writePackage('hl7.fhir.us.core', '6.1.0');
+      writePackage('hl7.fhir.us.mcode', '1.0.0');
+      writePackage('hl7.fhir.us.mcode', 'current');
+      fs.ensureDirSync(path.join(cachePath, 'hl7.fhir.us.broken#1.0.0'));
+      const outdatedPackages = await findOutdatedPackages([], cachePath, log);
+      expect(packageInfoSpy.mock.calls.map(call => call[0])).toEqual([
+        'hl7.fhir.us.core',
+        'hl7.fhir.us.mcode'
+      ]);
+      expect(outdatedPackages).toEqual([
+        { id: 'hl7.fhir.us.mcode', current: '1.0.0', latest: '2.1.0' }
+      ]);
+    });
+
+    it('should skip packages that are not release versions', async () => {
+      const outdatedPackages = await findOutdatedPackages(
+        ['hl7.fhir.us.core#current'],
+        cachePath,
+        log
+      );
+      expect(outdatedPackages).toEqual([]);
+      expect(packageInfoSpy).not.toHaveBeenCalled();
+    });
+
+    it('should warn about packages that cannot be found in the registry', async () => {
+      const outdatedPackages = await findOutdatedPackages(
+        ['hl7.fhir.bogus#1.0.0', 'hl7.fhir.us.mcode#2.1.0'],
+        cachePath,
+        log
+      );
+      expect(outdatedPackages).toEqual([]);
+      expect(loggerSpy.getLastMessage('warn')).toBe(
+        'Could not check hl7.fhir.bogus#1.0.0 for newer releases: Information about package hl7.fhir.bogus could not be retrieved from the FHIR package registry'
+      );
+    });
+
+    it('should stop when the signal is aborted', async () => {
+      packageInfoSpy.mockRejectedValueOnce(new LoadCancelledError());
+      await expect(findOutdatedPackages(['hl7.fhir.us.core#3.1.0'], cachePath)).rejects.toThrow(
+        LoadCancelledError
+      );
+    });
+  });
+
+  describe('#updatePackages', () => {
+    it('should install the newest minor releases by default', async () => {
+      const updates = await updatePackages(
+        ['hl7.fhir.us.core#3.1.0', 'hl7.fhir.r4.core#4.0.1'],
+        cachePath,
+        log,
+        { timeout: 1000 }
+      );
+      expect(updates).toEqual([
+        { id: 'hl7.fhir.us.core', from: '3.1.0', to: '3.2.0', installed: true }
+      ]);
+      expect(loadDependenciesSpy).toHaveBeenCalledWith(['hl7.fhir.us.core#3.2.0'], cachePath, log, {
+        timeout: 1000
+      });
+      expect(loggerSpy.getLastMessage('info')).toBe('Updated hl7.fhir.us.core 3.1.0 to 3.2.0.');
+    });
+
+    it('should install the newest releases allowed by the policy', async () => {
+      const patchUpdates = await updatePackages(['hl7.fhir.us.core#3.1.0'], cachePath, log, {
+        policy: 'patch'
+      });
+      expect(patchUpdates.map(u => u.to)).toEqual(['3.1.1']);
+      const majorUpdates = await updatePackages(['hl7.fhir.us.core#3.1.0'], cachePath, log, {
+        policy: 'major'
+      });
+      expect(majorUpdates.map(u => u.to)).toEqual(['6.1.0']);
+    });
+
+    it('should not install packages that have no release allowed by the policy', async () => {
+      const updates = await updatePackages(['hl7.fhir.us.mcode#2.0.0'], cachePath, log, {
+        policy: 'patch'
+      });
+      expect(updates).toEqual([]);
+      expect(loadDependenciesSpy).not.toHaveBeenCalled();
+      expect(loggerSpy.getLastMessage('info')).toBe(
+        'All packages are up to date with the newest patch releases.'
+      );
+    });
+
+    it('should report the updates that would be made in a dry run', async () => {
+      const updates = await updatePackages(['hl7.fhir.us.core#3.1.0'], cachePath, log, {
+        dryRun: true
+      });
+      expect(updates).toEqual([
+        { id: 'hl7.fhir.us.core', from: '3.1.0', to: '3.2.0', installed: false }
+      ]);
+      expect(loadDependenciesSpy).not.toHaveBeenCalled();
+      expect(loggerSpy.getLastMessage('info')).toBe(
+        'Would update hl7.fhir.us.core 3.1.0 to 3.2.0.'
+      );
+    });
+
+    it('should report updates that failed to install', async () => {
+      const updates = await updatePackages(
+        ['hl7.fhir.us.core#3.1.0', 'hl7.fhir.us.mcode#1.0.0'],
+        cachePath,
+        log,
+        { policy: 'major' }
+      );
+      expect(updates).toEqual([
+        { id: 'hl7.fhir.us.core', from: '3.1.0', to: '6.1.0', installed: true },
+        { id: 'hl7.fhir.us.mcode', from: '1.0.0', to: '2.1.0', installed: false }
+      ]);
+    });
+  });
+});
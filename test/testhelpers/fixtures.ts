@@ -0,0 +1,16 @@
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+
+/**
+ * Copies a directory of test packages (fixtures or testdefs) to a new temporary directory. Loading a package
+ * writes its .fpl-index.json, so tests load packages from a copy to keep the tracked fixtures unchanged.
+ * Remove the copy with fs.removeSync when the tests are done with it.
+ * @param {string} name - The name of the directory in testhelpers
+ * @returns {string} the path of the copy
+ */
+export function copyFixtures(name: 'fixtures' | 'testdefs'): string {
+  const directory = fs.mkdtempSync(path.join(os.tmpdir(), `fpl-${name}-`));
+  fs.copySync(path.join(__dirname, name), directory);
+  return directory;
+}
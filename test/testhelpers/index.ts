@@ -1 +1,2 @@
 export * from './loggerSpy';
+export * from './fixtures';
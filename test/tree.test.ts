@@ -0,0 +1,224 @@
+import fs from 'fs-extra';
+import path from 'path';
+import temp from 'temp';
+import { FHIRDefinitions } from '../src/FHIRDefinitions';
+import {
+  formatDependencyGraph,
+  formatDependencyTree,
+  getDependencyTree,
+  getLoadedDependencyTree
+} from '../src/tree';
+
+describe('tree', () => {
+  let cachePath: string;
+
+  beforeAll(() => {
+    temp.track();
+  });
+
+  beforeEach(() => {
+    cachePath = temp.mkdirSync('fpl-tree-test');
+  });
+
+  const writePackage = (
+    id: string,
+    version: string,
+    dependencies?: { [packageId: string]: string }
+  ) => {
+    fs.outputJSONSync(path.join(cachePath, `${id}#${version}`, 'package', 'package.json'), {
+      name: id,
+      version,
+      dependencies
+    });
+  };
+
+  describe('#getDependencyTree', () => {
+    it('should build the transitive tree of cached packages', () => {
+      writePackage('hl7.fhir.us.mcode', '2.0.0', {
+        'hl7.fhir.r4.core': '4.0.1',
+        'hl7.fhir.us.core': '3.1.x'
+      });
+      writePackage('hl7.fhir.us.core', '3.1.0', { 'hl7.fhir.r4.core': '4.0.1' });
+      writePackage('hl7.fhir.us.core', '3.1.1', { 'hl7.fhir.r4.core': '4.0.1' });
+      writePackage('hl7.fhir.r4.core', '4.0.1');
+      const tree = getDependencyTree(['hl7.fhir.us.mcode#2.0.0'], cachePath);
+      expect(tree).toEqual({
+        roots: [
+          {
+            requested: 'hl7.fhir.us.mcode#2.0.0',
+            package: 'hl7.fhir.us.mcode#2.0.0',
+            status: 'cached',
+            conflict: false,
+            dependencies: [
+              {
+                requested: 'hl7.fhir.r4.core#4.0.1',
+                package: 'hl7.fhir.r4.core#4.0.1',
+                status: 'cached',
+                conflict: false,
+                dependencies: []
+              },
+              {
+                requested: 'hl7.fhir.us.core#3.1.x',
+                package: 'hl7.fhir.us.core#3.1.1',
+                status: 'cached',
+                conflict: false,
+                dependencies: [
+                  {
+                    requested: 'hl7.fhir.r4.core#4.0.1',
+                    package: 'hl7.fhir.r4.core#4.0.1',
+                    status: 'cached',
+                    conflict: false,
+                    deduped: true,
+                    dependencies: []
+                  }
+                ]
+              }
+            ]
+          }
+        ],
+        conflicts: []
+      });
+    });
+
+    it('should mark missing packages and packages in conflict', () => {
+      writePackage('hl7.fhir.us.mcode', '2.0.0', {
+        'hl7.fhir.r4.core': '4.0.1',
+        'hl7.fhir.us.core': '3.1.0'
+      });
+      writePackage('hl7.fhir.us.core', '3.1.0', { 'hl7.fhir.r4.core': '4.0.0' });
+      writePackage('hl7.fhir.r4.core', '4.0.1');
+      const tree = getDependencyTree(['hl7.fhir.us.mcode#2.0.0'], cachePath);
+      const [r4Core, usCore] = tree.roots[0].dependencies;
+      expect(r4Core).toMatchObject({ status: 'cached', conflict: true });
+      expect(usCore.dependencies).toEqual([
+        {
+          requested: 'hl7.fhir.r4.core#4.0.0',
+          status: 'missing',
+          conflict: true,
+          dependencies: []
+        }
+      ]);
+      expect(tree.conflicts).toEqual([
+        {
+          packageId: 'hl7.fhir.r4.core',
+          requests: [
+            { version: '4.0.1', requestedBy: 'hl7.fhir.us.mcode#2.0.0' },
+            { version: '4.0.0', requestedBy: 'hl7.fhir.us.core#3.1.0' }
+          ]
+        }
+      ]);
+    });
+
+    it('should mark packages that depend on themselves as circular', () => {
+      writePackage('example.a', '1.0.0', { 'example.b': '1.0.0' });
+      writePackage('example.b', '1.0.0', { 'example.a': 'latest' });
+      const tree = getDependencyTree(['example.a#1.0.0'], cachePath);
+      expect(tree.roots[0].dependencies[0].dependencies).toEqual([
+        {
+          requested: 'example.a#latest',
+          package: 'example.a#1.0.0',
+          status: 'cached',
+          conflict: false,
+          circular: true,
+          dependencies: []
+        }
+      ]);
+    });
+
+    it('should mark requested packages that are not in the cache as missing', () => {
+      const tree = getDependencyTree(['hl7.fhir.us.core#6.1.0'], path.join(cachePath, 'none'));
+      expect(tree.roots).toEqual([
+        {
+          requested: 'hl7.fhir.us.core#6.1.0',
+          status: 'missing',
+          conflict: false,
+          dependencies: []
+        }
+      ]);
+    });
+  });
+
+  describe('#getLoadedDependencyTree', () => {
+    const addLoadedPackage = (
+      defs: FHIRDefinitions,
+      pkg: string,
+      dependencies?: { [packageId: string]: string },
+      unsuccessful = false
+    ) => {
+      const childDefs = new FHIRDefinitions();
+      childDefs.package = pkg;
+      childDefs.unsuccessfulPackageLoad = unsuccessful;
+      const [name, version] = pkg.split('#');
+      childDefs.addPackageJson(pkg, { name, version, dependencies });
+      defs.childFHIRDefs.push(childDefs);
+    };
+
+    it('should use the loaded packages that no other package depends on as the roots', () => {
+      const defs = new FHIRDefinitions();
+      addLoadedPackage(defs, 'hl7.fhir.r4.core#4.0.1');
+      addLoadedPackage(defs, 'hl7.fhir.us.core#3.1.1', { 'hl7.fhir.r4.core': '4.0.1' });
+      addLoadedPackage(defs, 'hl7.fhir.us.mcode#2.0.0', {
+        'hl7.fhir.r4.core': '4.0.1',
+        'hl7.fhir.us.core': '3.1.1',
+        'hl7.fhir.us.failed': '1.0.0'
+      });
+      addLoadedPackage(defs, 'hl7.fhir.us.failed#1.0.0', {}, true);
+      const tree = getLoadedDependencyTree(defs);
+      expect(tree.roots.map(root => root.package)).toEqual(['hl7.fhir.us.mcode#2.0.0']);
+      expect(tree.roots[0].dependencies.map(dep => [dep.requested, dep.status])).toEqual([
+        ['hl7.fhir.r4.core#4.0.1', 'loaded'],
+        ['hl7.fhir.us.core#3.1.1', 'loaded'],
+        ['hl7.fhir.us.failed#1.0.0', 'missing']
+      ]);
+    });
+
+    it('should use every loaded package as a root when they all depend on each other', () => {
+      const defs = new FHIRDefinitions();
+      addLoadedPackage(defs, 'example.a#1.0.0', { 'example.b': '1.0.0' });
+      addLoadedPackage(defs, 'example.b#1.0.0', { 'example.a': '1.0.0' });
+      const tree = getLoadedDependencyTree(defs);
+      expect(tree.roots.map(root => root.package)).toEqual(['example.a#1.0.0', 'example.b#1.0.0']);
+      expect(tree.roots[1].deduped).toBe(true);
+    });
+  });
+
+  describe('#formatDependencyTree', () => {
+    it('should format the tree as indented text', () => {
+      writePackage('hl7.fhir.us.mcode', '2.0.0', {
+        'hl7.fhir.us.core': '3.1.x',
+        'hl7.fhir.r4.core': '4.0.1'
+      });
+      writePackage('hl7.fhir.us.core', '3.1.1', { 'hl7.fhir.r4.core': '4.0.0' });
+      writePackage('hl7.fhir.r4.core', '4.0.1');
+      const tree = getDependencyTree(['hl7.fhir.us.mcode#2.0.0'], cachePath);
+      expect(formatDependencyTree(tree)).toBe(
+        [
+          'hl7.fhir.us.mcode#2.0.0 [cached]',
+          '├── hl7.fhir.us.core#3.1.1 (requested 3.1.x) [cached]',
+          '│   └── hl7.fhir.r4.core#4.0.0 [missing, conflict]',
+          '└── hl7.fhir.r4.core#4.0.1 [cached, conflict]'
+        ].join('\n')
+      );
+    });
+  });
+
+  describe('#formatDependencyGraph', () => {
+    it('should format the tree as a DOT graph with one node per package', () => {
+      writePackage('example.a', '1.0.0', { 'example.b': '1.0.0', 'example.c': '1.0.0' });
+      writePackage('example.b', '1.0.0', { 'example.c': '1.0.0' });
+      const tree = getDependencyTree(['example.a#1.0.0'], cachePath);
+      expect(formatDependencyGraph(tree)).toBe(
+        [
+          'digraph dependencies {',
+          '  "example.a#1.0.0" [label="example.a#1.0.0\\ncached"];',
+          '  "example.b#1.0.0" [label="example.b#1.0.0\\ncached"];',
+          '  "example.c#1.0.0" [label="example.c#1.0.0\\nmissing", style=dashed];',
+          '  "example.a#1.0.0" -> "example.b#1.0.0";',
+          '  "example.b#1.0.0" -> "example.c#1.0.0";',
+          '  "example.a#1.0.0" -> "example.c#1.0.0";',
+          '}'
+        ].join('\n')
+      );
+    });
+  });
+});
@@ -1,13 +1,25 @@
 import axios from 'axios';
+import fs from 'fs-extra';
+import HttpProxyAgent from 'http-proxy-agent';
+import https from 'https';
 import HttpsProxyAgent from 'https-proxy-agent';
+import path from 'path';
+import temp from 'temp';
 import { axiosGet } from '../../src/utils/axiosUtils';
+import { LoadCancelledError } from '../../src/errors';
 
 describe('axiosUtils', () => {
+  const clearProxyVariables = () => {
+    ['HTTP_PROXY', 'HTTPS_PROXY', 'NO_PROXY'].forEach(name => {
+      delete process.env[name];
+      delete process.env[name.toLowerCase()];
+    });
+  };
   beforeAll(() => {
-    delete process.env.HTTPS_PROXY;
+    clearProxyVariables();
   });
   afterEach(() => {
-    delete process.env.HTTPS_PROXY;
+    clearProxyVariables();
   });
   describe('#axiosGet', () => {
     it('returns get with responseType assigned when it is used as argument', async () => {
@@ -33,5 +45,266 @@ describe('axiosUtils', () => {
         proxy: false
       });
     });
+
+    it('calls get with an Authorization header when there are credentials for the URL', async () => {
+      const getSpy = jest.spyOn(axios, 'get').mockImplementationOnce(() => Promise.resolve({}));
+      process.env.FPL_REGISTRY_TOKEN_REGISTRY_EXAMPLE_ORG = 'a-token';
+      await axiosGet('https://registry.example.org/org.example.ig', { responseType: 'json' });
+      delete process.env.FPL_REGISTRY_TOKEN_REGISTRY_EXAMPLE_ORG;
+      expect(getSpy).toHaveBeenCalledWith('https://registry.example.org/org.example.ig', {
+        responseType: 'json',
+        headers: { Authorization: 'Bearer a-token' }
+      });
+    });
+
+    it('calls get with an http proxy agent when the http env variable is set for an http URL', async () => {
+      const getSpy = jest.spyOn(axios, 'get').mockImplementationOnce(() => Promise.resolve({}));
+      process.env.HTTP_PROXY = 'http://127.0.0.1:2626';
+      await axiosGet('http://build.fhir.org/ig/qas.json');
+      expect(getSpy).toHaveBeenCalledWith('http://build.fhir.org/ig/qas.json', {
+        httpAgent: new (HttpProxyAgent as any)('http://127.0.0.1:2626'),
+        proxy: false
+      });
+    });
+
+    it('calls get without a proxy when the host is in the no proxy env variable', async () => {
+      const getSpy = jest.spyOn(axios, 'get').mockImplementationOnce(() => Promise.resolve({}));
+      process.env.HTTPS_PROXY = 'https://127.0.0.1:2626';
+      process.env.NO_PROXY = '.internal.example.org';
+      await axiosGet('https://registry.internal.example.org/org.example.ig');
+      expect(getSpy).toHaveBeenCalledWith('https://registry.internal.example.org/org.example.ig', {
+        proxy: false
+      });
+    });
+
+    describe('CA files', () => {
+      let caFile: string;
+
+      beforeAll(() => {
+        temp.track();
+      });
+
+      beforeEach(() => {
+        caFile = path.join(temp.mkdirSync('fpl-ca-file-test'), 'ca.pem');
+        fs.writeFileSync(
+          caFile,
+          '-----BEGIN CERTIFICATE-----\nCORPORATE\n-----END CERTIFICATE-----\n'
+        );
+      });
+
+      it('calls get with an agent that trusts the certificate authorities in the CA file', async () => {
+        const getSpy = jest
+          .spyOn(axios, 'get')
+          .mockClear()
+          .mockImplementationOnce(() => Promise.resolve({}));
+        await axiosGet('https://packages.fhir.org/hl7.fhir.r4.core', undefined, { caFile });
+        const { httpsAgent } = getSpy.mock.calls[0][1];
+        expect(httpsAgent).toBeInstanceOf(https.Agent);
+        expect(httpsAgent.options.ca).toContain(fs.readFileSync(caFile, 'utf8'));
+        // The default certificate authorities are still trusted
+        expect(httpsAgent.options.ca.length).toBeGreaterThan(1);
+      });
+
+      it('calls get with a proxy agent that trusts the certificate authorities in the CA file', async () => {
+        const getSpy = jest
+          .spyOn(axios, 'get')
+          .mockClear()
+          .mockImplementationOnce(() => Promise.resolve({}));
+        const callbackSpy = jest
+          .spyOn(HttpsProxyAgent.HttpsProxyAgent.prototype, 'callback')
+          .mockResolvedValueOnce(null);
+        process.env.HTTPS_PROXY = 'https://127.0.0.1:2626';
+        await axiosGet('https://packages.fhir.org/hl7.fhir.r4.core', undefined, { caFile });
+        const { httpsAgent, proxy } = getSpy.mock.calls[0][1];
+        expect(httpsAgent).toBeInstanceOf(HttpsProxyAgent.HttpsProxyAgent);
+        expect(proxy).toBe(false);
+        await httpsAgent.callback(null, { host: 'packages.fhir.org', secureEndpoint: true });
+        expect(callbackSpy.mock.calls[0][1]).toMatchObject({
+          host: 'packages.fhir.org',
+          ca: expect.arrayContaining([fs.readFileSync(caFile, 'utf8')])
+        });
+        callbackSpy.mockRestore();
+      });
+
+      it('throws an error when the CA file cannot be read', async () => {
+        const getSpy = jest.spyOn(axios, 'get').mockReset();
+        await expect(
+          axiosGet('https://packages.fhir.org/hl7.fhir.r4.core', undefined, {
+            caFile: path.join(path.dirname(caFile), 'missing.pem')
+          })
+        ).rejects.toThrow(/Could not read the CA file .*missing\.pem/);
+        expect(getSpy).not.toHaveBeenCalled();
+      });
+    });
+
+    describe('retries', () => {
+      let getSpy: jest.SpyInstance;
+      let setTimeoutSpy: jest.SpyInstance;
+      let log: jest.Mock;
+      const httpError = (status: number, headers: any = {}) => ({
+        message: `Request failed with status code ${status}`,
+        response: { status, headers }
+      });
+
+      beforeEach(() => {
+        getSpy = jest.spyOn(axios, 'get').mockReset();
+        // Skip the wait between retries, but keep track of how long each wait would have been
+        setTimeoutSpy = jest.spyOn(global, 'setTimeout').mockImplementation((fn: any): any => fn());
+        log = jest.fn();
+      });
+
+      afterEach(() => {
+        getSpy.mockReset();
+        setTimeoutSpy.mockRestore();
+      });
+
+      it('retries a request that fails with a transient error using exponential backoff', async () => {
+        getSpy
+          .mockRejectedValueOnce(httpError(502))
+          .mockRejectedValueOnce({ code: 'ECONNRESET', message: 'socket hang up' })
+          .mockResolvedValueOnce({ data: 'ok' });
+        const res = await axiosGet(
+          'https://packages.fhir.org/hl7.fhir.r4.core',
+          undefined,
+          {},
+          log
+        );
+        expect(res).toEqual({ data: 'ok' });
+        expect(getSpy).toHaveBeenCalledTimes(3);
+        expect(setTimeoutSpy.mock.calls.map(c => c[1])).toEqual([1000, 2000]);
+        expect(log.mock.calls).toEqual([
+          [
+            'info',
+            'Request to https://packages.fhir.org/hl7.fhir.r4.core failed (status 502). Retrying in 1 seconds (retry 1 of 3)...'
+          ],
+          [
+            'info',
+            'Request to https://packages.fhir.org/hl7.fhir.r4.core failed (ECONNRESET). Retrying in 2 seconds (retry 2 of 3)...'
+          ]
+        ]);
+      });
+
+      it('does not retry a request that fails with an error that is not transient', async () => {
+        getSpy.mockRejectedValueOnce(httpError(404));
+        await expect(
+          axiosGet('https://packages.fhir.org/hl7.fhir.r4.core', undefined, {}, log)
+        ).rejects.toEqual(httpError(404));
+        expect(getSpy).toHaveBeenCalledTimes(1);
+        expect(log).not.toHaveBeenCalled();
+      });
+
+      it('stops retrying after the configured number of retries', async () => {
+        getSpy.mockRejectedValue(httpError(503));
+        await expect(
+          axiosGet(
+            'https://packages.fhir.org/hl7.fhir.r4.core',
+            undefined,
+            { retries: 2, retryDelay: 10 },
+            log
+          )
+        ).rejects.toEqual(httpError(503));
+        expect(getSpy).toHaveBeenCalledTimes(3);
+        expect(setTimeoutSpy.mock.calls.map(c => c[1])).toEqual([10, 20]);
+        expect(log).toHaveBeenCalledTimes(2);
+      });
+
+      it('does not retry when retries is 0', async () => {
+        getSpy.mockRejectedValue(httpError(502));
+        await expect(
+          axiosGet('https://packages.fhir.org/hl7.fhir.r4.core', undefined, { retries: 0 }, log)
+        ).rejects.toEqual(httpError(502));
+        expect(getSpy).toHaveBeenCalledTimes(1);
+      });
+
+      it('waits for the number of seconds in the Retry-After header of a 429 response', async () => {
+        getSpy
+          .mockRejectedValueOnce(httpError(429, { 'retry-after': '7' }))
+          .mockResolvedValueOnce({ data: 'ok' });
+        await axiosGet('https://packages.fhir.org/hl7.fhir.r4.core', undefined, {}, log);
+        expect(setTimeoutSpy.mock.calls.map(c => c[1])).toEqual([7000]);
+        expect(log.mock.calls[0][1]).toMatch(/failed \(status 429\)\. Retrying in 7 seconds/);
+      });
+
+      it('waits until the date in the Retry-After header of a 503 response', async () => {
+        const retryDate = new Date(Date.now() + 60000).toUTCString();
+        getSpy
+          .mockRejectedValueOnce(httpError(503, { 'retry-after': retryDate }))
+          .mockResolvedValueOnce({ data: 'ok' });
+        await axiosGet('https://packages.fhir.org/hl7.fhir.r4.core', undefined, {}, log);
+        const delay = setTimeoutSpy.mock.calls[0][1];
+        // HTTP dates only have a precision of one second
+        expect(delay).toBeGreaterThan(58000);
+        expect(delay).toBeLessThanOrEqual(60000);
+      });
+
+      it('ignores the Retry-After header of other responses', async () => {
+        getSpy
+          .mockRejectedValueOnce(httpError(502, { 'retry-after': '7' }))
+          .mockResolvedValueOnce({ data: 'ok' });
+        await axiosGet('https://packages.fhir.org/hl7.fhir.r4.core', undefined, {}, log);
+        expect(setTimeoutSpy.mock.calls.map(c => c[1])).toEqual([1000]);
+      });
+    });
+
+    describe('cancellation', () => {
+      let getSpy: jest.SpyInstance;
+
+      beforeEach(() => {
+        getSpy = jest.spyOn(axios, 'get').mockReset();
+      });
+
+      afterEach(() => {
+        getSpy.mockReset();
+      });
+
+      it('cancels an in-flight request when the signal is aborted', async () => {
+        // Like axios, only settle the request when it is cancelled
+        getSpy.mockImplementation(
+          (url: string, options: any) =>
+            new Promise((resolve, reject) => options.cancelToken.promise.then(reject))
+        );
+        const controller = new AbortController();
+        const request = axiosGet('https://packages.fhir.org/hl7.fhir.r4.core', undefined, {
+          signal: controller.signal
+        });
+        controller.abort();
+        await expect(request).rejects.toThrow(LoadCancelledError);
+        expect(getSpy).toHaveBeenCalledTimes(1);
+      });
+
+      it('does not make a request when the signal is already aborted', async () => {
+        const controller = new AbortController();
+        controller.abort();
+        await expect(
+          axiosGet('https://packages.fhir.org/hl7.fhir.r4.core', undefined, {
+            signal: controller.signal
+          })
+        ).rejects.toThrow(LoadCancelledError);
+        expect(getSpy).not.toHaveBeenCalled();
+      });
+
+      it('stops waiting to retry a request when the signal is aborted', async () => {
+        const controller = new AbortController();
+        getSpy.mockImplementation(async () => {
+          setImmediate(() => controller.abort());
+          throw { message: 'Request failed with status code 502', response: { status: 502 } };
+        });
+        await expect(
+          axiosGet('https://packages.fhir.org/hl7.fhir.r4.core', undefined, {
+            retryDelay: 60000,
+            signal: controller.signal
+          })
+        ).rejects.toThrow(LoadCancelledError);
+        expect(getSpy).toHaveBeenCalledTimes(1);
+      });
+    });
+
+    it('calls get with the timeout when one is set', async () => {
+      const getSpy = jest.spyOn(axios, 'get').mockImplementationOnce(() => Promise.resolve({}));
+      await axiosGet('packages.fhir.org/de.basisprofil.r4/1.1.0', undefined, { timeout: 5000 });
+      expect(getSpy).toHaveBeenCalledWith('packages.fhir.org/de.basisprofil.r4/1.1.0', {
+        timeout: 5000
+      });
+    });
   });
 });
@@ -0,0 +1,156 @@
+import { spawnSync } from 'child_process';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import temp from 'temp';
+import { getLockPath, withCacheLock } from '../../src/utils/cacheLock';
+import { CacheLockTimeoutError, LoadCancelledError } from '../../src/errors';
+import { loggerSpy } from '../testhelpers';
+
+describe('cacheLock', () => {
+  let cachePath: string;
+  let lockPath: string;
+  const log = (level: string, message: string) => {
+    loggerSpy.log(level, message);
+  };
+
+  beforeAll(() => {
+    temp.track();
+  });
+
+  beforeEach(() => {
+    loggerSpy.reset();
+    cachePath = temp.mkdirSync('fpl-lock-test');
+    lockPath = getLockPath(cachePath, 'sushi-test#0.1.0');
+  });
+
+  const writeLock = (pid: number, hostname = os.hostname()) => {
+    fs.writeJSONSync(lockPath, { pid, hostname, created: new Date().toISOString() });
+  };
+
+  describe('#getLockPath', () => {
+    it('should put the lock file next to the package directory', () => {
+      expect(getLockPath('cache', 'sushi-test#0.1.0')).toBe(
+        path.join('cache', 'sushi-test#0.1.0.lock')
+      );
+    });
+  });
+
+  describe('#withCacheLock', () => {
+    it('should hold the lock while the function runs and release it afterwards', async () => {
+      const result = await withCacheLock(cachePath, 'sushi-test#0.1.0', async waited => {
+        expect(waited).toBe(false);
+        expect(fs.readJSONSync(lockPath)).toEqual({
+          pid: process.pid,
+          hostname: os.hostname(),
+          created: expect.any(String)
+        });
+        return 'done';
+      });
+      expect(result).toBe('done');
+      expect(fs.existsSync(lockPath)).toBe(false);
+    });
+
+    it('should create the cache directory if it does not exist', async () => {
+      const newCachePath = path.join(cachePath, 'new');
+      await withCacheLock(newCachePath, 'sushi-test#0.1.0', async () => {
+        expect(fs.existsSync(getLockPath(newCachePath, 'sushi-test#0.1.0'))).toBe(true);
+      });
+      expect(fs.readdirSync(newCachePath)).toEqual([]);
+    });
+
+    it('should release the lock when the function throws', async () => {
+      await expect(
+        withCacheLock(cachePath, 'sushi-test#0.1.0', async () => {
+          throw new Error('Install failed');
+        })
+      ).rejects.toThrow('Install failed');
+      expect(fs.existsSync(lockPath)).toBe(false);
+    });
+
+    it('should wait for a lock held by another caller to be released', async () => {
+      const order: string[] = [];
+      let release: () => void;
+      const first = withCacheLock(cachePath, 'sushi-test#0.1.0', async waited => {
+        order.push(`first ${waited}`);
+        await new Promise<void>(resolve => (release = resolve));
+        order.push('first done');
+      });
+      const second = withCacheLock(
+        cachePath,
+        'sushi-test#0.1.0',
+        async waited => {
+          order.push(`second ${waited}`);
+        },
+        {},
+        log
+      );
+      await new Promise(resolve => setTimeout(resolve, 250));
+      expect(order).toEqual(['first false']);
+      release();
+      await Promise.all([first, second]);
+      expect(order).toEqual(['first false', 'first done', 'second true']);
+      expect(loggerSpy.getLastMessage('info')).toBe(
+        `Waiting for another process (pid ${
+          process.pid
+        } on ${os.hostname()}) to finish installing sushi-test#0.1.0...`
+      );
+    });
+
+    it('should not wait for a lock on a different package', async () => {
+      writeLock(process.pid);
+      const fn = jest.fn().mockResolvedValue(undefined);
+      await withCacheLock(cachePath, 'sushi-test#0.2.0', fn);
+      expect(fn).toHaveBeenCalledWith(false);
+      expect(fs.existsSync(lockPath)).toBe(true);
+    });
+
+    it('should remove a lock held by a process on this machine that is no longer running', async () => {
+      const { pid } = spawnSync(process.execPath, ['-e', '']);
+      writeLock(pid);
+      const fn = jest.fn().mockResolvedValue(undefined);
+      await withCacheLock(cachePath, 'sushi-test#0.1.0', fn, {}, log);
+      expect(fn).toHaveBeenCalledWith(false);
+      expect(loggerSpy.getLastMessage('warn')).toBe(
+        `Removing the lock on sushi-test#0.1.0 left behind by a process that is no longer running (${lockPath}).`
+      );
+      expect(fs.existsSync(lockPath)).toBe(false);
+    });
+
+    it('should remove a lock held by a process on another machine that has not been touched recently', async () => {
+      writeLock(process.pid, 'another-machine');
+      const twoMinutesAgo = new Date(Date.now() - 2 * 60 * 1000);
+      fs.utimesSync(lockPath, twoMinutesAgo, twoMinutesAgo);
+      const fn = jest.fn().mockResolvedValue(undefined);
+      await withCacheLock(cachePath, 'sushi-test#0.1.0', fn, {}, log);
+      expect(fn).toHaveBeenCalledWith(false);
+      expect(loggerSpy.getLastMessage('warn')).toMatch(/Removing the lock on sushi-test#0\.1\.0/);
+    });
+
+    it('should throw CacheLockTimeoutError when the lock is not released in time', async () => {
+      writeLock(process.pid, 'another-machine');
+      const fn = jest.fn();
+      await expect(
+        withCacheLock(cachePath, 'sushi-test#0.1.0', fn, { lockTimeout: 200 }, log)
+      ).rejects.toThrow(new CacheLockTimeoutError('sushi-test#0.1.0', lockPath, 200));
+      expect(fn).not.toHaveBeenCalled();
+      expect(loggerSpy.getLastMessage('info')).toBe(
+        `Waiting for another process (pid ${process.pid} on another-machine) to finish installing sushi-test#0.1.0...`
+      );
+      // The lock belongs to the other process, so it is not removed
+      expect(fs.existsSync(lockPath)).toBe(true);
+    });
+
+    it('should stop waiting for the lock when the signal is aborted', async () => {
+      writeLock(process.pid);
+      const controller = new AbortController();
+      const fn = jest.fn();
+      const locking = withCacheLock(cachePath, 'sushi-test#0.1.0', fn, {
+        signal: controller.signal
+      });
+      setTimeout(() => controller.abort(), 150);
+      await expect(locking).rejects.toThrow(LoadCancelledError);
+      expect(fn).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,62 @@
+import { limitConcurrency } from '../../src/utils/concurrency';
+
+describe('concurrency', () => {
+  describe('#limitConcurrency', () => {
+    // Creates a function whose calls only finish when they are resolved by the test
+    const createControlledFunction = () => {
+      const started: string[] = [];
+      const finishers = new Map<string, () => void>();
+      const fn = (name: string) =>
+        new Promise<string>(resolve => {
+          started.push(name);
+          finishers.set(name, () => resolve(name));
+        });
+      return { fn, started, finish: (name: string) => finishers.get(name)() };
+    };
+    const flushPromises = () => new Promise(resolve => setImmediate(resolve));
+
+    it('should run no more than the maximum number of calls at once', async () => {
+      const { fn, started, finish } = createControlledFunction();
+      const limited = limitConcurrency(fn, 2);
+      const results = ['a', 'b', 'c', 'd'].map(name => limited(name));
+      await flushPromises();
+      expect(started).toEqual(['a', 'b']);
+
+      finish('b');
+      await flushPromises();
+      expect(started).toEqual(['a', 'b', 'c']);
+
+      finish('a');
+      finish('c');
+      await flushPromises();
+      expect(started).toEqual(['a', 'b', 'c', 'd']);
+
+      finish('d');
+      await expect(Promise.all(results)).resolves.toEqual(['a', 'b', 'c', 'd']);
+    });
+
+    it('should start the next call when a call fails', async () => {
+      const limited = limitConcurrency(async (name: string) => {
+        if (name === 'a') {
+          throw new Error('failed');
+        }
+        return name;
+      }, 1);
+      const results = [limited('a'), limited('b')];
+      await expect(results[0]).rejects.toThrow('failed');
+      await expect(results[1]).resolves.toBe('b');
+    });
+
+    it('should not limit calls when the maximum is not a positive number', async () => {
+      const { fn, started, finish } = createControlledFunction();
+      [undefined, 0].forEach(max => {
+        expect(limitConcurrency(fn, max)).toBe(fn);
+      });
+      const limited = limitConcurrency(fn, -1);
+      ['a', 'b', 'c'].forEach(name => limited(name));
+      await flushPromises();
+      expect(started).toEqual(['a', 'b', 'c']);
+      ['a', 'b', 'c'].forEach(finish);
+    });
+  });
+});
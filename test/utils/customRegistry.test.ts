@@ -0,0 +1,45 @@
+import { getPackageRegistries, getRegistries } from '../../src/utils/customRegistry';
+
+describe('customRegistry', () => {
+  afterEach(() => {
+    delete process.env.FPL_REGISTRY;
+  });
+
+  describe('#getRegistries', () => {
+    it('should return no registries when FPL_REGISTRY is not set', () => {
+      expect(getRegistries()).toEqual([]);
+    });
+
+    it('should read a single registry', () => {
+      process.env.FPL_REGISTRY = 'https://registry.example.org/';
+      expect(getRegistries()).toEqual([{ url: 'https://registry.example.org/' }]);
+    });
+
+    it('should read a list of registries with optional scopes in priority order', () => {
+      process.env.FPL_REGISTRY =
+        'org.example.* = https://registry.example.org, https://packages.fhir.org,,https://other.example.org?a=b';
+      expect(getRegistries()).toEqual([
+        { url: 'https://registry.example.org', scope: 'org.example.*' },
+        { url: 'https://packages.fhir.org' },
+        { url: 'https://other.example.org?a=b' }
+      ]);
+    });
+  });
+
+  describe('#getPackageRegistries', () => {
+    it('should return the registries whose scope matches the package in priority order', () => {
+      process.env.FPL_REGISTRY =
+        'org.example.*=https://registry.example.org,com.example.*=https://other.example.org,https://packages.fhir.org';
+      expect(getPackageRegistries('org.example.ig')).toEqual([
+        'https://registry.example.org',
+        'https://packages.fhir.org'
+      ]);
+      expect(getPackageRegistries('hl7.fhir.us.core')).toEqual(['https://packages.fhir.org']);
+    });
+
+    it('should return no registries for a package that does not match any scope', () => {
+      process.env.FPL_REGISTRY = 'org.example.*=https://registry.example.org';
+      expect(getPackageRegistries('hl7.fhir.us.core')).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,49 @@
+import { formatBytes, formatDate, formatTable } from '../../src/utils/format';
+
+describe('format', () => {
+  describe('#formatBytes', () => {
+    it('should format bytes, kilobytes, and megabytes', () => {
+      expect(formatBytes(100)).toBe('100 B');
+      expect(formatBytes(1536)).toBe('1.5 kB');
+      expect(formatBytes(3 * 1024 * 1024)).toBe('3.0 MB');
+    });
+  });
+
+  describe('#formatDate', () => {
+    it('should format ISO 8601 dates and package build dates', () => {
+      expect(formatDate('2023-06-01T12:00:00.000Z')).toBe('2023-06-01');
+      expect(formatDate('20200413230227')).toBe('2020-04-13');
+    });
+
+    it('should return an empty string for a missing or unreadable date', () => {
+      expect(formatDate(undefined)).toBe('');
+      expect(formatDate('not a date')).toBe('');
+    });
+  });
+
+  describe('#formatTable', () => {
+    it('should align each column to its widest cell', () => {
+      expect(
+        formatTable(
+          ['Package', 'Version', 'Size'],
+          [
+            ['hl7.fhir.r4.core', '4.0.1', '53.2 MB'],
+            ['sushi-test', '0.1.0', '2.1 kB']
+          ]
+        )
+      ).toBe(
+        [
+          'Package           Version  Size',
+          'hl7.fhir.r4.core  4.0.1    53.2 MB',
+          'sushi-test        0.1.0    2.1 kB'
+        ].join('\n')
+      );
+    });
+
+    it('should leave missing cells blank without trailing spaces', () => {
+      expect(formatTable(['Package', 'Type'], [['sushi-test']])).toBe(
+        ['Package     Type', 'sushi-test'].join('\n')
+      );
+    });
+  });
+});
@@ -0,0 +1,246 @@
+import fs from 'fs-extra';
+import path from 'path';
+import temp from 'temp';
+import {
+  createPackageIndex,
+  FPL_INDEX_FILE,
+  getPackageIndex,
+  PACKAGE_INDEX_FILE,
+  readPackageIndex
+} from '../../src/utils/packageIndex';
+
+describe('packageIndex', () => {
+  const fixturePath = path.join(
+    __dirname,
+    '..',
+    'testhelpers',
+    'fixtures',
+    'sushi-test#0.1.0',
+    'package'
+  );
+  const myPatientEntry = {
+    filename: 'StructureDefinition-MyPatient.json',
+    resourceType: 'StructureDefinition',
+    id: 'MyPatient',
+    url: 'http://hl7.org/fhir/sushi-test/StructureDefinition/MyPatient',
+    name: 'MyPatient',
+    kind: 'resource',
+    type: 'Patient',
+    derivation: 'constraint',
+    baseDefinition: 'http://hl7.org/fhir/StructureDefinition/Patient'
+  };
+  // The summary of MyPatient from the standard index, which does not record its name or baseDefinition
+  const standardMyPatientEntry = {
+    filename: 'StructureDefinition-MyPatient.json',
+    resourceType: 'StructureDefinition',
+    id: 'MyPatient',
+    url: 'http://hl7.org/fhir/sushi-test/StructureDefinition/MyPatient',
+    kind: 'resource',
+    type: 'Patient',
+    derivation: 'constraint'
+  };
+  let packageDirectory: string;
+
+  beforeAll(() => {
+    temp.track();
+  });
+
+  beforeEach(() => {
+    packageDirectory = temp.mkdirSync('fpl-index-test');
+    fs.copySync(
+      path.join(fixturePath, 'StructureDefinition-MyPatient.json'),
+      path.join(packageDirectory, 'StructureDefinition-MyPatient.json')
+    );
+    fs.copySync(
+      path.join(fixturePath, 'package.json'),
+      path.join(packageDirectory, 'package.json')
+    );
+  });
+
+  // The .index.json the IG Publisher ships in the package, which has no name or baseDefinition
+  const writeStandardIndex = () =>
+    fs.writeJSONSync(path.join(packageDirectory, PACKAGE_INDEX_FILE), {
+      'index-version': 1,
+      files: [standardMyPatientEntry]
+    });
+
+  describe('#createPackageIndex', () => {
+    it('should summarize each file', () => {
+      expect(createPackageIndex(packageDirectory, ['StructureDefinition-MyPatient.json'])).toEqual({
+        'index-version': 1,
+        'fpl-index-version': 1,
+        files: [myPatientEntry]
+      });
+    });
+
+    it('should use the fields recorded in the standard index', () => {
+      writeStandardIndex();
+      const standardIndex = readPackageIndex(packageDirectory);
+      standardIndex.files[0].type = 'IndexedType';
+      expect(
+        createPackageIndex(
+          packageDirectory,
+          ['StructureDefinition-MyPatient.json'],
+          undefined,
+          standardIndex
+        ).files
+      ).toEqual([{ ...standardMyPatientEntry, type: 'IndexedType' }]);
+    });
+
+    it('should not read the files that the standard index lists', () => {
+      writeStandardIndex();
+      const readSpy = jest.spyOn(fs, 'readFileSync');
+      const index = createPackageIndex(
+        packageDirectory,
+        ['StructureDefinition-MyPatient.json'],
+        undefined,
+        readPackageIndex(packageDirectory)
+      );
+      expect(index.files).toEqual([standardMyPatientEntry]);
+      expect(readSpy.mock.calls.some(call => /MyPatient/.test(String(call[0])))).toBe(false);
+      readSpy.mockRestore();
+    });
+
+    it('should not parse files whose standard index entries record every needed field', () => {
+      const readSpy = jest.spyOn(fs, 'readFileSync');
+      const index = createPackageIndex(packageDirectory, ['ValueSet-MyValueSet.json'], undefined, {
+        'index-version': 1,
+        files: [
+          {
+            filename: 'ValueSet-MyValueSet.json',
+            resourceType: 'ValueSet',
+            id: 'MyValueSet',
+            url: 'http://example.org/ValueSet/MyValueSet',
+            name: 'MyValueSet',
+            version: '1.0.0'
+          }
+        ]
+      });
+      expect(index.files).toEqual([
+        {
+          filename: 'ValueSet-MyValueSet.json',
+          resourceType: 'ValueSet',
+          id: 'MyValueSet',
+          url: 'http://example.org/ValueSet/MyValueSet',
+          name: 'MyValueSet',
+          version: '1.0.0'
+        }
+      ]);
+      expect(readSpy).not.toHaveBeenCalled();
+      readSpy.mockRestore();
+    });
+  });
+
+  describe('#readPackageIndex', () => {
+    it('should return null when the package has no index', () => {
+      expect(readPackageIndex(packageDirectory)).toBeNull();
+    });
+
+    it('should read the standard index in the IG Publisher format', () => {
+      writeStandardIndex();
+      expect(readPackageIndex(packageDirectory)).toEqual({
+        'index-version': 1,
+        files: [
+          {
+            filename: 'StructureDefinition-MyPatient.json',
+            resourceType: 'StructureDefinition',
+            id: 'MyPatient',
+            url: 'http://hl7.org/fhir/sushi-test/StructureDefinition/MyPatient',
+            kind: 'resource',
+            type: 'Patient',
+            derivation: 'constraint'
+          }
+        ]
+      });
+    });
+
+    it('should return null when the index is not valid', () => {
+      fs.writeFileSync(path.join(packageDirectory, PACKAGE_INDEX_FILE), '{ not json');
+      expect(readPackageIndex(packageDirectory)).toBeNull();
+      fs.writeJSONSync(path.join(packageDirectory, PACKAGE_INDEX_FILE), { 'index-version': 1 });
+      expect(readPackageIndex(packageDirectory)).toBeNull();
+    });
+  });
+
+  describe('#getPackageIndex', () => {
+    it('should generate the index and write it to the package when the index is missing', () => {
+      const index = getPackageIndex(packageDirectory);
+      expect(index.files).toEqual([myPatientEntry]);
+      expect(readPackageIndex(packageDirectory, FPL_INDEX_FILE)).toEqual(index);
+      expect(fs.existsSync(path.join(packageDirectory, PACKAGE_INDEX_FILE))).toBe(false);
+    });
+
+    it('should use the standard index without modifying it', () => {
+      writeStandardIndex();
+      const standardIndex = fs.readFileSync(
+        path.join(packageDirectory, PACKAGE_INDEX_FILE),
+        'utf8'
+      );
+      const index = getPackageIndex(packageDirectory);
+      expect(index.files).toEqual([standardMyPatientEntry]);
+      expect(readPackageIndex(packageDirectory, FPL_INDEX_FILE)).toEqual(index);
+      expect(fs.readFileSync(path.join(packageDirectory, PACKAGE_INDEX_FILE), 'utf8')).toBe(
+        standardIndex
+      );
+    });
+
+    it('should not write a generated index when writing is disabled', () => {
+      expect(getPackageIndex(packageDirectory, false).files).toEqual([myPatientEntry]);
+      expect(fs.existsSync(path.join(packageDirectory, FPL_INDEX_FILE))).toBe(false);
+    });
+
+    it('should use a current index without reading the indexed files', () => {
+      getPackageIndex(packageDirectory);
+      const readSpy = jest.spyOn(fs, 'readFileSync');
+      const index = getPackageIndex(packageDirectory);
+      expect(index.files).toEqual([myPatientEntry]);
+      expect(readSpy.mock.calls.some(call => /MyPatient/.test(String(call[0])))).toBe(false);
+      readSpy.mockRestore();
+    });
+
+    it('should regenerate an index that does not list every file in the package', () => {
+      getPackageIndex(packageDirectory);
+      fs.writeJSONSync(path.join(packageDirectory, 'ValueSet-MyValueSet.json'), {
+        resourceType: 'ValueSet',
+        id: 'MyValueSet',
+        url: 'http://example.org/ValueSet/MyValueSet',
+        name: 'MyValueSet'
+      });
+      const index = getPackageIndex(packageDirectory);
+      expect(index.files.map(entry => entry.filename)).toEqual([
+        'StructureDefinition-MyPatient.json',
+        'ValueSet-MyValueSet.json'
+      ]);
+      expect(readPackageIndex(packageDirectory, FPL_INDEX_FILE)).toEqual(index);
+    });
+
+    it('should regenerate an index written by a different version of FHIR Package Loader', () => {
+      fs.writeJSONSync(path.join(packageDirectory, FPL_INDEX_FILE), {
+        'index-version': 1,
+        'fpl-index-version': 0,
+        files: [{ filename: 'StructureDefinition-MyPatient.json', resourceType: 'Patient' }]
+      });
+      expect(getPackageIndex(packageDirectory).files).toEqual([myPatientEntry]);
+    });
+
+    it('should report progress as each file is indexed', () => {
+      fs.writeJSONSync(path.join(packageDirectory, 'ValueSet-MyValueSet.json'), {
+        resourceType: 'ValueSet',
+        id: 'MyValueSet'
+      });
+      const onProgress = jest.fn();
+      getPackageIndex(packageDirectory, true, onProgress);
+      expect(onProgress.mock.calls).toEqual([
+        [1, 2],
+        [2, 2]
+      ]);
+    });
+
+    it('should report every file as indexed when a current index is used', () => {
+      getPackageIndex(packageDirectory);
+      const onProgress = jest.fn();
+      getPackageIndex(packageDirectory, true, onProgress);
+      expect(onProgress.mock.calls).toEqual([[1, 1]]);
+    });
+  });
+});
@@ -0,0 +1,116 @@
+import { ProgressBars } from '../../src/utils/progressBars';
+
+describe('ProgressBars', () => {
+  let stream: { write: jest.Mock };
+  let progressBars: ProgressBars;
+
+  beforeEach(() => {
+    stream = { write: jest.fn().mockReturnValue(true) };
+    progressBars = new ProgressBars(stream as unknown as NodeJS.WritableStream);
+  });
+
+  it('should show a resolving package with an empty bar', () => {
+    progressBars.update({ type: 'resolve-start', package: 'hl7.fhir.us.core#latest' });
+    expect(progressBars.getLines()).toEqual([
+      'hl7.fhir.us.core#latest [--------------------] resolving'
+    ]);
+  });
+
+  it('should replace a requested package with its resolved version', () => {
+    progressBars.update({ type: 'resolve-start', package: 'hl7.fhir.us.core#latest' });
+    progressBars.update({
+      type: 'resolve-end',
+      package: 'hl7.fhir.us.core#latest',
+      resolvedPackage: 'hl7.fhir.us.core#5.0.1'
+    });
+    expect(progressBars.getLines()).toEqual([
+      'hl7.fhir.us.core#5.0.1 [--------------------] resolved'
+    ]);
+  });
+
+  it('should show the downloaded size and fill the bar when the total size is known', () => {
+    progressBars.update({
+      type: 'download',
+      package: 'hl7.fhir.r4.core#4.0.1',
+      bytes: 512 * 1024,
+      totalBytes: 2 * 1024 * 1024
+    });
+    expect(progressBars.getLines()).toEqual([
+      'hl7.fhir.r4.core#4.0.1 [#####---------------] downloading 512.0 kB / 2.0 MB'
+    ]);
+  });
+
+  it('should show the downloaded size with an empty bar when the total size is not known', () => {
+    progressBars.update({ type: 'download', package: 'hl7.fhir.r4.core#4.0.1', bytes: 100 });
+    expect(progressBars.getLines()).toEqual([
+      'hl7.fhir.r4.core#4.0.1 [--------------------] downloading 100 B'
+    ]);
+  });
+
+  it('should show extracted, indexed, and loaded packages', () => {
+    progressBars.update({ type: 'extract', package: 'sushi-test#0.1.0', files: 4 });
+    expect(progressBars.getLines()).toEqual([
+      'sushi-test#0.1.0 [####################] extracted 4 files'
+    ]);
+    progressBars.update({ type: 'parse', package: 'sushi-test#0.1.0', files: 1, totalFiles: 4 });
+    expect(progressBars.getLines()).toEqual([
+      'sushi-test#0.1.0 [#####---------------] indexed 1 / 4 files'
+    ]);
+    progressBars.update({ type: 'loaded', package: 'sushi-test#0.1.0' });
+    expect(progressBars.getLines()).toEqual(['sushi-test#0.1.0 [####################] loaded']);
+  });
+
+  it('should align the bars of all packages in the order they were reported', () => {
+    progressBars.update({ type: 'loaded', package: 'hl7.fhir.r4.core#4.0.1' });
+    progressBars.update({ type: 'resolve-start', package: 'sushi-test#0.1.0' });
+    expect(progressBars.getLines()).toEqual([
+      'hl7.fhir.r4.core#4.0.1 [####################] loaded',
+      'sushi-test#0.1.0       [--------------------] resolving'
+    ]);
+  });
+
+  it('should write the bars to the stream and clear them before redrawing', () => {
+    progressBars.update({ type: 'resolve-start', package: 'sushi-test#0.1.0' });
+    expect(stream.write).toHaveBeenCalledTimes(1);
+    expect(stream.write).toHaveBeenLastCalledWith(
+      'sushi-test#0.1.0 [--------------------] resolving\n'
+    );
+    progressBars.update({ type: 'loaded', package: 'sushi-test#0.1.0' });
+    // Moves the cursor up one line, clears the old bar, and draws the new bar
+    expect(stream.write.mock.calls.slice(1).map(call => call[0])).toEqual([
+      '\x1b[1A',
+      '\x1b[0J',
+      'sushi-test#0.1.0 [####################] loaded\n'
+    ]);
+  });
+
+  it('should not redraw the bars for every downloaded chunk', () => {
+    progressBars.update({
+      type: 'download',
+      package: 'sushi-test#0.1.0',
+      bytes: 10,
+      totalBytes: 30
+    });
+    progressBars.update({
+      type: 'download',
+      package: 'sushi-test#0.1.0',
+      bytes: 20,
+      totalBytes: 30
+    });
+    expect(stream.write).toHaveBeenCalledTimes(1);
+    progressBars.update({
+      type: 'download',
+      package: 'sushi-test#0.1.0',
+      bytes: 30,
+      totalBytes: 30
+    });
+    expect(stream.write).toHaveBeenLastCalledWith(
+      'sushi-test#0.1.0 [####################] downloading 30 B / 30 B\n'
+    );
+  });
+
+  it('should not write anything when clearing bars that have not been drawn', () => {
+    progressBars.clear();
+    expect(stream.write).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,79 @@
+import { getProxyForUrl } from '../../src/utils/proxy';
+
+describe('proxy', () => {
+  const proxyVariables = ['HTTP_PROXY', 'HTTPS_PROXY', 'NO_PROXY'];
+
+  beforeEach(() => {
+    proxyVariables.forEach(name => {
+      delete process.env[name];
+      delete process.env[name.toLowerCase()];
+    });
+  });
+
+  afterEach(() => {
+    Object.keys(process.env)
+      .filter(
+        name =>
+          name.startsWith('FPL_REGISTRY_PROXY_') || proxyVariables.includes(name.toUpperCase())
+      )
+      .forEach(name => delete process.env[name]);
+  });
+
+  describe('#getProxyForUrl', () => {
+    it('should use no proxy when no proxy environment variables are set', () => {
+      expect(getProxyForUrl('https://packages.fhir.org/hl7.fhir.r4.core')).toBeUndefined();
+    });
+
+    it('should use the proxy for the protocol of the URL', () => {
+      process.env.HTTP_PROXY = 'http://proxy.example.org:3128';
+      process.env.https_proxy = 'http://secure-proxy.example.org:3128';
+      expect(getProxyForUrl('http://build.fhir.org/ig/qas.json')).toBe(
+        'http://proxy.example.org:3128'
+      );
+      expect(getProxyForUrl('https://packages.fhir.org/hl7.fhir.r4.core')).toBe(
+        'http://secure-proxy.example.org:3128'
+      );
+      expect(getProxyForUrl('packages.fhir.org/hl7.fhir.r4.core')).toBe(
+        'http://secure-proxy.example.org:3128'
+      );
+    });
+
+    it('should use no proxy for hosts that match NO_PROXY', () => {
+      process.env.HTTPS_PROXY = 'http://proxy.example.org:3128';
+      process.env.NO_PROXY = 'localhost, .internal.example.org,fhir.example.com:8443';
+      expect(getProxyForUrl('https://localhost/org.example.ig')).toBeUndefined();
+      expect(
+        getProxyForUrl('https://registry.internal.example.org/org.example.ig')
+      ).toBeUndefined();
+      expect(getProxyForUrl('https://internal.example.org/org.example.ig')).toBeUndefined();
+      expect(getProxyForUrl('https://fhir.example.com:8443/org.example.ig')).toBeUndefined();
+      expect(getProxyForUrl('https://fhir.example.com/org.example.ig')).toBe(
+        'http://proxy.example.org:3128'
+      );
+      expect(getProxyForUrl('https://notlocalhost/org.example.ig')).toBe(
+        'http://proxy.example.org:3128'
+      );
+    });
+
+    it('should use no proxy for any host when NO_PROXY is *', () => {
+      process.env.HTTPS_PROXY = 'http://proxy.example.org:3128';
+      process.env.no_proxy = '*';
+      expect(getProxyForUrl('https://packages.fhir.org/hl7.fhir.r4.core')).toBeUndefined();
+    });
+
+    it('should prefer the proxy for the registry host to the other proxy settings', () => {
+      process.env.HTTPS_PROXY = 'http://proxy.example.org:3128';
+      process.env.NO_PROXY = 'example.org';
+      process.env.FPL_REGISTRY_PROXY_REGISTRY_EXAMPLE_ORG =
+        'http://registry-proxy.example.org:8080';
+      process.env.FPL_REGISTRY_PROXY_PACKAGES_FHIR_ORG = 'direct';
+      expect(getProxyForUrl('https://registry.example.org/org.example.ig')).toBe(
+        'http://registry-proxy.example.org:8080'
+      );
+      expect(getProxyForUrl('https://packages.fhir.org/hl7.fhir.r4.core')).toBeUndefined();
+      expect(getProxyForUrl('https://packages2.fhir.org/hl7.fhir.r4.core')).toBe(
+        'http://proxy.example.org:3128'
+      );
+    });
+  });
+});